@@ -5,6 +5,7 @@ import {
 } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideAnimations } from '@angular/platform-browser/animations';
+import { CaptchaBackend, InMemoryCaptchaBackend } from 'ngx-dice-captcha';
 import { routes } from './app.routes';
 
 export const appConfig: ApplicationConfig = {
@@ -13,5 +14,7 @@ export const appConfig: ApplicationConfig = {
     provideZonelessChangeDetection(),
     provideRouter(routes),
     provideAnimations(),
+    // Demo only: answers are checked in the browser
+    { provide: CaptchaBackend, useClass: InMemoryCaptchaBackend },
   ],
 };
@@ -30,7 +30,7 @@ export class HomeComponent {
     diceType: DiceType.D6,
     difficulty: Difficulty.MEDIUM,
     diceSize: 1.2,
-    verificationMode: VerificationMode.INDIVIDUAL_DICE,
+    verificationMode: VerificationMode.BOTH,
     overlayPosition: 'top-left',
     showTimer: false,
     showAttempts: true,
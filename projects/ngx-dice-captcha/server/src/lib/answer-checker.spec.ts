@@ -0,0 +1,196 @@
+import {
+  areValidDiceValues,
+  calculateExpectedAnswer,
+  checkChallengeAnswer,
+  checkDiceAnswer,
+  compareAnswers,
+} from './answer-checker';
+import { Difficulty, OperationType } from './models/challenge.model';
+import { DiceType } from './models/dice-type.model';
+import { VerificationMode } from './models/verification-mode.model';
+
+describe('answer-checker', () => {
+  describe('checkDiceAnswer', () => {
+    it('should accept matching dice and sum', () => {
+      const check = checkDiceAnswer([3, 4, 5], 12, [3, 4, 5]);
+
+      expect(check.success).toBe(true);
+      expect(check.expectedSum).toBe(12);
+      expect(check.message).toBe('CAPTCHA verified successfully!');
+    });
+
+    it('should report partial matches', () => {
+      const check = checkDiceAnswer([3, 1, 5], 12, [3, 4, 5]);
+
+      expect(check.success).toBe(false);
+      expect(check.correctDice).toBe(2);
+      expect(check.sumCorrect).toBe(true);
+      expect(check.message).toBe('Incorrect dice values. 2/3 correct. Sum is correct.');
+    });
+
+    it('should reject a wrong sum even when all dice match', () => {
+      const check = checkDiceAnswer([3, 4, 5], 11, [3, 4, 5]);
+
+      expect(check.success).toBe(false);
+      expect(check.message).toBe('Dice values are correct, but sum is incorrect.');
+    });
+
+    it('should flag a wrong number of values', () => {
+      const check = checkDiceAnswer([3, 4], 7, [3, 4, 5]);
+
+      expect(check.validLength).toBe(false);
+      expect(check.success).toBe(false);
+    });
+
+    it('should ignore the sum in INDIVIDUAL_DICE mode', () => {
+      const check = checkDiceAnswer([3, 4, 5], 0, [3, 4, 5], VerificationMode.INDIVIDUAL_DICE);
+      const wrong = checkDiceAnswer([3, 1, 5], 12, [3, 4, 5], VerificationMode.INDIVIDUAL_DICE);
+
+      expect(check.success).toBe(true);
+      expect(wrong.success).toBe(false);
+      expect(wrong.message).toBe('Incorrect dice values. 2/3 correct.');
+      expect(wrong.partialMatch).toEqual({ correctDice: 2, totalDice: 3 });
+    });
+
+    it('should only check the sum in CALCULATION_ONLY mode', () => {
+      const check = checkDiceAnswer([], 12, [3, 4, 5], VerificationMode.CALCULATION_ONLY);
+      const wrong = checkDiceAnswer([], 11, [3, 4, 5], VerificationMode.CALCULATION_ONLY);
+
+      expect(check.success).toBe(true);
+      expect(check.validLength).toBe(true);
+      expect(wrong.success).toBe(false);
+      expect(wrong.message).toBe('Sum is incorrect.');
+      expect(wrong.partialMatch).toEqual({ sumCorrect: false });
+    });
+
+    it('should report dice and sum feedback in BOTH mode', () => {
+      const check = checkDiceAnswer([3, 1, 5], 12, [3, 4, 5], VerificationMode.BOTH);
+
+      expect(check.partialMatch).toEqual({ correctDice: 2, totalDice: 3, sumCorrect: true });
+    });
+  });
+
+  describe('operation challenges', () => {
+    const challenge = {
+      id: 'c',
+      difficulty: Difficulty.EASY,
+      operation: OperationType.SUM,
+      diceCount: 3,
+      description: '',
+    };
+
+    it('should calculate expected answers', () => {
+      expect(calculateExpectedAnswer(challenge, [2, 3, 4])).toBe(9);
+      expect(
+        calculateExpectedAnswer({ ...challenge, operation: OperationType.PRODUCT }, [2, 3, 4])
+      ).toBe(24);
+      expect(
+        calculateExpectedAnswer({ ...challenge, operation: OperationType.DIFFERENCE }, [2, 3, 6])
+      ).toBe(4);
+    });
+
+    it('should calculate parity, ordering, counting and comparison answers', () => {
+      const answer = (operation: OperationType, values: number[], targetValue?: number) =>
+        calculateExpectedAnswer({ ...challenge, operation, targetValue }, values);
+
+      expect(answer(OperationType.EVEN_COUNT, [2, 3, 6])).toBe(2);
+      expect(answer(OperationType.SORTED_ASCENDING, [5, 2, 3])).toEqual([2, 3, 5]);
+      expect(answer(OperationType.COUNT_OF_VALUE, [4, 1, 4], 4)).toBe(2);
+      expect(answer(OperationType.COUNT_OF_VALUE, [4, 1, 4], 6)).toBe(0);
+      expect(answer(OperationType.GREATER_THAN, [4, 1, 4], 2)).toBe(7);
+    });
+
+    it('should add the total to compound answers', () => {
+      const compound = (operation: OperationType, targetValue?: number) => ({
+        ...challenge,
+        operation,
+        targetValue,
+        addTotal: true,
+      });
+      const answer = (operation: OperationType, values: number[], targetValue?: number) =>
+        calculateExpectedAnswer(compound(operation, targetValue), values);
+
+      expect(answer(OperationType.SPECIFIC_NUMBER, [4, 1, 4], 4)).toBe(10);
+      expect(answer(OperationType.SPECIFIC_NUMBER, [4, 1, 4], 6)).toBe(9);
+      expect(answer(OperationType.EVEN_COUNT, [2, 3, 6])).toBe(13);
+      expect(answer(OperationType.COUNT_OF_VALUE, [4, 1, 4], 4)).toBe(11);
+      expect(
+        checkChallengeAnswer(1, compound(OperationType.SPECIFIC_NUMBER, 4), [4, 1, 4]).success
+      ).toBe(false);
+    });
+
+    it('should find dice by color and screen position', () => {
+      const dieValue = { ...challenge, operation: OperationType.DIE_VALUE };
+      const leftmost = { ...challenge, operation: OperationType.LEFTMOST_SUM, targetValue: 2 };
+
+      expect(calculateExpectedAnswer({ ...dieValue, targetColor: 'blue' }, [2, 5, 3])).toBe(5);
+      expect(calculateExpectedAnswer({ ...dieValue, targetColor: 'orange' }, [2, 5, 3])).toBe(-1);
+      expect(
+        calculateExpectedAnswer({ ...dieValue, targetPosition: 1 }, [2, 5, 3], [2, 0, 1])
+      ).toBe(3);
+      expect(calculateExpectedAnswer(leftmost, [2, 5, 3], [2, 0, 1])).toBe(5);
+    });
+
+    it('should fall back to dice order without a valid screen order', () => {
+      const leftmost = { ...challenge, operation: OperationType.LEFTMOST_SUM, targetValue: 2 };
+
+      expect(calculateExpectedAnswer(leftmost, [2, 5, 3])).toBe(7);
+      expect(calculateExpectedAnswer(leftmost, [2, 5, 3], [0, 0, 1])).toBe(7);
+    });
+
+    it('should compare sorted values one by one', () => {
+      const sorted = { ...challenge, operation: OperationType.SORTED_ASCENDING };
+
+      expect(checkChallengeAnswer([1, 12], sorted, [12, 1]).success).toBe(true);
+      expect(checkChallengeAnswer([11, 2], sorted, [12, 1]).success).toBe(false);
+      expect(checkChallengeAnswer(112, sorted, [12, 1]).success).toBe(false);
+      expect(checkChallengeAnswer([1], sorted, [12, 1]).success).toBe(false);
+    });
+
+    it('should ignore tolerance for exact operations', () => {
+      expect(compareAnswers(8, 7, OperationType.GREATER_THAN, 20)).toBe(false);
+      expect(compareAnswers(2, 2, OperationType.EVEN_COUNT, 10)).toBe(true);
+    });
+
+    it('should compare answers with tolerance', () => {
+      expect(compareAnswers(10, 10, OperationType.SUM)).toBe(true);
+      expect(compareAnswers(11, 10, OperationType.SUM)).toBe(false);
+      expect(compareAnswers(11, 10, OperationType.SUM, 10)).toBe(true);
+    });
+
+    it('should check challenge answers without revealing the solution', () => {
+      const product = { ...challenge, operation: OperationType.PRODUCT };
+
+      expect(checkChallengeAnswer(24, product, [2, 3, 4]).success).toBe(true);
+      expect(checkChallengeAnswer(NaN, product, [2, 3, 4]).success).toBe(false);
+
+      const wrong = checkChallengeAnswer(9, product, [2, 3, 4]);
+      expect(wrong.success).toBe(false);
+      expect(wrong.expectedAnswer).toBe(24);
+      expect(wrong.message).not.toContain('24');
+    });
+  });
+
+  describe('areValidDiceValues', () => {
+    it('should only accept six-sided faces', () => {
+      expect(areValidDiceValues([1, 6])).toBe(true);
+      expect(areValidDiceValues([0, 6])).toBe(false);
+      expect(areValidDiceValues([1.5])).toBe(false);
+      expect(areValidDiceValues([1, 2], 3)).toBe(false);
+    });
+
+    it('should accept every face of the given dice type', () => {
+      expect(areValidDiceValues([7, 20], 2, DiceType.D20)).toBe(true);
+      expect(areValidDiceValues([21], 1, DiceType.D20)).toBe(false);
+      expect(areValidDiceValues([8], 1, DiceType.D8)).toBe(true);
+    });
+
+    it('should bound each value by its own die in a mixed set', () => {
+      const types = [DiceType.D6, DiceType.D6, DiceType.D20];
+
+      expect(areValidDiceValues([6, 1, 17], 3, types)).toBe(true);
+      expect(areValidDiceValues([17, 1, 6], 3, types)).toBe(false);
+      expect(areValidDiceValues([6, 1, 17, 2], undefined, types)).toBe(false);
+    });
+  });
+});
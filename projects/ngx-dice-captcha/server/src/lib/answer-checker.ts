@@ -0,0 +1,336 @@
+import { Challenge, OperationType } from './models/challenge.model';
+import { getDiceColorIndex } from './models/dice-color.model';
+import { getDieType } from './models/dice-set.model';
+import { DICE_FACE_COUNT, DiceType } from './models/dice-type.model';
+import { VerificationMode } from './models/verification-mode.model';
+import { PartialMatch } from './models/verification-result.model';
+
+/**
+ * Outcome of comparing entered dice values and sum with the actual roll
+ */
+export interface DiceAnswerCheck {
+  /** Whether every field the mode asks for is correct */
+  success: boolean;
+
+  /** Whether the number of entered values matches the number of dice */
+  validLength: boolean;
+
+  /** Number of dice values entered correctly */
+  correctDice: number;
+
+  /** Total number of dice */
+  totalDice: number;
+
+  /** Whether the entered sum is correct */
+  sumCorrect: boolean;
+
+  /** Sum of the actual dice values */
+  expectedSum: number;
+
+  /**
+   * Feedback on the fields the mode asks for, e.g. only `sumCorrect`
+   * in CALCULATION_ONLY mode
+   * @since 2.4.0
+   */
+  partialMatch: PartialMatch;
+
+  /** User-facing explanation of the outcome */
+  message: string;
+}
+
+/**
+ * Checks entered dice values and their sum against the actual roll.
+ *
+ * This is the single answer check used by the Angular component, the
+ * validator service and {@link DiceCaptchaServer}. The mode decides which
+ * fields count: INDIVIDUAL_DICE ignores the sum, CALCULATION_ONLY ignores
+ * the dice values and BOTH needs both.
+ *
+ * @param userDiceInputs - Entered dice values, in dice order
+ * @param userSum - Entered sum
+ * @param actualDiceValues - Actual dice values, in dice order
+ * @param mode - Which fields to check (default: BOTH)
+ * @returns Check outcome with partial match details
+ *
+ * @example
+ * ```typescript
+ * const check = checkDiceAnswer([3, 4, 5], 12, [3, 4, 5]);
+ * check.success; // true
+ *
+ * checkDiceAnswer([], 12, [3, 4, 5], VerificationMode.CALCULATION_ONLY).success; // true
+ * ```
+ */
+export function checkDiceAnswer(
+  userDiceInputs: number[],
+  userSum: number,
+  actualDiceValues: number[],
+  mode: VerificationMode = VerificationMode.BOTH
+): DiceAnswerCheck {
+  const totalDice = actualDiceValues.length;
+  const expectedSum = actualDiceValues.reduce((sum, val) => sum + val, 0);
+  const checksDice = mode !== VerificationMode.CALCULATION_ONLY;
+  const checksSum = mode !== VerificationMode.INDIVIDUAL_DICE;
+
+  if (checksDice && userDiceInputs.length !== totalDice) {
+    return {
+      success: false,
+      validLength: false,
+      correctDice: 0,
+      totalDice,
+      sumCorrect: false,
+      expectedSum,
+      partialMatch: {},
+      message: 'Invalid number of dice values provided',
+    };
+  }
+
+  const correctDice = checksDice
+    ? userDiceInputs.filter((val, idx) => val === actualDiceValues[idx]).length
+    : 0;
+  const allDiceCorrect = !checksDice || correctDice === totalDice;
+  const sumCorrect = userSum === expectedSum;
+  const success = allDiceCorrect && (!checksSum || sumCorrect);
+
+  let message: string;
+  if (success) {
+    message = 'CAPTCHA verified successfully!';
+  } else if (!checksSum) {
+    message = `Incorrect dice values. ${correctDice}/${totalDice} correct.`;
+  } else if (!checksDice) {
+    message = 'Sum is incorrect.';
+  } else if (!allDiceCorrect && !sumCorrect) {
+    message = `Incorrect values. ${correctDice}/${totalDice} dice correct. Sum is also incorrect.`;
+  } else if (!allDiceCorrect) {
+    message = `Incorrect dice values. ${correctDice}/${totalDice} correct. Sum is correct.`;
+  } else {
+    message = 'Dice values are correct, but sum is incorrect.';
+  }
+
+  return {
+    success,
+    validLength: true,
+    correctDice,
+    totalDice,
+    sumCorrect,
+    expectedSum,
+    partialMatch: {
+      ...(checksDice ? { correctDice, totalDice } : {}),
+      ...(checksSum ? { sumCorrect } : {}),
+    },
+    message,
+  };
+}
+
+/**
+ * Outcome of comparing an answer with an operation challenge's solution
+ */
+export interface ChallengeAnswerCheck {
+  /** Whether the answer is accepted */
+  success: boolean;
+
+  /** Result of {@link calculateExpectedAnswer} for the roll */
+  expectedAnswer: number | number[];
+
+  /** User-facing explanation of the outcome; never reveals the expected answer */
+  message: string;
+}
+
+/**
+ * Checks the answer to an operation challenge against the actual roll.
+ *
+ * Used for CHALLENGE verification mode by the Angular component and
+ * {@link DiceCaptchaServer}.
+ *
+ * @param userAnswer - Entered answer; the entered values, lowest first, for SORTED_ASCENDING
+ * @param challenge - Challenge that was posed
+ * @param actualDiceValues - Actual dice values, in dice order
+ * @param tolerancePercentage - Allowed deviation for numeric answers (default: 0)
+ * @param screenOrder - Dice indices from left to right on screen, for position challenges
+ * @returns Check outcome with the expected answer
+ *
+ * @example
+ * ```typescript
+ * const check = checkChallengeAnswer(60, productChallenge, [3, 4, 5]);
+ * check.success; // true
+ * ```
+ */
+export function checkChallengeAnswer(
+  userAnswer: number | number[],
+  challenge: Challenge,
+  actualDiceValues: number[],
+  tolerancePercentage = 0,
+  screenOrder?: number[]
+): ChallengeAnswerCheck {
+  const expectedAnswer = calculateExpectedAnswer(challenge, actualDiceValues, screenOrder);
+  const success =
+    [userAnswer].flat().every(Number.isFinite) &&
+    compareAnswers(userAnswer, expectedAnswer, challenge.operation, tolerancePercentage);
+
+  return {
+    success,
+    expectedAnswer,
+    message: success ? 'CAPTCHA verified successfully!' : 'Incorrect answer.',
+  };
+}
+
+/**
+ * Checks that every value is a face of the die it was read from.
+ *
+ * @param values - Values to check, in dice order
+ * @param expectedCount - Required number of values (optional)
+ * @param diceType - Type of every die, or the type of each die for a mixed set (default: D6)
+ * @returns True if all values are integers between 1 and their die's face count
+ *
+ * @example
+ * ```typescript
+ * areValidDiceValues([6, 17], 2, [DiceType.D6, DiceType.D20]); // true
+ * areValidDiceValues([17, 6], 2, [DiceType.D6, DiceType.D20]); // false
+ * ```
+ */
+export function areValidDiceValues(
+  values: number[],
+  expectedCount?: number,
+  diceType: DiceType | readonly DiceType[] = DiceType.D6
+): boolean {
+  if (!Array.isArray(values)) {
+    return false;
+  }
+
+  if (expectedCount !== undefined && values.length !== expectedCount) {
+    return false;
+  }
+
+  return values.every((val, index) => {
+    const type = getDieType(diceType, index);
+    return type !== undefined && Number.isInteger(val) && val >= 1 && val <= DICE_FACE_COUNT[type];
+  });
+}
+
+/**
+ * Calculates the expected answer for an operation challenge.
+ *
+ * Position challenges read the dice from left to right using `screenOrder`;
+ * without a valid one they fall back to dice order.
+ *
+ * @param challenge - Challenge to solve
+ * @param diceValues - Actual dice values, in dice order
+ * @param screenOrder - Dice indices from left to right on screen
+ * @returns Expected answer; `1`/`0` for SPECIFIC_NUMBER, the values sorted ascending for
+ * SORTED_ASCENDING (e.g. `[2, 3, 5, 12]`), `-1` for unknown operations or dice the
+ * challenge cannot find. With `addTotal`, the total of the dice is added.
+ */
+export function calculateExpectedAnswer(
+  challenge: Challenge,
+  diceValues: number[],
+  screenOrder?: number[]
+): number | number[] {
+  const total = diceValues.reduce((sum, val) => sum + val, 0);
+  const added = challenge.addTotal ? total : 0;
+
+  switch (challenge.operation) {
+    case OperationType.SUM:
+      return total;
+
+    case OperationType.PRODUCT:
+      return diceValues.reduce((product, val) => product * val, 1);
+
+    case OperationType.DIFFERENCE:
+      return Math.max(...diceValues) - Math.min(...diceValues);
+
+    case OperationType.SPECIFIC_NUMBER:
+      // Check if any dice shows the target value
+      return (diceValues.includes(challenge.targetValue!) ? 1 : 0) + added;
+
+    case OperationType.EVEN_COUNT:
+      return diceValues.filter((val) => val % 2 === 0).length + added;
+
+    case OperationType.SORTED_ASCENDING:
+      return [...diceValues].sort((a, b) => a - b);
+
+    case OperationType.COUNT_OF_VALUE:
+      return diceValues.filter((val) => val === challenge.targetValue).length + added;
+
+    case OperationType.GREATER_THAN:
+      return total - challenge.targetValue!;
+
+    case OperationType.DIE_VALUE: {
+      const value =
+        challenge.targetColor !== undefined
+          ? diceValues[getDiceColorIndex(challenge.targetColor)]
+          : inScreenOrder(diceValues, screenOrder)[challenge.targetPosition! - 1];
+      return value ?? -1;
+    }
+
+    case OperationType.LEFTMOST_SUM:
+      return inScreenOrder(diceValues, screenOrder)
+        .slice(0, challenge.targetValue)
+        .reduce((sum, val) => sum + val, 0);
+
+    default:
+      return -1;
+  }
+}
+
+/**
+ * Reorders dice values from left to right on screen.
+ * Falls back to dice order unless `screenOrder` lists every dice index once.
+ */
+function inScreenOrder(diceValues: number[], screenOrder?: number[]): number[] {
+  const valid =
+    !!screenOrder &&
+    screenOrder.length === diceValues.length &&
+    diceValues.every((_, index) => screenOrder.includes(index));
+
+  return valid ? screenOrder.map((index) => diceValues[index]) : diceValues;
+}
+
+/**
+ * Operations whose answers must match exactly, whatever the tolerance
+ */
+const EXACT_OPERATIONS: OperationType[] = [
+  OperationType.SPECIFIC_NUMBER,
+  OperationType.EVEN_COUNT,
+  OperationType.SORTED_ASCENDING,
+  OperationType.COUNT_OF_VALUE,
+  OperationType.GREATER_THAN,
+  OperationType.DIE_VALUE,
+];
+
+/**
+ * Compares a user's answer with the expected answer of an operation challenge.
+ *
+ * @param userAnswer - User's answer
+ * @param expectedAnswer - Result of {@link calculateExpectedAnswer}
+ * @param operation - Operation of the challenge
+ * @param tolerancePercentage - Allowed deviation for numeric answers (default: 0)
+ * @returns True if the answer is accepted
+ */
+export function compareAnswers(
+  userAnswer: number | number[],
+  expectedAnswer: number | number[],
+  operation: OperationType,
+  tolerancePercentage = 0
+): boolean {
+  // Lists of values match value by value
+  if (Array.isArray(userAnswer) || Array.isArray(expectedAnswer)) {
+    return (
+      Array.isArray(userAnswer) &&
+      Array.isArray(expectedAnswer) &&
+      userAnswer.length === expectedAnswer.length &&
+      userAnswer.every((val, index) => val === expectedAnswer[index])
+    );
+  }
+
+  // Yes/no answers, counts, comparisons and single faces are never approximately right
+  if (EXACT_OPERATIONS.includes(operation)) {
+    return userAnswer === expectedAnswer;
+  }
+
+  // For other operations, check numerical equality with tolerance
+  if (tolerancePercentage > 0) {
+    const tolerance = Math.abs((expectedAnswer * tolerancePercentage) / 100);
+    return Math.abs(userAnswer - expectedAnswer) <= tolerance;
+  }
+
+  return userAnswer === expectedAnswer;
+}
@@ -0,0 +1,103 @@
+import { calculateExpectedAnswer } from './answer-checker';
+import { ChallengeGenerator } from './challenge-generator';
+import { Difficulty, OperationType } from './models/challenge.model';
+import { DICE_FACE_COUNT, DiceType } from './models/dice-type.model';
+
+describe('ChallengeGenerator', () => {
+  const generator = new ChallengeGenerator();
+  const difficulties = [Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD];
+
+  it('should generate solvable challenges for every dice type', () => {
+    for (const diceType of Object.values(DiceType)) {
+      for (const difficulty of difficulties) {
+        for (let i = 0; i < 50; i++) {
+          const challenge = generator.generateChallenge(difficulty, diceType);
+
+          expect(generator.validateChallenge(challenge, diceType).isSolvable).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('should pick counted values from every face of the dice', () => {
+    const counted = new Set<number>();
+    for (let i = 0; i < 400; i++) {
+      const challenge = generator.generateChallenge(Difficulty.EASY, DiceType.D20);
+      if (challenge.operation === OperationType.COUNT_OF_VALUE) {
+        counted.add(challenge.targetValue!);
+      }
+    }
+
+    expect(Math.max(...counted)).toBeGreaterThan(6);
+    expect(Math.max(...counted)).toBeLessThanOrEqual(DICE_FACE_COUNT[DiceType.D20]);
+  });
+
+  it('should pose easy and medium questions whose answer is rarely guessed blind', () => {
+    // Every roll of the question's dice, as if read in dice order
+    const rolls = (diceCount: number): number[][] =>
+      diceCount === 0
+        ? [[]]
+        : rolls(diceCount - 1).flatMap((roll) => [1, 2, 3, 4, 5, 6].map((face) => [...roll, face]));
+    const posed = new Set<OperationType>();
+
+    for (const difficulty of [Difficulty.EASY, Difficulty.MEDIUM]) {
+      for (let i = 0; i < 100; i++) {
+        const challenge = generator.generateChallenge(difficulty, DiceType.D6);
+        const answers = new Map<string, number>();
+        const all = rolls(challenge.diceCount);
+        for (const roll of all) {
+          const answer = String(calculateExpectedAnswer(challenge, roll));
+          answers.set(answer, (answers.get(answer) ?? 0) + 1);
+        }
+        posed.add(challenge.operation);
+
+        // No more likely than reading a four-sided die
+        expect(Math.max(...answers.values()) / all.length).toBeLessThan(0.25);
+      }
+    }
+
+    expect(posed).toContain(OperationType.SPECIFIC_NUMBER);
+    expect(posed).toContain(OperationType.EVEN_COUNT);
+    expect(posed).toContain(OperationType.COUNT_OF_VALUE);
+  });
+
+  it('should reject targets the dice cannot reach', () => {
+    const challenge = {
+      id: 'c',
+      difficulty: Difficulty.EASY,
+      operation: OperationType.SPECIFIC_NUMBER,
+      diceCount: 2,
+      targetValue: 10,
+      addTotal: true,
+      description: 'What is the total of the dice, plus 1 if any die shows 10?',
+    };
+
+    expect(generator.validateChallenge(challenge, DiceType.D6).isSolvable).toBe(false);
+    expect(generator.validateChallenge(challenge, DiceType.D12).isSolvable).toBe(true);
+  });
+
+  it('should only accept products of faces the dice show', () => {
+    const product = {
+      id: 'c',
+      difficulty: Difficulty.MEDIUM,
+      operation: OperationType.PRODUCT,
+      diceCount: 2,
+      targetValue: 49,
+      description: 'What is the product of the dice?',
+    };
+
+    expect(generator.validateChallenge(product, DiceType.D6).isSolvable).toBe(false);
+    expect(generator.validateChallenge(product, DiceType.D8).isSolvable).toBe(true);
+  });
+
+  it('should ask comparisons whose answer is a positive number', () => {
+    for (let i = 0; i < 200; i++) {
+      const challenge = generator.generateChallenge(Difficulty.MEDIUM);
+      if (challenge.operation === OperationType.GREATER_THAN) {
+        const lowest = Array(challenge.diceCount).fill(1);
+
+        expect(calculateExpectedAnswer(challenge, lowest) as number).toBeGreaterThan(0);
+      }
+    }
+  });
+});
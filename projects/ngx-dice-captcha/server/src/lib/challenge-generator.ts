@@ -0,0 +1,724 @@
+import { calculateExpectedAnswer } from './answer-checker';
+import {
+  Challenge,
+  ChallengeValidation,
+  Difficulty,
+  OperationType,
+} from './models/challenge.model';
+import { DICE_COLOR_PALETTE, getDiceColorIndex } from './models/dice-color.model';
+import { DICE_FACE_COUNT, DiceType } from './models/dice-type.model';
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six'];
+const ORDINAL_WORDS = ['zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth'];
+
+/**
+ * Generates random challenges for the CAPTCHA.
+ *
+ * Creates various mathematical challenges based on dice rolls with different
+ * difficulty levels (Easy, Medium, Hard) and operation types (Sum, Product,
+ * Difference, Specific Number, and parity, ordering, counting and comparison
+ * questions). Each description asks for a value computed from the roll.
+ * Die-value and leftmost-sum questions refer to a die by its color or its
+ * position on screen.
+ * Targets and solvability checks follow the face count of the dice rolled.
+ * Validates challenge solvability and calculates solutions from dice results.
+ *
+ * Used by {@link DiceCaptchaServer} to pose questions and by
+ * `ChallengeGeneratorService` in the browser.
+ *
+ * @example
+ * ```typescript
+ * const generator = new ChallengeGenerator();
+ * const challenge = generator.generateChallenge(Difficulty.MEDIUM, DiceType.D6);
+ * console.log(challenge.description); // "What is the sum of the dice?"
+ *
+ * const diceResults = [4, 5, 3];
+ * const solution = generator.calculateSolution(diceResults, challenge);
+ * console.log(solution); // 12
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export class ChallengeGenerator {
+  private challengeIdCounter = 0;
+
+  /**
+   * Generates a random challenge based on difficulty level.
+   *
+   * Selects appropriate operation types and target values based on difficulty.
+   * All generated challenges are guaranteed to be solvable with the given dice.
+   *
+   * @param difficulty - Difficulty level (default: MEDIUM)
+   * @param diceType - Type of the dice rolled, whose face count bounds the targets
+   * (default: D6, since 2.4.0)
+   * @returns A complete challenge object with description and target
+   * @public
+   */
+  generateChallenge(
+    difficulty: Difficulty = Difficulty.MEDIUM,
+    diceType: DiceType = DiceType.D6
+  ): Challenge {
+    const challengeId = this.generateChallengeId();
+    const faces = DICE_FACE_COUNT[diceType];
+
+    switch (difficulty) {
+      case Difficulty.EASY:
+        return this.generateEasyChallenge(challengeId, faces);
+      case Difficulty.MEDIUM:
+        return this.generateMediumChallenge(challengeId, faces);
+      case Difficulty.HARD:
+        return this.generateHardChallenge(challengeId, faces);
+      default:
+        return this.generateMediumChallenge(challengeId, faces);
+    }
+  }
+
+  /**
+   * Generate an easy challenge (sum or a colored die with 2 dice, or lookup, parity or
+   * counting added to the total of 3 dice)
+   */
+  private generateEasyChallenge(id: string, faces: number): Challenge {
+    const operations = [
+      OperationType.SUM,
+      OperationType.SPECIFIC_NUMBER,
+      OperationType.EVEN_COUNT,
+      OperationType.COUNT_OF_VALUE,
+      OperationType.DIE_VALUE,
+    ];
+    const operation = operations[Math.floor(Math.random() * operations.length)];
+
+    if (operation === OperationType.EVEN_COUNT || operation === OperationType.COUNT_OF_VALUE) {
+      return this.generateObservationChallenge(id, Difficulty.EASY, operation, 3, faces);
+    }
+
+    if (operation === OperationType.DIE_VALUE) {
+      return this.generateReferenceChallenge(id, Difficulty.EASY, operation, 2, true);
+    }
+
+    if (operation === OperationType.SPECIFIC_NUMBER) {
+      // A yes or no alone is a coin toss, so it is added to the total
+      const targetValue = this.getRandomFace(faces);
+      return {
+        id,
+        difficulty: Difficulty.EASY,
+        operation,
+        diceCount: 3,
+        targetValue,
+        addTotal: true,
+        description: `What is the total of the dice, plus 1 if any die shows ${targetValue}?`,
+        hint: `Add all dice values, then add 1 more if one of them is ${targetValue}`,
+      };
+    }
+
+    // Sum operation
+    const targetValue = this.getRandomSumTarget(2, faces);
+    return {
+      id,
+      difficulty: Difficulty.EASY,
+      operation: OperationType.SUM,
+      diceCount: 2,
+      targetValue,
+      description: 'What is the sum of the dice?',
+      hint: 'Add the numbers on both dice',
+    };
+  }
+
+  /**
+   * Generate a medium challenge (sum, product, parity, comparison or a referenced die
+   * with 3 dice)
+   */
+  private generateMediumChallenge(id: string, faces: number): Challenge {
+    const operations = [
+      OperationType.SUM,
+      OperationType.PRODUCT,
+      OperationType.EVEN_COUNT,
+      OperationType.GREATER_THAN,
+      OperationType.DIE_VALUE,
+      OperationType.LEFTMOST_SUM,
+    ];
+    const operation = operations[Math.floor(Math.random() * operations.length)];
+
+    if (operation === OperationType.EVEN_COUNT || operation === OperationType.GREATER_THAN) {
+      return this.generateObservationChallenge(id, Difficulty.MEDIUM, operation, 3, faces);
+    }
+
+    if (operation === OperationType.DIE_VALUE || operation === OperationType.LEFTMOST_SUM) {
+      const byColor = Math.random() < 0.5;
+      return this.generateReferenceChallenge(id, Difficulty.MEDIUM, operation, 3, byColor);
+    }
+
+    if (operation === OperationType.PRODUCT) {
+      const targetValue = this.getRandomProductTarget(3, faces);
+      return {
+        id,
+        difficulty: Difficulty.MEDIUM,
+        operation,
+        diceCount: 3,
+        targetValue,
+        description: 'What is the product of the dice?',
+        hint: 'Multiply all dice values together',
+      };
+    }
+
+    // Sum operation
+    const targetValue = this.getRandomSumTarget(3, faces);
+    return {
+      id,
+      difficulty: Difficulty.MEDIUM,
+      operation: OperationType.SUM,
+      diceCount: 3,
+      targetValue,
+      description: 'What is the sum of the dice?',
+      hint: 'Add all dice values together',
+    };
+  }
+
+  /**
+   * Generate a hard challenge (complex operations with 4+ dice)
+   */
+  private generateHardChallenge(id: string, faces: number): Challenge {
+    const operations = [
+      OperationType.SUM,
+      OperationType.PRODUCT,
+      OperationType.DIFFERENCE,
+      OperationType.SORTED_ASCENDING,
+      OperationType.COUNT_OF_VALUE,
+      OperationType.GREATER_THAN,
+      OperationType.DIE_VALUE,
+      OperationType.LEFTMOST_SUM,
+    ];
+    const operation = operations[Math.floor(Math.random() * operations.length)];
+    const diceCount = Math.floor(Math.random() * 2) + 3; // 3-4 dice
+
+    if (operation === OperationType.DIE_VALUE || operation === OperationType.LEFTMOST_SUM) {
+      // Positions are harder to read than colors on a crowded tray
+      return this.generateReferenceChallenge(id, Difficulty.HARD, operation, diceCount, false);
+    }
+
+    if (
+      operation === OperationType.SORTED_ASCENDING ||
+      operation === OperationType.COUNT_OF_VALUE ||
+      operation === OperationType.GREATER_THAN
+    ) {
+      return this.generateObservationChallenge(id, Difficulty.HARD, operation, diceCount, faces);
+    }
+
+    if (operation === OperationType.DIFFERENCE) {
+      const targetValue = this.getRandomFace(faces - 1); // Up to the highest face minus 1
+      return {
+        id,
+        difficulty: Difficulty.HARD,
+        operation,
+        diceCount,
+        targetValue,
+        description: 'What is the difference between the highest and lowest die?',
+        hint: 'Subtract the smallest value from the largest',
+      };
+    }
+
+    if (operation === OperationType.PRODUCT) {
+      const targetValue = this.getRandomProductTarget(diceCount, faces);
+      return {
+        id,
+        difficulty: Difficulty.HARD,
+        operation,
+        diceCount,
+        targetValue,
+        description: 'What is the product of the dice?',
+        hint: 'Multiply all dice values together',
+      };
+    }
+
+    // Sum operation
+    const targetValue = this.getRandomSumTarget(diceCount, faces);
+    return {
+      id,
+      difficulty: Difficulty.HARD,
+      operation: OperationType.SUM,
+      diceCount,
+      targetValue,
+      description: 'What is the sum of the dice?',
+      hint: 'Add all dice values together',
+    };
+  }
+
+  /**
+   * Generate a parity, ordering, counting or comparison challenge.
+   * Parity and counting answers are added to the total, as most rolls share a
+   * few small counts.
+   */
+  private generateObservationChallenge(
+    id: string,
+    difficulty: Difficulty,
+    operation: OperationType,
+    diceCount: number,
+    faces: number
+  ): Challenge {
+    switch (operation) {
+      case OperationType.SORTED_ASCENDING:
+        return {
+          id,
+          difficulty,
+          operation,
+          diceCount,
+          description: 'Enter the dice values sorted from lowest to highest',
+          hint: 'For dice showing 5, 2 and 3, enter 2 3 5',
+        };
+
+      case OperationType.COUNT_OF_VALUE: {
+        const targetValue = this.getRandomFace(faces);
+        return {
+          id,
+          difficulty,
+          operation,
+          diceCount,
+          targetValue,
+          addTotal: true,
+          description: `What is the total of the dice, plus the number showing ${targetValue}?`,
+          hint: `Add all dice values, then add 1 more for every die showing ${targetValue}`,
+        };
+      }
+
+      case OperationType.GREATER_THAN: {
+        // Below the lowest possible total, so the answer is always a positive number
+        const targetValue = Math.floor(Math.random() * (diceCount - 1)) + 1;
+        return {
+          id,
+          difficulty,
+          operation,
+          diceCount,
+          targetValue,
+          description: `By how much is the total greater than ${targetValue}?`,
+          hint: `Add all dice values, then subtract ${targetValue}`,
+        };
+      }
+
+      case OperationType.EVEN_COUNT:
+      default:
+        return {
+          id,
+          difficulty,
+          operation: OperationType.EVEN_COUNT,
+          diceCount,
+          addTotal: true,
+          description: 'What is the total of the dice, plus the number of even dice?',
+          hint: `Add all dice values, then add 1 more for every die showing ${
+            faces > 6 ? '2, 4, 6 and so on' : faces > 4 ? '2, 4 or 6' : '2 or 4'
+          }`,
+        };
+    }
+  }
+
+  /**
+   * Generate a challenge about one die, named by color or position, or about the
+   * leftmost dice. Color references assume color-coded dice.
+   */
+  private generateReferenceChallenge(
+    id: string,
+    difficulty: Difficulty,
+    operation: OperationType,
+    diceCount: number,
+    byColor: boolean
+  ): Challenge {
+    if (operation === OperationType.LEFTMOST_SUM) {
+      const targetValue = Math.floor(Math.random() * (diceCount - 2)) + 2; // 2 to diceCount - 1
+      return {
+        id,
+        difficulty,
+        operation,
+        diceCount,
+        targetValue,
+        description: `What is the sum of the ${NUMBER_WORDS[targetValue]} leftmost dice?`,
+        hint: 'Add the dice closest to the left edge',
+      };
+    }
+
+    if (byColor) {
+      const targetColor = DICE_COLOR_PALETTE[Math.floor(Math.random() * diceCount)].name;
+      return {
+        id,
+        difficulty,
+        operation: OperationType.DIE_VALUE,
+        diceCount,
+        targetColor,
+        description: `What does the ${targetColor} die show?`,
+        hint: `Read the top face of the ${targetColor} die`,
+      };
+    }
+
+    const targetPosition = Math.floor(Math.random() * diceCount) + 1;
+    const die =
+      targetPosition === 1 ? 'leftmost die' : `${ORDINAL_WORDS[targetPosition]} die from the left`;
+    return {
+      id,
+      difficulty,
+      operation: OperationType.DIE_VALUE,
+      diceCount,
+      targetPosition,
+      description: `What does the ${die} show?`,
+      hint: 'Count the dice from the left edge',
+    };
+  }
+
+  /**
+   * Get a random face value from 1 to the highest face
+   */
+  private getRandomFace(faces: number): number {
+    return Math.floor(Math.random() * faces) + 1;
+  }
+
+  /**
+   * Get a random sum target that's achievable with dice
+   */
+  private getRandomSumTarget(diceCount: number, faces: number): number {
+    return Math.floor(Math.random() * (diceCount * (faces - 1) + 1)) + diceCount;
+  }
+
+  /**
+   * Get a random product target that's achievable with dice
+   */
+  private getRandomProductTarget(diceCount: number, faces: number): number {
+    return Array.from({ length: diceCount }, () => this.getRandomFace(faces)).reduce(
+      (product, val) => product * val,
+      1
+    );
+  }
+
+  /**
+   * Validates if a challenge is solvable with the given dice.
+   *
+   * Checks mathematical feasibility and estimates the number of possible solutions.
+   *
+   * @param challenge - Challenge to validate
+   * @param diceType - Type of the dice rolled, whose face count bounds the answers
+   * (default: D6, since 2.4.0)
+   * @returns Validation result with solvability status and solution count estimate
+   * @public
+   */
+  validateChallenge(challenge: Challenge, diceType: DiceType = DiceType.D6): ChallengeValidation {
+    const needsTarget = ![
+      OperationType.EVEN_COUNT,
+      OperationType.SORTED_ASCENDING,
+      OperationType.DIE_VALUE,
+    ].includes(challenge.operation);
+    if (needsTarget && !challenge.targetValue) {
+      return {
+        isValid: false,
+        isSolvable: false,
+        estimatedSolutionCount: 0,
+      };
+    }
+
+    const validation = this.checkSolvability(challenge, DICE_FACE_COUNT[diceType]);
+
+    return {
+      isValid: validation.isValid,
+      isSolvable: validation.isSolvable,
+      estimatedSolutionCount: validation.solutionCount,
+    };
+  }
+
+  /**
+   * Check if a challenge is solvable with dice numbered from 1 to `faces`
+   */
+  private checkSolvability(
+    challenge: Challenge,
+    faces: number
+  ): {
+    isValid: boolean;
+    isSolvable: boolean;
+    solutionCount: number;
+  } {
+    const diceCount = challenge.diceCount;
+    const targetValue = challenge.targetValue!;
+
+    switch (challenge.operation) {
+      case OperationType.EVEN_COUNT:
+        // Any number of dice from none to all can be even
+        return { isValid: true, isSolvable: true, solutionCount: diceCount + 1 };
+      case OperationType.SORTED_ASCENDING:
+        // Values are entered one by one, so any number of dice can be sorted
+        return { isValid: true, isSolvable: true, solutionCount: 1 };
+      case OperationType.COUNT_OF_VALUE:
+        return this.checkSpecificNumberSolvability(diceCount, targetValue, faces);
+      case OperationType.GREATER_THAN:
+        return this.checkComparisonSolvability(diceCount, targetValue, faces);
+      case OperationType.DIE_VALUE:
+        return this.checkReferenceSolvability(challenge, faces);
+      case OperationType.LEFTMOST_SUM: {
+        // Any sum from all 1s to all highest faces of the leftmost dice
+        const isSolvable = targetValue <= diceCount;
+        const solutionCount = isSolvable ? targetValue * (faces - 1) + 1 : 0;
+        return { isValid: true, isSolvable, solutionCount };
+      }
+      case OperationType.SUM:
+        return this.checkSumSolvability(diceCount, targetValue, faces);
+      case OperationType.PRODUCT:
+        return this.checkProductSolvability(diceCount, targetValue, faces);
+      case OperationType.DIFFERENCE:
+        return this.checkDifferenceSolvability(diceCount, targetValue, faces);
+      case OperationType.SPECIFIC_NUMBER:
+        return this.checkSpecificNumberSolvability(diceCount, targetValue, faces);
+      default:
+        return { isValid: false, isSolvable: false, solutionCount: 0 };
+    }
+  }
+
+  /**
+   * Check if a sum target is achievable
+   */
+  private checkSumSolvability(
+    diceCount: number,
+    target: number,
+    faces: number
+  ): { isValid: boolean; isSolvable: boolean; solutionCount: number } {
+    const minSum = diceCount; // All 1s
+    const maxSum = diceCount * faces; // All highest faces
+
+    const isSolvable = target >= minSum && target <= maxSum;
+
+    // Rough estimate of solution count
+    let solutionCount = 0;
+    if (isSolvable) {
+      // For 2 dice, there are specific combinations
+      // For simplicity, we'll estimate based on distance from average
+      const avgSum = (minSum + maxSum) / 2;
+      const distance = Math.abs(target - avgSum);
+      const maxDistance = avgSum - minSum;
+      solutionCount = Math.max(1, Math.floor((1 - distance / maxDistance) * 10));
+    }
+
+    return {
+      isValid: true,
+      isSolvable,
+      solutionCount,
+    };
+  }
+
+  /**
+   * Check if a product target is achievable
+   */
+  private checkProductSolvability(
+    diceCount: number,
+    target: number,
+    faces: number
+  ): { isValid: boolean; isSolvable: boolean; solutionCount: number } {
+    const minProduct = 1; // All 1s
+    const maxProduct = Math.pow(faces, diceCount); // All highest faces
+
+    if (target < minProduct || target > maxProduct) {
+      return { isValid: true, isSolvable: false, solutionCount: 0 };
+    }
+
+    // Check if target is factorable within dice constraints
+    const isSolvable = this.canFactorizeForDice(target, diceCount, faces);
+    const solutionCount = isSolvable ? Math.floor(Math.random() * 5) + 1 : 0;
+
+    return {
+      isValid: true,
+      isSolvable,
+      solutionCount,
+    };
+  }
+
+  /**
+   * Check if a number is the product of `diceCount` values from 1 to `faces`
+   */
+  private canFactorizeForDice(target: number, diceCount: number, faces: number): boolean {
+    if (target === 1) return true; // The remaining dice show 1
+    if (diceCount === 0) return false;
+
+    for (let face = Math.min(faces, target); face >= 2; face--) {
+      if (target % face === 0 && this.canFactorizeForDice(target / face, diceCount - 1, faces)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check if a difference target is achievable
+   */
+  private checkDifferenceSolvability(
+    diceCount: number,
+    target: number,
+    faces: number
+  ): { isValid: boolean; isSolvable: boolean; solutionCount: number } {
+    const maxDifference = faces - 1; // Highest face minus 1
+
+    const isSolvable = target >= 0 && target <= maxDifference;
+    const solutionCount = isSolvable ? Math.floor(Math.random() * 8) + 2 : 0;
+
+    return {
+      isValid: true,
+      isSolvable,
+      solutionCount,
+    };
+  }
+
+  /**
+   * Check that the total is always greater than a comparison target
+   */
+  private checkComparisonSolvability(
+    diceCount: number,
+    target: number,
+    faces: number
+  ): { isValid: boolean; isSolvable: boolean; solutionCount: number } {
+    // The total must always be greater, so the answer is never negative
+    const isSolvable = target > 0 && target < diceCount;
+
+    return {
+      isValid: true,
+      isSolvable,
+      solutionCount: isSolvable ? diceCount * (faces - 1) + 1 : 0, // One answer per total
+    };
+  }
+
+  /**
+   * Check that the die a DIE_VALUE challenge names is on the tray
+   */
+  private checkReferenceSolvability(
+    challenge: Challenge,
+    faces: number
+  ): {
+    isValid: boolean;
+    isSolvable: boolean;
+    solutionCount: number;
+  } {
+    const index =
+      challenge.targetColor !== undefined
+        ? getDiceColorIndex(challenge.targetColor)
+        : (challenge.targetPosition ?? 0) - 1;
+    const isValid = challenge.targetColor !== undefined || challenge.targetPosition !== undefined;
+    const isSolvable = isValid && index >= 0 && index < challenge.diceCount;
+
+    return {
+      isValid,
+      isSolvable,
+      solutionCount: isSolvable ? faces : 0, // Any face of the die
+    };
+  }
+
+  /**
+   * Check if a specific number is achievable
+   */
+  private checkSpecificNumberSolvability(
+    diceCount: number,
+    target: number,
+    faces: number
+  ): { isValid: boolean; isSolvable: boolean; solutionCount: number } {
+    const isSolvable = target >= 1 && target <= faces;
+    const solutionCount = isSolvable ? diceCount : 0; // Each die can show the target
+
+    return {
+      isValid: true,
+      isSolvable,
+      solutionCount,
+    };
+  }
+
+  /**
+   * Calculates the solution for a challenge given actual dice results.
+   *
+   * Applies the challenge's operation (sum, product, difference, etc.) to the
+   * dice values to compute the expected answer.
+   *
+   * @param diceResults - Array of dice face values
+   * @param challenge - Challenge defining the operation
+   * @param screenOrder - Dice indices from left to right on screen, for position
+   * challenges (since 2.4.0)
+   * @returns The calculated result, the sorted values for SORTED_ASCENDING, or -1 for
+   * invalid operations
+   * @public
+   */
+  calculateSolution(
+    diceResults: number[],
+    challenge: Challenge,
+    screenOrder?: number[]
+  ): number | number[] {
+    switch (challenge.operation) {
+      case OperationType.SUM:
+        return diceResults.reduce((sum, val) => sum + val, 0);
+
+      case OperationType.PRODUCT:
+        return diceResults.reduce((product, val) => product * val, 1);
+
+      case OperationType.DIFFERENCE:
+        const max = Math.max(...diceResults);
+        const min = Math.min(...diceResults);
+        return max - min;
+
+      case OperationType.SPECIFIC_NUMBER:
+        if (challenge.addTotal) {
+          return calculateExpectedAnswer(challenge, diceResults);
+        }
+        // Check if any dice shows the target value
+        return diceResults.includes(challenge.targetValue!) ? challenge.targetValue! : -1;
+
+      default:
+        // Parity, ordering, counting, comparison and referenced dice match the server's answers
+        return calculateExpectedAnswer(challenge, diceResults, screenOrder);
+    }
+  }
+
+  /**
+   * Generate a unique challenge ID
+   */
+  private generateChallengeId(): string {
+    this.challengeIdCounter++;
+    return `challenge_${Date.now()}_${this.challengeIdCounter}`;
+  }
+
+  /**
+   * Generates multiple challenges at once.
+   *
+   * @param count - Number of challenges to generate
+   * @param difficulty - Difficulty level for all challenges (random if not specified)
+   * @param diceType - Type of the dice rolled (default: D6, since 2.4.0)
+   * @returns Array of challenge objects
+   * @public
+   */
+  generateMultipleChallenges(
+    count: number,
+    difficulty?: Difficulty,
+    diceType: DiceType = DiceType.D6
+  ): Challenge[] {
+    const challenges: Challenge[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const diff = difficulty || this.getRandomDifficulty();
+      challenges.push(this.generateChallenge(diff, diceType));
+    }
+
+    return challenges;
+  }
+
+  /**
+   * Get a random difficulty level
+   */
+  private getRandomDifficulty(): Difficulty {
+    const difficulties = [Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD];
+    return difficulties[Math.floor(Math.random() * difficulties.length)];
+  }
+
+  /**
+   * Gets recommended settings for a difficulty level.
+   *
+   * Provides dice count and time limit recommendations.
+   *
+   * @param difficulty - Difficulty level
+   * @returns Recommended dice count and time limit in seconds
+   * @public
+   */
+  getDifficultySettings(difficulty: Difficulty): { diceCount: number; timeLimit: number } {
+    switch (difficulty) {
+      case Difficulty.EASY:
+        return { diceCount: 2, timeLimit: 60 };
+      case Difficulty.MEDIUM:
+        return { diceCount: 3, timeLimit: 45 };
+      case Difficulty.HARD:
+        return { diceCount: 4, timeLimit: 30 };
+    }
+  }
+}
@@ -0,0 +1,445 @@
+import { calculateExpectedAnswer } from './answer-checker';
+import { ChallengeGenerator } from './challenge-generator';
+import { DiceCaptchaServer, MAX_DICE_COUNT } from './dice-captcha-server';
+import { ChallengeRequest, IssuedChallenge } from './models/captcha-backend.model';
+import { Difficulty, OperationType } from './models/challenge.model';
+import { DiceType } from './models/dice-type.model';
+import { VerificationMode } from './models/verification-mode.model';
+import { VerificationFailureReason } from './models/verification-result.model';
+import { simulateRoll } from './roll-simulator';
+import { verifyVerificationToken } from './verification-token';
+
+describe('DiceCaptchaServer', () => {
+  const tokenKey = { alg: 'HS256' as const, secret: 'test-secret' };
+  const audience = 'https://example.com';
+  const sessionId = 'test-session';
+
+  let server: DiceCaptchaServer;
+
+  beforeEach(() => {
+    server = new DiceCaptchaServer({ tokenKey, audience, rateLimit: { maxAttempts: 2 } });
+  });
+
+  // Issues a challenge, failing the spec when it is refused
+  async function issue(request: ChallengeRequest): Promise<IssuedChallenge> {
+    const issued = await server.issueChallenge(request);
+    if ('reason' in issued) {
+      throw new Error(issued.message);
+    }
+    return issued;
+  }
+
+  // Replays the issued roll as the client would, to know the faces to answer with
+  function replay(issued: IssuedChallenge): number[] {
+    return simulateRoll({
+      seed: issued.seed!,
+      diceCount: issued.diceCount,
+      diceType: issued.diceType,
+      diceTypes: issued.dice?.map((entry) => entry.type),
+    }).faces;
+  }
+
+  const sumOf = (faces: number[]) => faces.reduce((total, face) => total + face, 0);
+
+  // Faces with the first die off by one
+  const misread = (faces: number[]) => [(faces[0] % 6) + 1, ...faces.slice(1)];
+
+  async function issueAndRoll(diceCount = 2) {
+    const issued = await issue({ sessionId, diceCount, diceType: DiceType.D6 });
+    const faces = replay(issued);
+    return { issued, faces, sum: sumOf(faces) };
+  }
+
+  it('should sign a token that verifies without the server', async () => {
+    const { issued, faces, sum } = await issueAndRoll();
+
+    const result = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum,
+    });
+    const verification = await verifyVerificationToken(result.token!, tokenKey, { audience });
+
+    expect(result.success).toBe(true);
+    expect(verification.valid).toBe(true);
+    expect(verification.claims?.cid).toBe(issued.challengeId);
+    expect(verification.claims?.dice).toBe(2);
+  });
+
+  it('should lock the session after too many wrong answers', async () => {
+    const { issued, faces, sum } = await issueAndRoll();
+    const diceValues = misread(faces);
+    const { challengeId } = issued;
+    const wrong = { challengeId, sessionId, diceValues, sum: sumOf(diceValues) };
+
+    await server.submitAnswer(wrong);
+    await server.submitAnswer(wrong);
+    const result = await server.submitAnswer({ ...wrong, diceValues: faces, sum });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Maximum attempts exceeded');
+  });
+
+  it('should check answers against the roll simulated from the seed', async () => {
+    const issued = await issue({
+      sessionId,
+      diceCount: 2,
+      diceType: DiceType.D20,
+    });
+    const faces = replay(issued);
+
+    const result = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum: sumOf(faces),
+    });
+
+    expect(faces.every((face) => face >= 1 && face <= 20)).toBe(true);
+    expect(result.success).toBe(true);
+  });
+
+  it('should issue a mixed dice set and replay each die with its type', async () => {
+    const issued = await issue({
+      sessionId,
+      diceCount: 3,
+      diceType: DiceType.D6,
+      dice: [{ type: DiceType.D6 }, { type: DiceType.D20, color: '#d32f2f' }],
+    });
+    const faces = replay(issued);
+
+    const result = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum: sumOf(faces),
+    });
+
+    expect(issued.diceCount).toBe(2);
+    expect(issued.dice?.map((entry) => entry.type)).toEqual([DiceType.D6, DiceType.D20]);
+    expect(result.success).toBe(true);
+  });
+
+  it('should issue a new roll seed with every challenge', async () => {
+    const request = { sessionId, diceCount: 2, diceType: DiceType.D6 };
+    const first = await issue(request);
+    const second = await issue(request);
+
+    expect(Number.isInteger(first.seed)).toBe(true);
+    expect(second.seed).not.toBe(first.seed);
+  });
+
+  it('should raise the dice count to the configured minimum', async () => {
+    const issued = await issue({ sessionId, diceCount: 0, diceType: DiceType.D6 });
+    const empty = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: [],
+      sum: 0,
+    });
+
+    server = new DiceCaptchaServer({ tokenKey, audience, minDiceCount: 4 });
+    const configured = await issue({ sessionId, diceCount: 3, diceType: DiceType.D6 });
+
+    expect(issued.diceCount).toBe(2);
+    expect(replay(issued).length).toBe(2);
+    expect(empty.success).toBe(false);
+    expect(empty.token).toBeUndefined();
+    expect(configured.diceCount).toBe(4);
+  });
+
+  it('should roll no more than the maximum number of dice', async () => {
+    server = new DiceCaptchaServer({ tokenKey, audience, minDiceCount: 50 });
+    const configured = await issue({ sessionId, diceCount: 2, diceType: DiceType.D6 });
+    const requested = await issue({ sessionId, diceCount: 200, diceType: DiceType.D20 });
+
+    expect(configured.diceCount).toBe(MAX_DICE_COUNT);
+    expect(requested.diceCount).toBe(MAX_DICE_COUNT);
+    expect(replay(requested).length).toBe(MAX_DICE_COUNT);
+  });
+
+  it('should refuse requests for unknown dice types', async () => {
+    const refusal = await server.issueChallenge({
+      sessionId,
+      diceCount: 2,
+      diceType: 'D7' as DiceType,
+    });
+
+    expect(refusal).toEqual({
+      message: 'Unknown dice type.',
+      reason: VerificationFailureReason.INVALID_REQUEST,
+    });
+    expect(server.getChallengeCount()).toBe(0);
+  });
+
+  it('should refuse malformed dice sets', async () => {
+    const request = { sessionId, diceCount: 2, diceType: DiceType.D6 };
+    const tooMany = Array.from({ length: MAX_DICE_COUNT + 1 }, () => ({ type: DiceType.D6 }));
+    const unknownType = [{ type: DiceType.D6 }, { type: 'D3' as DiceType }];
+
+    const refusals = await Promise.all([
+      server.issueChallenge({ ...request, dice: unknownType }),
+      server.issueChallenge({ ...request, dice: [{ type: DiceType.D6 }, null!] }),
+      server.issueChallenge({ ...request, dice: [{ type: DiceType.D6 }] }),
+      server.issueChallenge({ ...request, dice: tooMany }),
+      server.issueChallenge({ ...request, dice: 'D6' as never }),
+      server.issueChallenge({ ...request, diceCount: NaN }),
+    ]);
+
+    for (const refusal of refusals) {
+      expect(refusal).toEqual(
+        jasmine.objectContaining({ reason: VerificationFailureReason.INVALID_REQUEST })
+      );
+    }
+    expect(server.getChallengeCount()).toBe(0);
+  });
+
+  it('should limit the challenges issued to a session', async () => {
+    server = new DiceCaptchaServer({ tokenKey, audience, maxChallenges: 2 });
+    const request = { sessionId, diceCount: 2, diceType: DiceType.D6 };
+
+    await issue(request);
+    await issue(request);
+    const refusal = await server.issueChallenge(request);
+    const otherSession = await server.issueChallenge({ ...request, sessionId: 'other-session' });
+
+    expect(refusal).toEqual({
+      message: 'Too many challenges. Please try again later.',
+      reason: VerificationFailureReason.RATE_LIMITED,
+    });
+    expect('challengeId' in otherSession).toBe(true);
+  });
+
+  it('should issue no challenges to a locked out session', async () => {
+    const { issued, faces } = await issueAndRoll();
+    const diceValues = misread(faces);
+    const { challengeId } = issued;
+    const wrong = { challengeId, sessionId, diceValues, sum: sumOf(diceValues) };
+    await server.submitAnswer(wrong);
+    await server.submitAnswer(wrong);
+
+    const refusal = await server.issueChallenge({ sessionId, diceCount: 2, diceType: DiceType.D6 });
+
+    expect(refusal).toEqual(
+      jasmine.objectContaining({ reason: VerificationFailureReason.RATE_LIMITED })
+    );
+  });
+
+  it('should not reveal the faces on failure', async () => {
+    const { issued, faces } = await issueAndRoll();
+    const wrong = misread(faces);
+
+    const result = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: wrong,
+      sum: sumOf(wrong),
+    });
+
+    expect(result.diceValues).toBeUndefined();
+    expect(result.expectedSum).toBeUndefined();
+  });
+
+  it('should reject a second answer for a solved challenge', async () => {
+    const { issued, faces, sum } = await issueAndRoll();
+    const answer = { challengeId: issued.challengeId, sessionId, diceValues: faces, sum };
+
+    const [first, second] = await Promise.all([
+      server.submitAnswer(answer),
+      server.submitAnswer(answer),
+    ]);
+    const replay = await server.submitAnswer(answer);
+
+    expect([first.success, second.success].filter(Boolean).length).toBe(1);
+    expect(replay.success).toBe(false);
+    expect(replay.reason).toBe(VerificationFailureReason.CHALLENGE_ALREADY_USED);
+  });
+
+  it('should report expired challenges', async () => {
+    server = new DiceCaptchaServer({ tokenKey, audience, challengeTtl: -1 });
+    const { issued, faces, sum } = await issueAndRoll();
+
+    const result = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe(VerificationFailureReason.CHALLENGE_EXPIRED);
+  });
+
+  it('should accept a token only once', async () => {
+    const { issued, faces, sum } = await issueAndRoll();
+    const { token } = await server.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum,
+    });
+
+    const first = await server.verifyToken(token!);
+    const second = await server.verifyToken(token!);
+
+    expect(first.valid).toBe(true);
+    expect(second.valid).toBe(false);
+    expect(second.reason).toBe('already-used');
+  });
+
+  it('should check answers in the configured verification mode', async () => {
+    server = new DiceCaptchaServer({
+      tokenKey,
+      audience,
+      verificationMode: VerificationMode.CALCULATION_ONLY,
+    });
+    const issued = await issue({
+      sessionId,
+      diceCount: 2,
+      diceType: DiceType.D6,
+    });
+    const sum = sumOf(replay(issued));
+    const answer = { challengeId: issued.challengeId, sessionId, diceValues: [] };
+
+    const wrong = await server.submitAnswer({ ...answer, sum: sum + 1 });
+    const right = await server.submitAnswer({ ...answer, sum });
+
+    expect(issued.verificationMode).toBe(VerificationMode.CALCULATION_ONLY);
+    expect(wrong.partialMatch).toEqual({ sumCorrect: false });
+    expect(right.success).toBe(true);
+  });
+
+  it('should generate the question in CHALLENGE mode', async () => {
+    server = new DiceCaptchaServer({
+      tokenKey,
+      audience,
+      verificationMode: VerificationMode.CHALLENGE,
+      difficulty: Difficulty.EASY,
+    });
+    const issued = await issue({
+      sessionId,
+      diceCount: 5,
+      diceType: DiceType.D6,
+    });
+    const answer = { challengeId: issued.challengeId, sessionId, diceValues: [], sum: 0 };
+    const expected = calculateExpectedAnswer(issued.challenge!, replay(issued)) as number;
+
+    const wrong = await server.submitAnswer({ ...answer, answer: expected + 1 });
+    const right = await server.submitAnswer({ ...answer, answer: expected });
+
+    expect(issued.verificationMode).toBe(VerificationMode.CHALLENGE);
+    expect(issued.challenge?.difficulty).toBe(Difficulty.EASY);
+    expect(issued.diceCount).toBe(issued.challenge!.diceCount);
+    expect(wrong.success).toBe(false);
+    expect(wrong.partialMatch).toBeUndefined();
+    expect(right.success).toBe(true);
+  });
+
+  it('should answer position challenges from left to right in the replayed roll', async () => {
+    spyOn(ChallengeGenerator.prototype, 'generateChallenge').and.returnValue({
+      id: 'c',
+      difficulty: Difficulty.MEDIUM,
+      operation: OperationType.LEFTMOST_SUM,
+      diceCount: 3,
+      targetValue: 2,
+      description: 'What is the sum of the two leftmost dice?',
+    });
+    server = new DiceCaptchaServer({
+      tokenKey,
+      audience,
+      verificationMode: VerificationMode.CHALLENGE,
+    });
+    // Seed 18 settles as 5, 3, 1 with the third die left of the second
+    const random = spyOn(globalThis.crypto, 'getRandomValues').and.callFake(
+      <T extends ArrayBufferView | null>(array: T) => {
+        (array as unknown as Uint32Array).fill(18);
+        return array;
+      }
+    );
+    const issued = await issue({ sessionId, diceCount: 3, diceType: DiceType.D6 });
+    random.and.callThrough();
+    const answer = { challengeId: issued.challengeId, sessionId, diceValues: [], sum: 0 };
+
+    const inDiceOrder = await server.submitAnswer({ ...answer, answer: 8 });
+    const onScreen = await server.submitAnswer({ ...answer, answer: 6 });
+
+    expect(inDiceOrder.success).toBe(false);
+    expect(onScreen.success).toBe(true);
+  });
+
+  it('should generate questions within the face count of the requested dice', async () => {
+    const generate = spyOn(ChallengeGenerator.prototype, 'generateChallenge').and.callThrough();
+    server = new DiceCaptchaServer({
+      tokenKey,
+      audience,
+      verificationMode: VerificationMode.CHALLENGE,
+      difficulty: Difficulty.HARD,
+    });
+
+    await issue({ sessionId, diceCount: 3, diceType: DiceType.D20 });
+
+    expect(generate).toHaveBeenCalledWith(Difficulty.HARD, DiceType.D20);
+  });
+
+  it('should sign a token only after the last round passes', async () => {
+    server = new DiceCaptchaServer({ tokenKey, audience, rounds: 2 });
+    const { issued: first, faces, sum } = await issueAndRoll();
+    const passed = await server.submitAnswer({
+      challengeId: first.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum,
+    });
+
+    const second = await issue({
+      sessionId,
+      diceCount: 2,
+      diceType: DiceType.D6,
+      previousChallengeId: first.challengeId,
+    });
+    const secondFaces = replay(second);
+    const result = await server.submitAnswer({
+      challengeId: second.challengeId,
+      sessionId,
+      diceValues: secondFaces,
+      sum: sumOf(secondFaces),
+    });
+
+    expect(first).toEqual(jasmine.objectContaining({ round: 1, totalRounds: 2 }));
+    expect(passed).toEqual(jasmine.objectContaining({ success: true, round: 1, totalRounds: 2 }));
+    expect(passed.token).toBeUndefined();
+    expect(second).toEqual(jasmine.objectContaining({ round: 2, totalRounds: 2 }));
+    expect(result.token).toBeDefined();
+  });
+
+  it('should replace the next round when a passed round is continued again', async () => {
+    server = new DiceCaptchaServer({ tokenKey, audience, rounds: 3 });
+    const request = { sessionId, diceCount: 2, diceType: DiceType.D6, rounds: 1 };
+    const first = await issue(request);
+    const faces = replay(first);
+    await server.submitAnswer({
+      challengeId: first.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum: sumOf(faces),
+    });
+
+    const next = { ...request, previousChallengeId: first.challengeId };
+    const second = await issue(next);
+    const replacement = await issue(next);
+    const otherSession = await issue({ ...next, sessionId: 'other-session' });
+    const secondFaces = replay(second);
+    const replaced = await server.submitAnswer({
+      challengeId: second.challengeId,
+      sessionId,
+      diceValues: secondFaces,
+      sum: sumOf(secondFaces),
+    });
+
+    expect(first.totalRounds).toBe(3);
+    expect(replacement.round).toBe(2);
+    expect(replaced.reason).toBe(VerificationFailureReason.CHALLENGE_UNKNOWN);
+    expect(otherSession.round).toBe(1);
+  });
+});
@@ -0,0 +1,595 @@
+import {
+  AnswerSubmission,
+  ChallengeRefusal,
+  ChallengeRequest,
+  IssuedChallenge,
+} from './models/captcha-backend.model';
+import {
+  VerificationFailureReason,
+  VerificationResult,
+} from './models/verification-result.model';
+import { VerificationMode } from './models/verification-mode.model';
+import { Difficulty, OperationType } from './models/challenge.model';
+import { DICE_FACE_COUNT, DiceType } from './models/dice-type.model';
+import { ChallengeGenerator } from './challenge-generator';
+import { checkChallengeAnswer, checkDiceAnswer } from './answer-checker';
+import { InMemoryNonceStore, NonceStore } from './nonce-store';
+import {
+  DEFAULT_RATE_LIMITER_CONFIG,
+  RateLimitCheck,
+  RateLimiterConfig,
+  evaluateRateLimit,
+  recordTtl,
+  settleAttempt,
+} from './rate-limiter';
+import { RollSimulationResult, simulateRoll } from './roll-simulator';
+import { CaptchaSessionStore, InMemorySessionStore } from './session-store';
+import {
+  TokenVerificationResult,
+  VerificationTokenKey,
+  createVerificationTokenClaims,
+  signVerificationToken,
+  verifyVerificationToken,
+} from './verification-token';
+
+/**
+ * Most dice a challenge rolls, whatever the request or config asks for.
+ * Bounds the cost of simulating a roll.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const MAX_DICE_COUNT = 10;
+
+/**
+ * Simulation steps after which a roll counts as unsettled and is drawn again
+ * (10 seconds of simulated time). Settled rolls of {@link MAX_DICE_COUNT} dice
+ * take about half as many.
+ */
+const MAX_ROLL_STEPS = 600;
+
+/**
+ * Configuration for {@link DiceCaptchaServer}
+ */
+export interface DiceCaptchaServerConfig {
+  /** Key used to sign and verify tokens */
+  tokenKey: VerificationTokenKey;
+
+  /** Audience written into and expected from tokens */
+  audience: string;
+
+  /** Token lifetime in milliseconds (default: 5 minutes) */
+  tokenTtl?: number;
+
+  /** Challenge lifetime in milliseconds (default: 2 minutes) */
+  challengeTtl?: number;
+
+  /**
+   * Answer fields every challenge uses (default: BOTH). In CHALLENGE mode the
+   * server generates the question; clients cannot choose the mode or question.
+   */
+  verificationMode?: VerificationMode;
+
+  /**
+   * Difficulty of the questions posed in CHALLENGE mode (default: MEDIUM)
+   * @since 2.4.0
+   */
+  difficulty?: Difficulty;
+
+  /**
+   * Rounds every challenge has at least; a token is issued only after the last
+   * round passes. Clients may ask for more rounds (default: 1).
+   * @since 2.4.0
+   */
+  rounds?: number;
+
+  /**
+   * Fewest dice a challenge rolls; requests for fewer are raised to it
+   * (default: 2). Questions posed in CHALLENGE mode set their own count.
+   * @since 2.4.0
+   */
+  minDiceCount?: number;
+
+  /** Rate limiting settings */
+  rateLimit?: RateLimiterConfig;
+
+  /**
+   * Challenges a session may be issued within the rate limit's attempt window
+   * before it is locked out for the lockout duration (default: 20)
+   * @since 2.4.0
+   */
+  maxChallenges?: number;
+
+  /** Where rate limit records live (default: in memory) */
+  sessionStore?: CaptchaSessionStore;
+
+  /** Where solved challenge ids and verified token nonces live (default: in memory) */
+  nonceStore?: NonceStore;
+}
+
+/**
+ * Server-side state kept for every issued challenge
+ */
+interface StoredChallenge {
+  challenge: IssuedChallenge;
+  sessionId: string;
+  faces: number[];
+  screenOrder: number[];
+  solved?: boolean;
+  next?: string;
+}
+
+/**
+ * Framework-free CAPTCHA authority for Node servers.
+ *
+ * Implements the same protocol as `CaptchaBackend` on the Angular side:
+ * issue a challenge, check the answer and sign a token. Expose these methods
+ * through your API routes and call them from an HTTP `CaptchaBackend` in the
+ * browser.
+ *
+ * Every challenge carries a roll seed. The server replays the roll with
+ * `simulateRoll` when issuing it and checks answers against those faces, so
+ * the client never reports what it rolled.
+ *
+ * Challenges and tokens are single-use. A challenge id is consumed by its
+ * first correct answer and a token by its first successful `verifyToken`;
+ * replays fail with `CHALLENGE_ALREADY_USED` or `already-used`.
+ *
+ * With several `rounds`, a correct answer before the last round succeeds
+ * without a token. The client then requests the next round with the passed
+ * challenge's id as `previousChallengeId`. Continuing a passed round again,
+ * e.g. after the next round expired, replaces its next round, so rounds cannot
+ * be answered in parallel.
+ *
+ * Challenges are kept in memory, so run a single instance or pin sessions.
+ * Rate limit records and consumed nonces can be shared between instances
+ * through `sessionStore` and `nonceStore`.
+ *
+ * @example
+ * ```typescript
+ * import { DiceCaptchaServer } from 'ngx-dice-captcha/server';
+ *
+ * const captcha = new DiceCaptchaServer({
+ *   tokenKey: { alg: 'HS256', secret: process.env.CAPTCHA_SECRET! },
+ *   audience: 'https://example.com',
+ * });
+ *
+ * app.post('/api/captcha/challenge', async (req, res) => {
+ *   res.json(await captcha.issueChallenge(req.body));
+ * });
+ * app.post('/api/captcha/verify', async (req, res) => {
+ *   res.json(await captcha.submitAnswer(req.body));
+ * });
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export class DiceCaptchaServer {
+  private readonly challenges = new Map<string, StoredChallenge>();
+  private readonly generator = new ChallengeGenerator();
+  private readonly rateLimit: Required<RateLimiterConfig>;
+  private readonly issueLimit: Required<RateLimiterConfig>;
+  private readonly sessionStore: CaptchaSessionStore;
+  private readonly nonceStore: NonceStore;
+  private readonly minDiceCount: number;
+  private readonly tokenTtl: number;
+  private readonly challengeTtl: number;
+
+  constructor(private readonly config: DiceCaptchaServerConfig) {
+    this.rateLimit = { ...DEFAULT_RATE_LIMITER_CONFIG, ...config.rateLimit };
+    this.issueLimit = { ...this.rateLimit, maxAttempts: config.maxChallenges ?? 20 };
+    this.sessionStore = config.sessionStore ?? new InMemorySessionStore();
+    this.nonceStore = config.nonceStore ?? new InMemoryNonceStore();
+    this.minDiceCount = Math.min(config.minDiceCount ?? 2, MAX_DICE_COUNT);
+    this.tokenTtl = config.tokenTtl ?? 5 * 60 * 1000; // 5 minutes
+    this.challengeTtl = config.challengeTtl ?? 2 * 60 * 1000; // 2 minutes
+  }
+
+  /**
+   * Issues a challenge using the requested dice setup.
+   *
+   * The answer fields come from the config. In CHALLENGE mode the question is
+   * generated here for the requested dice type and sets the dice count. The
+   * roll is simulated from a fresh seed, whose faces become the expected answer.
+   *
+   * A request continuing a passed round of the same session gets the next
+   * round; any other request starts at round 1.
+   *
+   * The dice count is kept between `minDiceCount` and {@link MAX_DICE_COUNT}.
+   * Requests naming an unknown dice type or a malformed dice set are refused
+   * with `INVALID_REQUEST`. Sessions that are locked out or were issued
+   * `maxChallenges` challenges within the attempt window are refused with
+   * `RATE_LIMITED`.
+   *
+   * @param request - Session and preferred dice setup
+   * @returns The issued challenge, or why none was issued
+   */
+  async issueChallenge(request: ChallengeRequest): Promise<IssuedChallenge | ChallengeRefusal> {
+    this.removeExpiredChallenges();
+
+    const invalid = this.validateRequest(request);
+    if (invalid) {
+      return { message: invalid, reason: VerificationFailureReason.INVALID_REQUEST };
+    }
+
+    const rateLimitCheck = await this.checkIssueLimit(request.sessionId);
+    if (!rateLimitCheck.allowed) {
+      return { message: rateLimitCheck.message, reason: VerificationFailureReason.RATE_LIMITED };
+    }
+
+    const issuedAt = Date.now();
+    const verificationMode = this.config.verificationMode ?? VerificationMode.BOTH;
+    const question =
+      verificationMode === VerificationMode.CHALLENGE
+        ? this.generator.generateChallenge(
+            this.config.difficulty ?? Difficulty.MEDIUM,
+            request.diceType
+          )
+        : undefined;
+    // A posed question sets its own dice count
+    const dice = !question && request.dice?.length ? request.dice : undefined;
+    const diceCount =
+      question?.diceCount ??
+      dice?.length ??
+      Math.min(Math.max(request.diceCount, this.minDiceCount), MAX_DICE_COUNT);
+    const { seed, faces, screenOrder } = this.rollDice(
+      diceCount,
+      request.diceType,
+      dice?.map((entry) => entry.type)
+    );
+    const { round, totalRounds, previous } = this.getNextRound(request);
+
+    const challenge: IssuedChallenge = {
+      challengeId: globalThis.crypto.randomUUID(),
+      diceCount,
+      diceType: request.diceType,
+      ...(dice ? { dice: dice.map((entry) => ({ ...entry })) } : {}),
+      verificationMode,
+      ...(question ? { challenge: question } : {}),
+      ...(totalRounds > 1 ? { round, totalRounds } : {}),
+      seed,
+      issuedAt,
+      expiresAt: issuedAt + this.challengeTtl,
+    };
+
+    this.challenges.set(challenge.challengeId, {
+      challenge,
+      sessionId: request.sessionId,
+      faces,
+      screenOrder,
+    });
+    if (previous) {
+      previous.next = challenge.challengeId;
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Checks an answer against the simulated faces and signs a token on success.
+   *
+   * The first correct answer consumes the challenge; answering it again
+   * fails with `CHALLENGE_ALREADY_USED`. Failures carry a `reason`. Before the
+   * last round of a multi-round challenge, success carries no token.
+   *
+   * @param submission - The user's answer for an issued challenge
+   * @returns Verification result; `token` is set only on success
+   */
+  async submitAnswer(submission: AnswerSubmission): Promise<VerificationResult> {
+    const stored = this.challenges.get(submission.challengeId);
+
+    if (!stored || stored.sessionId !== submission.sessionId) {
+      return this.reject(
+        'Unknown challenge. Please start a new one.',
+        VerificationFailureReason.CHALLENGE_UNKNOWN
+      );
+    }
+
+    if (stored.solved) {
+      return this.reject(
+        'Challenge already used. Please start a new one.',
+        VerificationFailureReason.CHALLENGE_ALREADY_USED
+      );
+    }
+
+    if (Date.now() > stored.challenge.expiresAt) {
+      return this.reject(
+        'Challenge expired. Please start a new one.',
+        VerificationFailureReason.CHALLENGE_EXPIRED
+      );
+    }
+
+    const rateLimitCheck = await this.checkRateLimit(submission.sessionId);
+    if (!rateLimitCheck.allowed) {
+      return {
+        ...this.reject(rateLimitCheck.message, VerificationFailureReason.RATE_LIMITED),
+        attemptsRemaining: rateLimitCheck.attemptsRemaining,
+      };
+    }
+
+    const question = stored.challenge.challenge;
+    const check = question
+      ? checkChallengeAnswer(
+          question.operation === OperationType.SORTED_ASCENDING
+            ? submission.diceValues
+            : (submission.answer ?? NaN),
+          question,
+          stored.faces,
+          0,
+          stored.screenOrder
+        )
+      : checkDiceAnswer(
+          submission.diceValues,
+          submission.sum,
+          stored.faces,
+          stored.challenge.verificationMode
+        );
+    if ('validLength' in check && !check.validLength) {
+      return {
+        ...this.reject(check.message, VerificationFailureReason.INCORRECT_ANSWER),
+        attemptsRemaining: rateLimitCheck.attemptsRemaining,
+      };
+    }
+
+    const attempts = await this.recordAttempt(submission.sessionId, check.success);
+    const { round, totalRounds } = stored.challenge;
+    const rounds = totalRounds ? { round, totalRounds } : {};
+
+    if (!check.success) {
+      return {
+        success: false,
+        message: check.message,
+        attemptsRemaining: Math.max(0, this.rateLimit.maxAttempts - attempts),
+        timestamp: Date.now(),
+        ...('partialMatch' in check
+          ? {
+              userDiceInputs: submission.diceValues,
+              userSumInput: submission.sum,
+              partialMatch: check.partialMatch,
+            }
+          : {}),
+        reason: VerificationFailureReason.INCORRECT_ANSWER,
+        ...rounds,
+      };
+    }
+
+    // Concurrent correct answers race here; only the first consumes the id
+    const ttl = stored.challenge.expiresAt - Date.now();
+    if (!(await this.nonceStore.consume(`challenge:${submission.challengeId}`, ttl))) {
+      return this.reject(
+        'Challenge already used. Please start a new one.',
+        VerificationFailureReason.CHALLENGE_ALREADY_USED
+      );
+    }
+    stored.solved = true;
+
+    if (round && totalRounds && round < totalRounds) {
+      return {
+        success: true,
+        message: `Round ${round} of ${totalRounds} passed.`,
+        timestamp: Date.now(),
+        ...rounds,
+      };
+    }
+
+    const claims = createVerificationTokenClaims({
+      challengeId: submission.challengeId,
+      diceCount: stored.challenge.diceCount,
+      audience: this.config.audience,
+      ttl: this.tokenTtl,
+    });
+
+    return {
+      success: true,
+      message: check.message,
+      token: await signVerificationToken(claims, this.config.tokenKey),
+      timestamp: Date.now(),
+      ...rounds,
+    };
+  }
+
+  /**
+   * Verifies a token issued by this server and consumes its nonce.
+   *
+   * A token verifies once; later calls fail with `already-used`.
+   *
+   * @param token - Token sent by the client with the protected request
+   * @returns Verification result with claims when valid
+   */
+  verifyToken(token: string): Promise<TokenVerificationResult> {
+    return verifyVerificationToken(token, this.config.tokenKey, {
+      audience: this.config.audience,
+      nonceStore: this.nonceStore,
+    });
+  }
+
+  /**
+   * Gets the number of challenges that can still be answered.
+   *
+   * @returns Number of unexpired, unsolved challenges
+   */
+  getChallengeCount(): number {
+    const now = Date.now();
+    return Array.from(this.challenges.values()).filter(
+      (stored) => !stored.solved && now <= stored.challenge.expiresAt
+    ).length;
+  }
+
+  /**
+   * Checks that a request names a session and known dice types, and that a
+   * dice set has between `minDiceCount` and {@link MAX_DICE_COUNT} dice
+   *
+   * @returns Why the request is invalid, or null when it is valid
+   */
+  private validateRequest(request: ChallengeRequest): string | null {
+    if (typeof request.sessionId !== 'string') {
+      return 'A session id is required.';
+    }
+    if (!isDiceType(request.diceType)) {
+      return 'Unknown dice type.';
+    }
+    if (!Number.isInteger(request.diceCount)) {
+      return 'The dice count must be a whole number.';
+    }
+    if (request.dice === undefined) {
+      return null;
+    }
+
+    const dice: unknown = request.dice;
+    const { minDiceCount } = this;
+    if (
+      !Array.isArray(dice) ||
+      (dice.length > 0 && (dice.length < minDiceCount || dice.length > MAX_DICE_COUNT))
+    ) {
+      return `The dice set must be a list of ${minDiceCount} to ${MAX_DICE_COUNT} dice.`;
+    }
+    if (!dice.every((entry) => isDiceType(entry?.type))) {
+      return 'Every die in the dice set needs a known dice type.';
+    }
+    return null;
+  }
+
+  /**
+   * Simulates a roll from a fresh seed, drawing another seed in the rare case
+   * the dice never settle, and orders the dice from left to right on screen
+   */
+  private rollDice(
+    diceCount: number,
+    diceType: DiceType,
+    diceTypes?: DiceType[]
+  ): { seed: number; faces: number[]; screenOrder: number[] } {
+    let seed: number;
+    let roll: RollSimulationResult;
+    let attempts = 0;
+    do {
+      seed = globalThis.crypto.getRandomValues(new Uint32Array(1))[0];
+      roll = simulateRoll({ seed, diceCount, diceType, diceTypes }, { maxSteps: MAX_ROLL_STEPS });
+    } while (!roll.settled && ++attempts < 3);
+
+    const x = roll.transforms.map((transform) => transform.position.x);
+    const screenOrder = x.map((_, index) => index).sort((a, b) => x[a] - x[b] || a - b);
+
+    return { seed, faces: roll.faces, screenOrder };
+  }
+
+  /**
+   * Gets the round to issue: the one after a passed round of the same session
+   * whose next round is unsolved, replacing that next round, or round 1 of the
+   * configured or requested rounds, whichever is more
+   */
+  private getNextRound(request: ChallengeRequest): {
+    round: number;
+    totalRounds: number;
+    previous?: StoredChallenge;
+  } {
+    const previous = request.previousChallengeId
+      ? this.challenges.get(request.previousChallengeId)
+      : undefined;
+    const { round = 1, totalRounds = 1 } = previous?.challenge ?? {};
+    const next = previous?.next ? this.challenges.get(previous.next) : undefined;
+
+    if (
+      previous?.solved &&
+      !next?.solved &&
+      previous.sessionId === request.sessionId &&
+      round < totalRounds
+    ) {
+      this.challenges.delete(previous.next!);
+      return { round: round + 1, totalRounds, previous };
+    }
+
+    const requested = Number.isInteger(request.rounds) ? request.rounds! : 1;
+    return { round: 1, totalRounds: Math.max(this.config.rounds ?? 1, requested) };
+  }
+
+  /**
+   * Checks the rate limit of a session record, storing any change to it
+   */
+  private async checkRateLimit(
+    key: string,
+    config: Required<RateLimiterConfig> = this.rateLimit
+  ): Promise<RateLimitCheck> {
+    const now = Date.now();
+    const record = await this.sessionStore.get(key);
+    const { check, updated } = evaluateRateLimit(record, config, now);
+
+    if (updated) {
+      await this.sessionStore.set(key, updated);
+      await this.sessionStore.expire(key, recordTtl(updated, config, now));
+    }
+    return check;
+  }
+
+  /**
+   * Checks that a session may be issued another challenge and counts it.
+   * Sessions locked out by failed answers get no new challenges either.
+   */
+  private async checkIssueLimit(sessionId: string): Promise<RateLimitCheck> {
+    const attemptCheck = await this.checkRateLimit(sessionId);
+    if (!attemptCheck.allowed) {
+      return attemptCheck;
+    }
+
+    const key = `challenges:${sessionId}`;
+    const check = await this.checkRateLimit(key, this.issueLimit);
+    if (!check.allowed) {
+      return { allowed: false, message: 'Too many challenges. Please try again later.' };
+    }
+
+    const now = Date.now();
+    const record = await this.sessionStore.increment(key, now);
+    await this.sessionStore.expire(key, recordTtl(record, this.issueLimit, now));
+    return attemptCheck;
+  }
+
+  /**
+   * Records an attempt and returns the session's attempt count afterwards
+   */
+  private async recordAttempt(sessionId: string, success: boolean): Promise<number> {
+    const now = Date.now();
+    const incremented = await this.sessionStore.increment(sessionId, now);
+    const settled = settleAttempt(incremented, success);
+
+    if (settled) {
+      await this.sessionStore.set(sessionId, settled);
+    }
+    const record = settled ?? incremented;
+    await this.sessionStore.expire(sessionId, recordTtl(record, this.rateLimit, now));
+    return record.attempts;
+  }
+
+  /**
+   * Builds a failed result that does not count as an attempt
+   */
+  private reject(message: string, reason: VerificationFailureReason): VerificationResult {
+    return {
+      success: false,
+      message,
+      timestamp: Date.now(),
+      reason,
+    };
+  }
+
+  /**
+   * Drops challenges one lifetime after they expired.
+   *
+   * Keeping them that long lets late or replayed answers get a precise reason
+   * instead of `CHALLENGE_UNKNOWN`.
+   */
+  private removeExpiredChallenges(): void {
+    const now = Date.now();
+    for (const [challengeId, stored] of Array.from(this.challenges.entries())) {
+      if (now > stored.challenge.expiresAt + Math.max(0, this.challengeTtl)) {
+        this.challenges.delete(challengeId);
+      }
+    }
+  }
+}
+
+/**
+ * Checks that a value names a known dice type
+ */
+function isDiceType(value: unknown): value is DiceType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DICE_FACE_COUNT, value);
+}
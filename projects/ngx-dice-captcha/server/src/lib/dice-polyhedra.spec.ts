@@ -0,0 +1,120 @@
+import * as CANNON from 'cannon-es';
+import { getDicePolyhedron } from './dice-polyhedra';
+import { DICE_FACE_COUNT, DiceType } from './models/dice-type.model';
+import {
+  ROLL_TIMESTEP,
+  Vector3Like,
+  createDiceShape,
+  createDiceWorld,
+  createGroundBody,
+  createRollDiceBody,
+  getUpwardFaceValue,
+} from './roll-physics';
+
+const POLYHEDRAL_TYPES = [DiceType.D4, DiceType.D8, DiceType.D10, DiceType.D12, DiceType.D20];
+
+function dot(a: Vector3Like, b: Vector3Like): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Rotation that turns a local face normal to point straight up, or straight down
+ * for dice that read their bottom face
+ */
+function faceUp(normal: Vector3Like, readsBottomFace = false): CANNON.Quaternion {
+  return new CANNON.Quaternion().setFromVectors(
+    new CANNON.Vec3(normal.x, normal.y, normal.z),
+    new CANNON.Vec3(0, readsBottomFace ? -1 : 1, 0)
+  );
+}
+
+describe('dice-polyhedra', () => {
+  it('should have one face per value', () => {
+    Object.values(DiceType).forEach((type) => {
+      expect(getDicePolyhedron(type).faces.length).toBe(DICE_FACE_COUNT[type]);
+    });
+  });
+
+  it('should give every face an outward normal', () => {
+    Object.values(DiceType).forEach((type) => {
+      const { vertices, faces, normals } = getDicePolyhedron(type);
+      faces.forEach((face, i) => {
+        const distances = face.map((index) => dot(vertices[index], normals[i]));
+        expect(distances[0]).toBeGreaterThan(0);
+        distances.forEach((distance) => expect(distance).toBeCloseTo(distances[0], 6));
+      });
+    });
+  });
+
+  it('should number opposite faces to add up to the face count plus one', () => {
+    [DiceType.D8, DiceType.D10, DiceType.D12, DiceType.D20].forEach((type) => {
+      const { normals } = getDicePolyhedron(type);
+      normals.forEach((normal, i) => {
+        const opposite = normals[normals.length - 1 - i];
+        expect(normal.x + opposite.x).toBeCloseTo(0, 6);
+        expect(normal.y + opposite.y).toBeCloseTo(0, 6);
+        expect(normal.z + opposite.z).toBeCloseTo(0, 6);
+      });
+    });
+  });
+
+  it('should keep the D6 faces in material order', () => {
+    const { normals } = getDicePolyhedron(DiceType.D6);
+    expect(normals[0].y).toBeCloseTo(-1, 6);
+    expect(normals[5].y).toBeCloseTo(1, 6);
+  });
+
+  it('should number each D4 vertex with the face opposite it', () => {
+    const { faces, vertexValues, readsBottomFace } = getDicePolyhedron(DiceType.D4);
+
+    expect(readsBottomFace).toBe(true);
+    expect([...vertexValues!].sort()).toEqual([1, 2, 3, 4]);
+    vertexValues!.forEach((value, vertex) => {
+      expect(faces[value - 1]).not.toContain(vertex);
+    });
+  });
+
+  it('should scale vertices with the dice size', () => {
+    const small = getDicePolyhedron(DiceType.D20, 1);
+    const large = getDicePolyhedron(DiceType.D20, 2);
+    expect(large.vertices[0].x).toBeCloseTo(small.vertices[0].x * 2, 6);
+  });
+
+  it('should read the face that is turned up, or down for D4', () => {
+    POLYHEDRAL_TYPES.forEach((type) => {
+      const { normals, readsBottomFace } = getDicePolyhedron(type);
+      normals.forEach((normal, i) => {
+        expect(getUpwardFaceValue(faceUp(normal, readsBottomFace), type)).toBe(i + 1);
+      });
+    });
+  });
+
+  it('should build convex hulls for polyhedral dice', () => {
+    POLYHEDRAL_TYPES.forEach((type) => {
+      const shape = createDiceShape(type, 1) as CANNON.ConvexPolyhedron;
+      expect(shape instanceof CANNON.ConvexPolyhedron).toBe(true);
+      expect(shape.faces.length).toBe(DICE_FACE_COUNT[type]);
+    });
+  });
+
+  it('should settle polyhedral dice flat on a face', () => {
+    POLYHEDRAL_TYPES.forEach((type) => {
+      const world = createDiceWorld();
+      world.addBody(createGroundBody());
+      const body = createRollDiceBody(type, 1);
+      body.position.set(0, 2, 0);
+      body.quaternion.setFromEuler(0.3, 0.7, 0.2);
+      world.addBody(body);
+
+      for (let i = 0; i < 600; i++) {
+        world.step(ROLL_TIMESTEP);
+      }
+
+      const value = getUpwardFaceValue(body.quaternion, type);
+      const { normals, readsBottomFace } = getDicePolyhedron(type);
+      const normal = normals[value - 1];
+      const up = body.quaternion.vmult(new CANNON.Vec3(normal.x, normal.y, normal.z));
+      expect(readsBottomFace ? -up.y : up.y).toBeGreaterThan(0.99);
+    });
+  });
+});
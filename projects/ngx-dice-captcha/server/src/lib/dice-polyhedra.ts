@@ -0,0 +1,310 @@
+/**
+ * Polyhedral dice shapes for dice CAPTCHA
+ * Defines the vertices, faces and face numbering of every dice type once, so the
+ * rendered mesh, the physics hull and face reading all agree.
+ *
+ * Framework-free: the Angular library builds its Three.js geometry from these
+ * shapes and servers build the same cannon-es hulls without a renderer.
+ */
+
+import { DiceType } from './models/dice-type.model';
+import type { Vector3Like } from './roll-physics';
+
+/**
+ * Vertices and faces of a dice, centered on the origin
+ */
+export interface DicePolyhedron {
+  /** Vertex positions */
+  vertices: Vector3Like[];
+
+  /**
+   * Faces in value order: `faces[i]` lists the vertex indices of the face showing
+   * `i + 1`, counter-clockwise when seen from outside
+   */
+  faces: number[][];
+
+  /** Outward unit normal of each face, in value order */
+  normals: Vector3Like[];
+
+  /**
+   * Whether the value is read from the face resting on the ground instead of the
+   * face on top. Set for D4 dice, whose top vertex shows the value of the face
+   * opposite it.
+   */
+  readsBottomFace: boolean;
+
+  /**
+   * Value shown at each vertex, for dice numbered at their corners (D4). Each
+   * vertex shows the value of the face opposite it.
+   */
+  vertexValues?: number[];
+}
+
+/**
+ * Distance from the center to each vertex of dice other than D6, as a fraction
+ * of the dice size, so they look about as big as a D6 of the same size
+ */
+export const POLYHEDRON_RADIUS_FACTOR = 0.75;
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2;
+
+/**
+ * Height of the D10 ring vertices above and below the equator, for apexes at
+ * height 1 and a unit ring. This keeps each kite-shaped face flat.
+ */
+const D10_RING_HEIGHT = (1 - Math.cos(Math.PI / 5)) / (1 + Math.cos(Math.PI / 5));
+
+/**
+ * Vertices of each dice type before scaling; faces are derived from their hull
+ */
+const BASE_VERTICES: Record<DiceType, number[][]> = {
+  [DiceType.D4]: [
+    [1, 1, 1],
+    [1, -1, -1],
+    [-1, 1, -1],
+    [-1, -1, 1],
+  ],
+  [DiceType.D6]: [
+    [-1, -1, -1],
+    [1, -1, -1],
+    [1, 1, -1],
+    [-1, 1, -1],
+    [-1, -1, 1],
+    [1, -1, 1],
+    [1, 1, 1],
+    [-1, 1, 1],
+  ],
+  [DiceType.D8]: [
+    [1, 0, 0],
+    [-1, 0, 0],
+    [0, 1, 0],
+    [0, -1, 0],
+    [0, 0, 1],
+    [0, 0, -1],
+  ],
+  [DiceType.D10]: [
+    [0, 1, 0],
+    [0, -1, 0],
+    ...Array.from({ length: 10 }, (_, k) => [
+      Math.cos((k * Math.PI) / 5),
+      k % 2 === 0 ? D10_RING_HEIGHT : -D10_RING_HEIGHT,
+      Math.sin((k * Math.PI) / 5),
+    ]),
+  ],
+  [DiceType.D12]: [
+    ...[-1, 1].flatMap((x) => [-1, 1].flatMap((y) => [-1, 1].map((z) => [x, y, z]))),
+    ...[-1, 1].flatMap((a) =>
+      [-1, 1].flatMap((b) => [
+        [0, a / GOLDEN_RATIO, b * GOLDEN_RATIO],
+        [a / GOLDEN_RATIO, b * GOLDEN_RATIO, 0],
+        [a * GOLDEN_RATIO, 0, b / GOLDEN_RATIO],
+      ])
+    ),
+  ],
+  [DiceType.D20]: [-1, 1].flatMap((a) =>
+    [-1, 1].flatMap((b) => [
+      [a, b * GOLDEN_RATIO, 0],
+      [0, a, b * GOLDEN_RATIO],
+      [b * GOLDEN_RATIO, 0, a],
+    ])
+  ),
+};
+
+/**
+ * Outward normals of the D6 faces, in value order. They follow the material
+ * order in `DiceFactoryService`: right 4, left 3, top 6, bottom 1, front 5, back 2.
+ */
+const D6_FACE_NORMALS: Vector3Like[] = [
+  { x: 0, y: -1, z: 0 }, // Face 1: bottom (-Y)
+  { x: 0, y: 0, z: -1 }, // Face 2: back (-Z)
+  { x: -1, y: 0, z: 0 }, // Face 3: left (-X)
+  { x: 1, y: 0, z: 0 }, // Face 4: right (+X)
+  { x: 0, y: 0, z: 1 }, // Face 5: front (+Z)
+  { x: 0, y: 1, z: 0 }, // Face 6: top (+Y)
+];
+
+const unitPolyhedra = new Map<DiceType, DicePolyhedron>();
+
+/**
+ * Gets the shape of a dice.
+ *
+ * D6 dice are cubes with edge length `size`. D4, D8, D12 and D20 dice are the
+ * regular tetrahedron, octahedron, dodecahedron and icosahedron, and D10 dice a
+ * pentagonal trapezohedron, with their apexes `size * POLYHEDRON_RADIUS_FACTOR`
+ * from the center. Opposite faces add up to the face count plus one, as on real
+ * dice; D4 dice have no opposite faces and are numbered at their corners.
+ *
+ * @param type - Type of dice
+ * @param size - Size of the dice (default: 1)
+ * @returns Vertices and faces in value order
+ * @throws Error for unsupported dice types
+ *
+ * @example
+ * ```typescript
+ * const { vertices, faces } = getDicePolyhedron(DiceType.D20, 1.5);
+ * faces.length; // 20
+ * ```
+ */
+export function getDicePolyhedron(type: DiceType, size = 1): DicePolyhedron {
+  let unit = unitPolyhedra.get(type);
+  if (!unit) {
+    unit = buildUnitPolyhedron(type);
+    unitPolyhedra.set(type, unit);
+  }
+
+  const scale = type === DiceType.D6 ? size / 2 : size * POLYHEDRON_RADIUS_FACTOR;
+  return {
+    vertices: unit.vertices.map((v) => ({ x: v.x * scale, y: v.y * scale, z: v.z * scale })),
+    faces: unit.faces.map((face) => [...face]),
+    normals: unit.normals.map((normal) => ({ ...normal })),
+    readsBottomFace: unit.readsBottomFace,
+    ...(unit.vertexValues ? { vertexValues: [...unit.vertexValues] } : {}),
+  };
+}
+
+/**
+ * Builds a polyhedron with unit-scale vertices (unit circumradius, or a
+ * cube of edge 2 for D6) and its faces sorted by value
+ */
+function buildUnitPolyhedron(type: DiceType): DicePolyhedron {
+  const base = BASE_VERTICES[type];
+  if (!base) {
+    throw new Error(`Unsupported dice type: ${type}`);
+  }
+
+  const radius = type === DiceType.D6 ? 1 : Math.hypot(...base[0]);
+  const vertices = base.map(([x, y, z]) => ({ x: x / radius, y: y / radius, z: z / radius }));
+  const hull = findHullFaces(vertices);
+
+  const normals = (faces: number[][]) => faces.map((face) => faceNormal(vertices, face));
+
+  if (type === DiceType.D4) {
+    // Every vertex shows the value of the face it does not touch
+    const vertexValues = vertices.map((_, v) => hull.findIndex((face) => !face.includes(v)) + 1);
+    return { vertices, faces: hull, normals: normals(hull), readsBottomFace: true, vertexValues };
+  }
+
+  const faces =
+    type === DiceType.D6
+      ? D6_FACE_NORMALS.map((normal) =>
+          hull.find((face) => dot(faceNormal(vertices, face), normal) > 0.999)!
+        )
+      : numberFaces(vertices, hull);
+
+  return { vertices, faces, normals: normals(faces), readsBottomFace: false };
+}
+
+/**
+ * Finds the faces of the convex hull of points that all lie on it.
+ * Each face lists its vertices counter-clockwise when seen from outside.
+ */
+function findHullFaces(vertices: Vector3Like[]): number[][] {
+  const epsilon = 1e-6;
+  const faces: number[][] = [];
+  const seen = new Set<string>();
+
+  for (let a = 0; a < vertices.length; a++) {
+    for (let b = a + 1; b < vertices.length; b++) {
+      for (let c = b + 1; c < vertices.length; c++) {
+        const normal = cross(sub(vertices[b], vertices[a]), sub(vertices[c], vertices[a]));
+        if (Math.hypot(normal.x, normal.y, normal.z) < epsilon) {
+          continue;
+        }
+
+        const offsets = vertices.map((v) => dot(sub(v, vertices[a]), normal));
+        const outside = offsets.some((d) => d > epsilon);
+        const inside = offsets.some((d) => d < -epsilon);
+        if (outside && inside) {
+          continue;
+        }
+
+        const members = offsets
+          .map((d, index) => (Math.abs(d) <= epsilon ? index : -1))
+          .filter((index) => index >= 0);
+        const key = members.join(',');
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+
+        faces.push(sortCounterClockwise(vertices, members));
+      }
+    }
+  }
+
+  return faces;
+}
+
+/**
+ * Orders a face's vertices counter-clockwise around its outward normal.
+ * The polyhedron is centered on the origin, so the face center points outward.
+ */
+function sortCounterClockwise(vertices: Vector3Like[], members: number[]): number[] {
+  const center = centroid(members.map((index) => vertices[index]));
+  const u = sub(vertices[members[0]], center);
+  const w = cross(center, u);
+
+  return [...members].sort((i, j) => angleAround(vertices[i]) - angleAround(vertices[j]));
+
+  function angleAround(v: Vector3Like): number {
+    const offset = sub(v, center);
+    return Math.atan2(dot(offset, w), dot(offset, u));
+  }
+}
+
+/**
+ * Sorts faces by value so that opposite faces add up to the face count plus one.
+ * Faces are numbered from the top down, in hull order within equal heights.
+ */
+function numberFaces(vertices: Vector3Like[], hull: number[][]): number[][] {
+  const normals = hull.map((face) => faceNormal(vertices, face));
+  const order = hull
+    .map((_, index) => index)
+    .sort((i, j) => normals[j].y - normals[i].y || i - j);
+
+  const faces: number[][] = new Array(hull.length);
+  const numbered = new Set<number>();
+  let value = 0;
+
+  for (const index of order) {
+    if (numbered.has(index)) {
+      continue;
+    }
+
+    const opposite = normals.findIndex((normal) => dot(normal, normals[index]) < -0.999);
+    faces[value] = hull[index];
+    faces[hull.length - 1 - value] = hull[opposite];
+    numbered.add(index).add(opposite);
+    value++;
+  }
+
+  return faces;
+}
+
+function faceNormal(vertices: Vector3Like[], face: number[]): Vector3Like {
+  const [a, b, c] = face.map((index) => vertices[index]);
+  const normal = cross(sub(b, a), sub(c, a));
+  const length = Math.hypot(normal.x, normal.y, normal.z);
+  return { x: normal.x / length, y: normal.y / length, z: normal.z / length };
+}
+
+function centroid(points: Vector3Like[]): Vector3Like {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y, z: acc.z + p.z }), {
+    x: 0,
+    y: 0,
+    z: 0,
+  });
+  return { x: sum.x / points.length, y: sum.y / points.length, z: sum.z / points.length };
+}
+
+function sub(a: Vector3Like, b: Vector3Like): Vector3Like {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function dot(a: Vector3Like, b: Vector3Like): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function cross(a: Vector3Like, b: Vector3Like): Vector3Like {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+}
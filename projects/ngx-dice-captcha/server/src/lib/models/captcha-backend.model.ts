@@ -0,0 +1,181 @@
+import { Challenge } from './challenge.model';
+import { DiceSetEntry } from './dice-set.model';
+import { DiceType } from './dice-type.model';
+import { VerificationMode } from './verification-mode.model';
+import { VerificationFailureReason } from './verification-result.model';
+
+/**
+ * Request sent to a {@link CaptchaBackend} to open a new challenge.
+ *
+ * Carries the client's preferred dice setup. The backend is free to override
+ * any of these values; the issued challenge is authoritative. The answer fields
+ * and any question to pose are chosen by the backend alone.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface ChallengeRequest {
+  /** Session identifier used for rate limiting and attempt tracking */
+  sessionId: string;
+
+  /** Preferred number of dice */
+  diceCount: number;
+
+  /** Preferred dice type */
+  diceType: DiceType;
+
+  /**
+   * Preferred mixed dice set, in dice order; overrides `diceCount` and `diceType`
+   * unless a question is posed
+   * @since 2.4.0
+   */
+  dice?: DiceSetEntry[];
+
+  /**
+   * Preferred number of rounds to pass before a token is issued. The backend
+   * may require more, never fewer.
+   * @since 2.4.0
+   */
+  rounds?: number;
+
+  /**
+   * Challenge of the round just passed, to issue the next round of a
+   * multi-round challenge. Without it, a new first round is issued.
+   * @since 2.4.0
+   */
+  previousChallengeId?: string;
+}
+
+/**
+ * Challenge issued by a {@link CaptchaBackend}.
+ *
+ * The client only receives what it needs to render the roll. The expected
+ * answer never leaves the backend.
+ *
+ * @example
+ * ```typescript
+ * const issued: IssuedChallenge = {
+ *   challengeId: 'c7f1b0d2-...',
+ *   diceCount: 3,
+ *   diceType: DiceType.D6,
+ *   verificationMode: VerificationMode.BOTH,
+ *   seed: 2718281828,
+ *   issuedAt: 1735689600000,
+ *   expiresAt: 1735689720000
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface IssuedChallenge {
+  /**
+   * Opaque, random identifier the client echoes back with every call.
+   * Doubles as the challenge nonce: it can be solved only once.
+   */
+  challengeId: string;
+
+  /** Number of dice the client must roll */
+  diceCount: number;
+
+  /** Type of dice the client must roll */
+  diceType: DiceType;
+
+  /**
+   * Mixed dice set the client must roll, in dice order. When present it has
+   * `diceCount` entries and their types take precedence over `diceType`.
+   * @since 2.4.0
+   */
+  dice?: DiceSetEntry[];
+
+  /**
+   * Answer fields the client must show. When absent, the client keeps its
+   * configured mode.
+   * @since 2.4.0
+   */
+  verificationMode?: VerificationMode;
+
+  /**
+   * Question the user must answer, set in CHALLENGE mode
+   * @since 2.4.0
+   */
+  challenge?: Challenge;
+
+  /**
+   * Round this challenge is for, from 1; set for multi-round challenges
+   * @since 2.4.0
+   */
+  round?: number;
+
+  /**
+   * Number of rounds to pass before a token is issued; set for multi-round
+   * challenges
+   * @since 2.4.0
+   */
+  totalRounds?: number;
+
+  /**
+   * Seed the client rolls the dice with, so the backend can replay the roll
+   * with `simulateRoll`. When absent, the client rolls freely.
+   * @since 2.4.0
+   */
+  seed?: number;
+
+  /** When the challenge was issued (unix timestamp in ms) */
+  issuedAt: number;
+
+  /** When the challenge stops accepting answers (unix timestamp in ms) */
+  expiresAt: number;
+}
+
+/**
+ * Returned by a {@link CaptchaBackend} instead of a challenge when it refuses
+ * to issue one.
+ *
+ * @example
+ * ```typescript
+ * const refusal: ChallengeRefusal = {
+ *   message: 'Too many challenges. Please try again later.',
+ *   reason: VerificationFailureReason.RATE_LIMITED
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface ChallengeRefusal {
+  /** Message explaining the refusal */
+  message: string;
+
+  /** Why no challenge was issued, e.g. `INVALID_REQUEST` or `RATE_LIMITED` */
+  reason: VerificationFailureReason;
+}
+
+/**
+ * Answer submitted by the user for an issued challenge.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface AnswerSubmission {
+  /** Identifier of the challenge being answered */
+  challengeId: string;
+
+  /** Session identifier used when the challenge was issued */
+  sessionId: string;
+
+  /**
+   * Dice values entered by the user, in dice order (empty in CALCULATION_ONLY mode).
+   * Answers to SORTED_ASCENDING questions are sent here, lowest first
+   */
+  diceValues: number[];
+
+  /** Sum entered by the user (the sum of `diceValues` in INDIVIDUAL_DICE mode) */
+  sum: number;
+
+  /**
+   * Answer to the issued challenge's question, in CHALLENGE mode
+   * @since 2.4.0
+   */
+  answer?: number;
+}
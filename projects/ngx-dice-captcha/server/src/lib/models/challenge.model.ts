@@ -0,0 +1,142 @@
+/**
+ * Difficulty levels for CAPTCHA challenges.
+ *
+ * Determines the complexity of the mathematical operation and
+ * the number of dice involved in the challenge.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export enum Difficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+}
+
+/**
+ * Type of mathematical operation for the challenge.
+ *
+ * Defines what calculation the user must perform on the dice results.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export enum OperationType {
+  SUM = 'SUM',
+  PRODUCT = 'PRODUCT',
+  DIFFERENCE = 'DIFFERENCE',
+  SPECIFIC_NUMBER = 'SPECIFIC_NUMBER',
+
+  /** Parity: how many dice show an even number (since 2.4.0) */
+  EVEN_COUNT = 'EVEN_COUNT',
+
+  /**
+   * Ordering: the dice values sorted ascending, entered as separate numbers and
+   * compared value by value (since 2.4.0)
+   */
+  SORTED_ASCENDING = 'SORTED_ASCENDING',
+
+  /** Counting: how many dice show `targetValue` (since 2.4.0) */
+  COUNT_OF_VALUE = 'COUNT_OF_VALUE',
+
+  /** Comparison: how much greater the total is than `targetValue` (since 2.4.0) */
+  GREATER_THAN = 'GREATER_THAN',
+
+  /** Identity: the value of the die named by `targetColor` or `targetPosition` (since 2.4.0) */
+  DIE_VALUE = 'DIE_VALUE',
+
+  /** Position: the sum of the `targetValue` leftmost dice on screen (since 2.4.0) */
+  LEFTMOST_SUM = 'LEFTMOST_SUM',
+}
+
+/**
+ * Represents a CAPTCHA challenge that the user must solve.
+ *
+ * Contains all information needed to present a challenge to the user
+ * and validate their answer.
+ *
+ * @example
+ * ```typescript
+ * const challenge: Challenge = {
+ *   id: 'challenge_123',
+ *   difficulty: Difficulty.MEDIUM,
+ *   operation: OperationType.SUM,
+ *   diceCount: 3,
+ *   targetValue: 12,
+ *   description: 'What is the sum of the dice?',
+ *   hint: 'Add all dice values together'
+ * };
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface Challenge {
+  /** Unique identifier for the challenge */
+  id: string;
+
+  /** Difficulty level of the challenge */
+  difficulty: Difficulty;
+
+  /** Mathematical operation to perform on dice results */
+  operation: OperationType;
+
+  /** Number of dice involved in this challenge */
+  diceCount: number;
+
+  /** The target value the user needs to achieve (optional for some challenge types) */
+  targetValue?: number;
+
+  /** Human-readable description of the challenge */
+  description: string;
+
+  /** Optional hint to help the user */
+  hint?: string;
+
+  /**
+   * Color of the die a DIE_VALUE challenge asks about, a name from `DICE_COLOR_PALETTE`.
+   * The dice are color-coded while it is set.
+   * @since 2.4.0
+   */
+  targetColor?: string;
+
+  /**
+   * Position of the die a DIE_VALUE challenge asks about, counted from 1 at the left
+   * of the screen. Used when `targetColor` is not set.
+   * @since 2.4.0
+   */
+  targetPosition?: number;
+
+  /**
+   * Adds the total of the dice to the answer of a SPECIFIC_NUMBER (1 or 0),
+   * EVEN_COUNT or COUNT_OF_VALUE question, whose own answer is one of a
+   * handful of small numbers and easily guessed
+   * @since 2.4.0
+   */
+  addTotal?: boolean;
+  /** Minimum possible value for the challenge */
+  minValue?: number;
+
+  /** Maximum possible value for the challenge */
+  maxValue?: number;
+}
+
+/**
+ * Challenge validation result.
+ *
+ * Indicates whether a challenge is mathematically valid and solvable
+ * with the dice rolled.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface ChallengeValidation {
+  /** Whether the challenge definition is valid */
+  isValid: boolean;
+
+  /** Whether the challenge can be solved with the dice rolled */
+  isSolvable: boolean;
+
+  /** Estimated number of different ways to solve the challenge */
+  estimatedSolutionCount: number;
+}
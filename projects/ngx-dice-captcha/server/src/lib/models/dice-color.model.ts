@@ -0,0 +1,44 @@
+/**
+ * A named die color that challenges can refer to.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface NamedDiceColor {
+  /** Name used in challenge questions and as the die's label, e.g. `'blue'` */
+  name: string;
+
+  /** Face color, any CSS color */
+  face: string;
+
+  /** Dot color, any CSS color */
+  dot: string;
+}
+
+/**
+ * Colors given to color-coded dice, in dice order.
+ *
+ * Die `i` is painted with entry `i`, so a challenge naming a color refers to
+ * the die at that index. Dot colors are picked for contrast on each face.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const DICE_COLOR_PALETTE: readonly NamedDiceColor[] = [
+  { name: 'red', face: '#d32f2f', dot: '#ffffff' },
+  { name: 'blue', face: '#1976d2', dot: '#ffffff' },
+  { name: 'green', face: '#388e3c', dot: '#ffffff' },
+  { name: 'yellow', face: '#fbc02d', dot: '#000000' },
+  { name: 'purple', face: '#7b1fa2', dot: '#ffffff' },
+  { name: 'orange', face: '#f57c00', dot: '#000000' },
+];
+
+/**
+ * Finds the die painted with a palette color.
+ *
+ * @param name - Color name from {@link DICE_COLOR_PALETTE}
+ * @returns Index of the die with that color, or -1 for unknown names
+ */
+export function getDiceColorIndex(name: string): number {
+  return DICE_COLOR_PALETTE.findIndex((color) => color.name === name);
+}
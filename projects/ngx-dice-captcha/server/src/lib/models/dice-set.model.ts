@@ -0,0 +1,45 @@
+import { DiceType } from './dice-type.model';
+
+/**
+ * One die of a mixed dice set.
+ *
+ * @example
+ * ```typescript
+ * // Two D6 and one red D20
+ * const dice: DiceSetEntry[] = [
+ *   { type: DiceType.D6 },
+ *   { type: DiceType.D6 },
+ *   { type: DiceType.D20, color: '#d32f2f', label: 'red' }
+ * ];
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface DiceSetEntry {
+  /** Type of the die */
+  type: DiceType;
+
+  /** Face color, any CSS color (default: the theme's dice color) */
+  color?: string;
+
+  /** Name shown on the die */
+  label?: string;
+}
+
+/**
+ * Gets the type of one die of a roll.
+ *
+ * @param diceType - Type of every die, or the type of each die in dice order
+ * @param index - Die index
+ * @returns Type of the die, or undefined when a per-die list has no entry for it
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function getDieType(
+  diceType: DiceType | readonly DiceType[],
+  index: number
+): DiceType | undefined {
+  return typeof diceType === 'string' ? diceType : diceType[index];
+}
@@ -0,0 +1,48 @@
+/**
+ * Enum representing different types of dice by their number of faces.
+ *
+ * Supports standard polyhedral dice used in tabletop gaming and CAPTCHA challenges.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export enum DiceType {
+  /**
+   * 4-sided dice, read from the number at the top vertex
+   * @since 2.4.0
+   */
+  D4 = 'D4',
+
+  /** Standard 6-sided dice */
+  D6 = 'D6',
+
+  /** 8-sided dice */
+  D8 = 'D8',
+
+  /**
+   * 10-sided dice (pentagonal trapezohedron)
+   * @since 2.4.0
+   */
+  D10 = 'D10',
+
+  /** 12-sided dice */
+  D12 = 'D12',
+
+  /** 20-sided dice */
+  D20 = 'D20',
+}
+
+/**
+ * Number of faces of each dice type; faces are numbered from 1.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const DICE_FACE_COUNT: Record<DiceType, number> = {
+  [DiceType.D4]: 4,
+  [DiceType.D6]: 6,
+  [DiceType.D8]: 8,
+  [DiceType.D10]: 10,
+  [DiceType.D12]: 12,
+  [DiceType.D20]: 20,
+};
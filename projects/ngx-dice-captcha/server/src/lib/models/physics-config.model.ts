@@ -0,0 +1,28 @@
+/**
+ * Physics simulation configuration.
+ *
+ * Controls the Cannon-es physics parameters for realistic dice behavior.
+ * Adjust these values to change how dice roll, bounce, and settle.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface PhysicsConfig {
+  /** Gravity along Y (default: -30, stronger than Earth's for faster settling) */
+  gravity: number;
+
+  /** Restitution/bounciness of contacts between dice, ground and walls (0-1) */
+  restitution: number;
+
+  /** Friction coefficient of contacts between dice, ground and walls (0-1) */
+  friction: number;
+
+  /** Linear damping to slow down movement */
+  linearDamping: number;
+
+  /** Angular damping to slow down rotation */
+  angularDamping: number;
+
+  /** Solver iterations per physics step */
+  collisionIterations: number;
+}
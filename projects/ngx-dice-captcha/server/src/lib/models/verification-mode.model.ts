@@ -0,0 +1,31 @@
+/**
+ * Which answer fields the user fills in and which of them are checked.
+ *
+ * @public
+ * @since 1.0.0
+ */
+export enum VerificationMode {
+  /**
+   * User must enter individual dice values using the overlay interface
+   */
+  INDIVIDUAL_DICE = 'INDIVIDUAL_DICE',
+
+  /**
+   * User only enters the sum of the dice
+   * @since 2.4.0
+   */
+  CALCULATION_ONLY = 'CALCULATION_ONLY',
+
+  /**
+   * User enters every dice value and their sum; both must be correct
+   * @since 2.4.0
+   */
+  BOTH = 'BOTH',
+
+  /**
+   * User answers the challenge's question (e.g. the product of the dice)
+   * with a single number
+   * @since 2.4.0
+   */
+  CHALLENGE = 'CHALLENGE',
+}
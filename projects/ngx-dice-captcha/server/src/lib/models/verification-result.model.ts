@@ -0,0 +1,118 @@
+/**
+ * Partial match information for individual dice verification
+ */
+export interface PartialMatch {
+  /** Number of dice values that were correctly entered */
+  correctDice?: number;
+
+  /** Total number of dice in the challenge */
+  totalDice?: number;
+
+  /** Whether the sum calculation was correct (for BOTH mode) */
+  sumCorrect?: boolean;
+}
+
+/**
+ * Machine-readable reason a verification attempt failed.
+ *
+ * Lets hosts react to specific failures (e.g. start a new challenge when
+ * it expired) without parsing `message`.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export enum VerificationFailureReason {
+  /** The answer did not match the roll */
+  INCORRECT_ANSWER = 'INCORRECT_ANSWER',
+
+  /** The session has used all attempts or challenges, or is locked out */
+  RATE_LIMITED = 'RATE_LIMITED',
+
+  /** The challenge request named an unknown dice type or a malformed dice set */
+  INVALID_REQUEST = 'INVALID_REQUEST',
+
+  /** The challenge id was never issued or belongs to another session */
+  CHALLENGE_UNKNOWN = 'CHALLENGE_UNKNOWN',
+
+  /** The challenge was not answered before it expired */
+  CHALLENGE_EXPIRED = 'CHALLENGE_EXPIRED',
+
+  /** The challenge has already been solved once */
+  CHALLENGE_ALREADY_USED = 'CHALLENGE_ALREADY_USED',
+}
+
+/**
+ * Result of a CAPTCHA verification attempt.
+ *
+ * Contains the outcome of validating a user's answer, including success status,
+ * explanatory message, remaining attempts, verification token (on success),
+ * and timestamp.
+ *
+ * @example
+ * ```typescript
+ * const result: VerificationResult = {
+ *   success: true,
+ *   message: 'CAPTCHA verification successful',
+ *   token: 'eyJhbGc...',
+ *   timestamp: Date.now()
+ * };
+ * ```
+ *
+ * @public
+ * @since 1.0.0
+ */
+export interface VerificationResult {
+  /** Whether the verification was successful */
+  success: boolean;
+
+  /** Message explaining the result (success or failure reason) */
+  message: string;
+
+  /** Number of attempts remaining before lockout (optional) */
+  attemptsRemaining?: number;
+
+  /** Security token issued on successful verification (optional) */
+  token?: string;
+
+  /** Timestamp when the verification was completed (unix timestamp) */
+  timestamp: number;
+
+  /** Actual dice values from the roll (for INDIVIDUAL_DICE mode) */
+  diceValues?: number[];
+
+  /** User's entered dice values (for INDIVIDUAL_DICE mode) */
+  userDiceInputs?: number[];
+
+  /** Expected sum of dice (for CALCULATION_ONLY or BOTH mode) */
+  expectedSum?: number;
+
+  /** User's entered sum value (for CALCULATION_ONLY or BOTH mode) */
+  userSumInput?: number;
+
+  /** Partial match information (for progressive feedback) */
+  partialMatch?: PartialMatch;
+
+  /** Why the attempt failed, when known (only set on failure) */
+  reason?: VerificationFailureReason;
+
+  /**
+   * Round this result is for, from 1; set for multi-round challenges. A passed
+   * round before the last succeeds without a token.
+   * @since 2.4.0
+   */
+  round?: number;
+
+  /**
+   * Number of rounds to pass before a token is issued; set for multi-round
+   * challenges
+   * @since 2.4.0
+   */
+  totalRounds?: number;
+
+  /**
+   * Results of the passed rounds, in round order, on the final result of a
+   * multi-round challenge
+   * @since 2.4.0
+   */
+  roundResults?: VerificationResult[];
+}
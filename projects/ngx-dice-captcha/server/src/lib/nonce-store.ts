@@ -0,0 +1,61 @@
+import { Awaitable } from './session-store';
+
+/**
+ * Records single-use values such as challenge ids and token nonces.
+ *
+ * Contract: `consume` returns true the first time a value is seen and false
+ * on every later call until `ttl` milliseconds have passed. The check and the
+ * write must be atomic; with Redis, use `SET key 1 NX PX ttl` and return
+ * whether it succeeded.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface NonceStore {
+  consume(nonce: string, ttl: number): Awaitable<boolean>;
+}
+
+/**
+ * Nonce store that keeps consumed values in process memory.
+ *
+ * Values are forgotten on restart and are not shared between server instances.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly consumed = new Map<string, number>();
+
+  consume(nonce: string, ttl: number): boolean {
+    const now = Date.now();
+    this.removeExpired(now);
+
+    if (this.consumed.has(nonce)) {
+      return false;
+    }
+
+    this.consumed.set(nonce, now + Math.max(0, ttl));
+    return true;
+  }
+
+  /**
+   * Gets the number of values currently remembered.
+   *
+   * @returns Number of consumed values that have not expired
+   */
+  get size(): number {
+    this.removeExpired(Date.now());
+    return this.consumed.size;
+  }
+
+  /**
+   * Forgets values whose time to live has passed
+   */
+  private removeExpired(now: number): void {
+    for (const [nonce, expiresAt] of Array.from(this.consumed.entries())) {
+      if (now >= expiresAt) {
+        this.consumed.delete(nonce);
+      }
+    }
+  }
+}
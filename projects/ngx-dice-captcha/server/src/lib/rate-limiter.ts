@@ -0,0 +1,279 @@
+import { InMemorySessionStore, RateLimitRecord, SyncCaptchaSessionStore } from './session-store';
+
+/**
+ * Configuration for the rate limiter
+ */
+export interface RateLimiterConfig {
+  maxAttempts?: number;
+  lockoutDuration?: number; // in milliseconds
+  attemptWindowDuration?: number; // in milliseconds
+  sessionTtl?: number; // in milliseconds, how long idle sessions are kept
+}
+
+/**
+ * Result of a rate limit check
+ */
+export interface RateLimitCheck {
+  allowed: boolean;
+  message: string;
+  attemptsRemaining?: number;
+}
+
+/**
+ * Default rate limiter configuration
+ */
+export const DEFAULT_RATE_LIMITER_CONFIG: Required<RateLimiterConfig> = {
+  maxAttempts: 5,
+  lockoutDuration: 5 * 60 * 1000, // 5 minutes
+  attemptWindowDuration: 60 * 1000, // 1 minute
+  sessionTtl: 60 * 60 * 1000, // 1 hour
+};
+
+/**
+ * Checks whether a session may make another attempt.
+ *
+ * Pure function behind {@link RateLimiter.check}: clears expired lockouts,
+ * resets attempts outside the attempt window and locks sessions that have
+ * used all attempts. Returns the record to store when it changed.
+ *
+ * @param record - Current record, or null for a new session
+ * @param config - Rate limiter configuration
+ * @param now - Current time in milliseconds
+ * @returns The check result and the updated record, if any
+ */
+export function evaluateRateLimit(
+  record: RateLimitRecord | null,
+  config: Required<RateLimiterConfig>,
+  now: number
+): { check: RateLimitCheck; updated: RateLimitRecord | null } {
+  if (!record) {
+    return {
+      check: {
+        allowed: true,
+        message: 'Rate limit check passed',
+        attemptsRemaining: config.maxAttempts,
+      },
+      updated: null,
+    };
+  }
+
+  // Check if session is locked out
+  if (record.lockoutUntil && now < record.lockoutUntil) {
+    const remainingTime = Math.ceil((record.lockoutUntil - now) / 1000);
+    return {
+      check: {
+        allowed: false,
+        message: `Too many attempts. Please try again in ${remainingTime} seconds.`,
+      },
+      updated: null,
+    };
+  }
+
+  let updated: RateLimitRecord | null = null;
+
+  // Clean expired lockout
+  if (record.lockoutUntil && now >= record.lockoutUntil) {
+    updated = { ...record, lockoutUntil: undefined, attempts: 0 };
+  }
+
+  // Reset attempts if outside window
+  const current = updated ?? record;
+  if (current.attempts > 0 && now - current.lastAttempt > config.attemptWindowDuration) {
+    updated = { ...current, attempts: 0 };
+  }
+
+  const latest = updated ?? record;
+  if (latest.attempts >= config.maxAttempts) {
+    return {
+      check: { allowed: false, message: 'Maximum attempts exceeded. Please try again later.' },
+      updated: { ...latest, lockoutUntil: now + config.lockoutDuration },
+    };
+  }
+
+  return {
+    check: {
+      allowed: true,
+      message: 'Rate limit check passed',
+      attemptsRemaining: Math.max(0, config.maxAttempts - latest.attempts),
+    },
+    updated,
+  };
+}
+
+/**
+ * Applies the outcome of an attempt to a record that was just incremented.
+ *
+ * @param record - Record returned by `CaptchaSessionStore.increment`
+ * @param success - Whether the attempt succeeded
+ * @returns The record to store, or null when nothing changes
+ */
+export function settleAttempt(record: RateLimitRecord, success: boolean): RateLimitRecord | null {
+  if (!success) {
+    return null;
+  }
+
+  return {
+    ...record,
+    attempts: 0,
+    lockoutUntil: undefined,
+    successfulVerifications: record.successfulVerifications + 1,
+  };
+}
+
+/**
+ * Calculates how long a record must be kept.
+ *
+ * @param record - Record being stored
+ * @param config - Rate limiter configuration
+ * @param now - Current time in milliseconds
+ * @returns Time to live in milliseconds, covering any active lockout
+ */
+export function recordTtl(
+  record: RateLimitRecord,
+  config: Required<RateLimiterConfig>,
+  now: number
+): number {
+  return Math.max(config.sessionTtl, (record.lockoutUntil ?? 0) - now);
+}
+
+/**
+ * Per-session attempt counter with lockouts.
+ *
+ * Failed attempts inside the attempt window count towards `maxAttempts`.
+ * Reaching the limit locks the session for `lockoutDuration`; a success
+ * resets the counter. Records live in a {@link SyncCaptchaSessionStore}
+ * (in memory by default) and expire after `sessionTtl` without attempts.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ maxAttempts: 5 }, new WebStorageSessionStore(localStorage));
+ *
+ * const check = limiter.check(sessionId);
+ * if (check.allowed) {
+ *   limiter.record(sessionId, answerIsCorrect);
+ * }
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export class RateLimiter {
+  private config: Required<RateLimiterConfig> = { ...DEFAULT_RATE_LIMITER_CONFIG };
+
+  constructor(
+    config: RateLimiterConfig = {},
+    private readonly store: SyncCaptchaSessionStore = new InMemorySessionStore()
+  ) {
+    this.configure(config);
+  }
+
+  /**
+   * Configures the limiter with custom settings.
+   *
+   * @param config - Configuration options
+   */
+  configure(config: RateLimiterConfig): void {
+    this.config = { ...DEFAULT_RATE_LIMITER_CONFIG, ...config };
+  }
+
+  /**
+   * Checks whether a session may make another attempt.
+   *
+   * @param sessionId - Session identifier
+   * @param now - Current time in milliseconds (default: Date.now())
+   * @returns Whether the attempt is allowed, with attempts remaining
+   */
+  check(sessionId: string, now: number = Date.now()): RateLimitCheck {
+    const { check, updated } = evaluateRateLimit(this.store.get(sessionId), this.config, now);
+    if (updated) {
+      this.write(sessionId, updated, now);
+    }
+    return check;
+  }
+
+  /**
+   * Records an attempt. A success resets the attempt counter.
+   *
+   * @param sessionId - Session identifier
+   * @param success - Whether the attempt succeeded
+   * @param now - Current time in milliseconds (default: Date.now())
+   */
+  record(sessionId: string, success: boolean, now: number = Date.now()): void {
+    const incremented = this.store.increment(sessionId, now);
+    const settled = settleAttempt(incremented, success);
+    if (settled) {
+      this.store.set(sessionId, settled);
+    }
+    this.store.expire(sessionId, recordTtl(settled ?? incremented, this.config, now));
+  }
+
+  /**
+   * Gets the number of attempts a session has left.
+   *
+   * @param sessionId - Session identifier
+   * @returns Attempts remaining, never negative
+   */
+  getAttemptsRemaining(sessionId: string): number {
+    const attempts = this.store.get(sessionId)?.attempts ?? 0;
+    return Math.max(0, this.config.maxAttempts - attempts);
+  }
+
+  /**
+   * Gets the tracking record for a session.
+   *
+   * @param sessionId - Session identifier
+   * @returns A copy of the record, or null if the session is unknown
+   */
+  get(sessionId: string): RateLimitRecord | null {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * Clears attempts and any lockout for a session.
+   *
+   * @param sessionId - Session identifier
+   */
+  reset(sessionId: string): void {
+    const record = this.store.get(sessionId);
+    if (record) {
+      this.write(sessionId, { ...record, attempts: 0, lockoutUntil: undefined }, Date.now());
+    }
+  }
+
+  /**
+   * Forgets a session entirely.
+   *
+   * @param sessionId - Session identifier
+   */
+  delete(sessionId: string): void {
+    this.store.expire(sessionId, 0);
+  }
+
+  /**
+   * Drops sessions without attempts for longer than `maxAge`.
+   *
+   * Stores without a `prune` method rely on their own expiry and report zero.
+   *
+   * @param maxAge - Maximum idle time in milliseconds
+   * @param now - Current time in milliseconds (default: Date.now())
+   * @returns Number of sessions dropped
+   */
+  prune(maxAge: number, now: number = Date.now()): number {
+    return this.store.prune?.(maxAge, now) ?? 0;
+  }
+
+  /**
+   * Forgets all sessions, if the store supports it.
+   */
+  clear(): void {
+    this.store.clear?.();
+  }
+
+  /**
+   * Stores a record and refreshes its expiry
+   */
+  private write(sessionId: string, record: RateLimitRecord, now: number): void {
+    this.store.set(sessionId, record);
+    this.store.expire(sessionId, recordTtl(record, this.config, now));
+  }
+}
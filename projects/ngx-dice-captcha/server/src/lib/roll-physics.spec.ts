@@ -0,0 +1,142 @@
+import * as CANNON from 'cannon-es';
+import { DiceType } from './models/dice-type.model';
+import {
+  DEFAULT_ROLL_PHYSICS,
+  ROLL_GROUND_Y,
+  ROLL_MATERIALS,
+  ROLL_TIMESTEP,
+  RollSpec,
+  applyRollPhysics,
+  createArenaWalls,
+  createDiceLaunches,
+  createDiceWorld,
+  createGroundBody,
+  createRollDiceBody,
+  createSeededLaunches,
+  getUpwardFaceValue,
+  launchDice,
+  resolveRollSpec,
+} from './roll-physics';
+
+/**
+ * Replays a seeded roll for a fixed number of steps, the way the canvas sets it up
+ */
+function replay(spec: RollSpec, steps: number): CANNON.Vec3[] {
+  const resolved = resolveRollSpec(spec);
+  const world = createDiceWorld();
+  world.addBody(createGroundBody());
+  createArenaWalls(resolved.arena).forEach((wall) => world.addBody(wall));
+
+  const bodies = createSeededLaunches(resolved).map((launch, index) => {
+    const body = createRollDiceBody(resolved.diceTypes[index], resolved.diceSize);
+    world.addBody(body);
+    launchDice(body, launch);
+    return body;
+  });
+
+  for (let i = 0; i < steps; i++) {
+    world.step(ROLL_TIMESTEP);
+  }
+  return bodies.map((body) => body.position.clone());
+}
+
+function rotation(axis: [number, number, number], angle: number): CANNON.Quaternion {
+  return new CANNON.Quaternion().setFromAxisAngle(new CANNON.Vec3(...axis), angle);
+}
+
+describe('roll-physics', () => {
+  const spec: RollSpec = { seed: 1234, diceCount: 3 };
+
+  it('should fill in defaults', () => {
+    const resolved = resolveRollSpec(spec);
+
+    expect(resolved.diceSize).toBe(1.5);
+    expect(resolved.arena).toEqual({ width: 24, depth: 24 });
+    expect(resolved.forceFactor).toBe(0.7);
+    expect(resolved.diceTypes).toEqual([DiceType.D6, DiceType.D6, DiceType.D6]);
+  });
+
+  it('should fill missing per-dice types with the dice type', () => {
+    const resolved = resolveRollSpec({ ...spec, diceType: DiceType.D8, diceTypes: [DiceType.D20] });
+
+    expect(resolved.diceTypes).toEqual([DiceType.D20, DiceType.D8, DiceType.D8]);
+  });
+
+  it('should derive the same launches from the same seed', () => {
+    expect(createSeededLaunches(spec)).toEqual(createSeededLaunches(spec));
+    expect(createSeededLaunches(spec)).not.toEqual(createSeededLaunches({ ...spec, seed: 99 }));
+  });
+
+  it('should spread dice along X in dice order', () => {
+    const launches = createDiceLaunches(resolveRollSpec(spec), () => 0.5);
+
+    expect(launches.length).toBe(3);
+    expect(launches[0].position.x).toBeLessThan(launches[1].position.x);
+    expect(launches[1].position.x).toBeLessThan(launches[2].position.x);
+  });
+
+  it('should replay a roll identically in a headless world', () => {
+    const first = replay(spec, 240);
+    const second = replay(spec, 240);
+
+    first.forEach((position, i) => {
+      expect(position.x).toBe(second[i].x);
+      expect(position.y).toBe(second[i].y);
+      expect(position.z).toBe(second[i].z);
+    });
+  });
+
+  it('should create four walls inside the arena', () => {
+    const walls = createArenaWalls({ width: 18, depth: 10 });
+
+    expect(walls.length).toBe(4);
+    expect(walls.every((wall) => wall.mass === 0)).toBe(true);
+    expect(walls[3].position.x).toBe(7);
+  });
+
+  it('should default the roll physics', () => {
+    expect(resolveRollSpec(spec).physics).toEqual(DEFAULT_ROLL_PHYSICS);
+  });
+
+  it('should apply physics to the world, contacts and dice', () => {
+    const physics = {
+      gravity: -12,
+      restitution: 0.5,
+      friction: 0.2,
+      linearDamping: 0.3,
+      angularDamping: 0.4,
+      collisionIterations: 20,
+    };
+    const world = createDiceWorld();
+    const dice = createRollDiceBody(DiceType.D6, 1.5);
+    const wall = createArenaWalls({ width: 24, depth: 24 })[0];
+    world.addBody(dice);
+    world.addBody(wall);
+
+    applyRollPhysics(world, physics);
+
+    expect(world.gravity.y).toBe(-12);
+    expect((world.solver as CANNON.GSSolver).iterations).toBe(20);
+    [ROLL_MATERIALS.dice, ROLL_MATERIALS.ground, ROLL_MATERIALS.wall].forEach((material) => {
+      const contact = world.getContactMaterial(ROLL_MATERIALS.dice, material);
+      expect(contact.friction).toBe(0.2);
+      expect(contact.restitution).toBe(0.5);
+    });
+    expect(dice.linearDamping).toBe(0.3);
+    expect(dice.angularDamping).toBe(0.4);
+    expect(wall.linearDamping).not.toBe(0.3);
+  });
+
+  it('should place the ground at ROLL_GROUND_Y', () => {
+    expect(createGroundBody().position.y).toBe(ROLL_GROUND_Y);
+  });
+
+  it('should read the upward D6 face in material order', () => {
+    expect(getUpwardFaceValue(new CANNON.Quaternion(), DiceType.D6)).toBe(6);
+    expect(getUpwardFaceValue(rotation([1, 0, 0], Math.PI), DiceType.D6)).toBe(1);
+    expect(getUpwardFaceValue(rotation([1, 0, 0], Math.PI / 2), DiceType.D6)).toBe(2);
+    expect(getUpwardFaceValue(rotation([1, 0, 0], -Math.PI / 2), DiceType.D6)).toBe(5);
+    expect(getUpwardFaceValue(rotation([0, 0, 1], Math.PI / 2), DiceType.D6)).toBe(4);
+    expect(getUpwardFaceValue(rotation([0, 0, 1], -Math.PI / 2), DiceType.D6)).toBe(3);
+  });
+});
@@ -0,0 +1,506 @@
+/**
+ * Roll physics for dice CAPTCHA
+ * Builds the cannon-es world, ground, walls and dice bodies used by the dice canvas,
+ * derives every random roll input (drop positions, rotations, impulses and torques)
+ * from a seed, and reads face values from body orientations.
+ *
+ * Nothing here touches the DOM or Three.js, so rolls replay unchanged in Node.
+ */
+
+import * as CANNON from 'cannon-es';
+import { getDicePolyhedron } from './dice-polyhedra';
+import { DiceType } from './models/dice-type.model';
+import { PhysicsConfig } from './models/physics-config.model';
+import { createSeededRandom } from './seeded-random';
+
+/**
+ * Fixed physics timestep for seeded rolls, in seconds.
+ * Matches the step used by `PhysicsEngineService`.
+ */
+export const ROLL_TIMESTEP = 1 / 60;
+
+/**
+ * Height of the ground plane in world units
+ */
+export const ROLL_GROUND_Y = -3;
+
+/**
+ * Default physics for rolls, tuned for fast, reliable settling
+ */
+export const DEFAULT_ROLL_PHYSICS: PhysicsConfig = {
+  gravity: -30, // Stronger than Earth's for faster settling
+  restitution: 0.15, // Low bounciness for quicker settling
+  friction: 0.7, // High friction for faster stopping
+  linearDamping: 0.8, // Very high damping for rapid stabilization
+  angularDamping: 0.8, // Very high damping for rapid stabilization
+  collisionIterations: 10,
+};
+
+/**
+ * Physics materials of the bodies in a roll.
+ * Contacts between dice and each material use the configured friction and restitution.
+ */
+export const ROLL_MATERIALS = {
+  dice: new CANNON.Material('dice'),
+  ground: new CANNON.Material('ground'),
+  wall: new CANNON.Material('wall'),
+};
+
+/**
+ * Threshold for determining if a dice has settled (stopped moving)
+ * Lower thresholds ensure dice are truly settled before reading values
+ * Optimized for fast settling with high damping values
+ */
+export const SETTLEMENT_THRESHOLD = {
+  velocity: 0.05, // Initial detection threshold
+  angularVelocity: 0.05, // Initial detection threshold
+  confirmationVelocity: 0.02, // Final confirmation threshold
+  confirmationAngularVelocity: 0.02, // Final confirmation threshold
+  checkDuration: 250, // milliseconds - reduced for faster response
+};
+
+/**
+ * Impulse and torque multipliers used for rolls
+ */
+export const ROLL_FORCE_FACTOR = {
+  normal: 0.7,
+  smallScreen: 0.9,
+  reducedMotion: 0.4,
+};
+
+/**
+ * Horizontal size of the area the dice roll in, in world units
+ */
+export interface RollArena {
+  width: number;
+  depth: number;
+}
+
+/**
+ * Everything needed to reproduce a seeded roll
+ */
+export interface RollSpec {
+  /** Seed for `createSeededRandom` */
+  seed: number;
+
+  /** Number of dice */
+  diceCount: number;
+
+  /** Type of dice (default: D6) */
+  diceType?: DiceType;
+
+  /**
+   * Type of each dice for a mixed set, in dice order; dice without an entry use
+   * `diceType`
+   * @since 2.4.0
+   */
+  diceTypes?: DiceType[];
+
+  /** Edge length of each dice (default: 1.5) */
+  diceSize?: number;
+
+  /** Rolling area; walls stand just inside it (default: 24 × 24) */
+  arena?: RollArena;
+
+  /** Impulse and torque multiplier (default: ROLL_FORCE_FACTOR.normal) */
+  forceFactor?: number;
+
+  /** Physics parameters (default: DEFAULT_ROLL_PHYSICS) */
+  physics?: PhysicsConfig;
+}
+
+/**
+ * Plain 3D vector, safe to serialize
+ */
+export interface Vector3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Plain quaternion, safe to serialize
+ */
+export interface QuaternionLike {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+/**
+ * Starting state and forces for a single dice
+ */
+export interface DiceLaunch {
+  position: Vector3Like;
+  quaternion: QuaternionLike;
+  impulse: Vector3Like;
+  torque: Vector3Like;
+}
+
+/**
+ * Fills in the defaults of a roll spec.
+ *
+ * @param spec - Roll spec
+ * @returns Spec with every field set
+ */
+export function resolveRollSpec(spec: RollSpec): Required<RollSpec> {
+  const diceType = spec.diceType ?? DiceType.D6;
+
+  return {
+    seed: spec.seed,
+    diceCount: spec.diceCount,
+    diceType,
+    diceTypes: Array.from(
+      { length: spec.diceCount },
+      (_, index) => spec.diceTypes?.[index] ?? diceType
+    ),
+    diceSize: spec.diceSize ?? 1.5,
+    arena: spec.arena ?? { width: 24, depth: 24 },
+    forceFactor: spec.forceFactor ?? ROLL_FORCE_FACTOR.normal,
+    physics: spec.physics ?? DEFAULT_ROLL_PHYSICS,
+  };
+}
+
+/**
+ * Computes drop positions, rotations, impulses and torques for a roll.
+ *
+ * Dice are spread along X near the back of the arena and thrown towards
+ * the front. Pass `Math.random` for a normal roll or a seeded generator for
+ * a reproducible one.
+ *
+ * @param layout - Dice count, dice size, arena and force factor
+ * @param random - Source of numbers between 0 and 1 (default: Math.random)
+ * @returns One launch per dice, in dice order
+ */
+export function createDiceLaunches(
+  layout: Pick<Required<RollSpec>, 'diceCount' | 'diceSize' | 'arena' | 'forceFactor'>,
+  random: () => number = Math.random
+): DiceLaunch[] {
+  const { diceCount, diceSize: size, arena, forceFactor } = layout;
+
+  const dropAreaWidth = arena.width * 0.25; // Use 25% of width
+  const dropHeight = 5; // Fixed reasonable drop height
+
+  // Enhanced spacing: Ensure minimum gap of 1.5x dice size between dice centers
+  const minSpacing = size * 2.5;
+  const calculatedSpacing = (dropAreaWidth * 2) / (diceCount + 1);
+  const spacing = Math.max(minSpacing, calculatedSpacing);
+
+  const launches: DiceLaunch[] = [];
+  for (let index = 0; index < diceCount; index++) {
+    const startX = (index - (diceCount - 1) / 2) * spacing;
+
+    // Add slight Z variation to prevent perfect alignment (more natural)
+    const startZ = -arena.depth * 0.35 + (random() - 0.5) * size * 0.8;
+    const position = {
+      x: startX + (random() - 0.5) * size * 0.4,
+      y: dropHeight + random() * 0.5,
+      z: startZ,
+    };
+
+    const rotation = new CANNON.Quaternion().setFromEuler(
+      random() * Math.PI * 2,
+      random() * Math.PI * 2,
+      random() * Math.PI * 2
+    );
+
+    // Slightly varied per dice to encourage separation
+    const lateralVariation = (index - (diceCount - 1) / 2) * 0.3;
+    const impulse = {
+      x: ((random() - 0.5) * 4 + lateralVariation) * forceFactor,
+      y: -1.5 * forceFactor, // Downward force
+      z: (random() * 0.8 + 0.2) * 6 * forceFactor, // Forward force (toward bottom)
+    };
+
+    // Random torque for tumbling
+    const torque = {
+      x: (random() - 0.5) * 10 * forceFactor,
+      y: (random() - 0.5) * 10 * forceFactor,
+      z: (random() - 0.5) * 10 * forceFactor,
+    };
+
+    launches.push({
+      position,
+      quaternion: { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+      impulse,
+      torque,
+    });
+  }
+
+  return launches;
+}
+
+/**
+ * Computes the launches for a seeded roll.
+ *
+ * The same spec always gives the same launches.
+ *
+ * @param spec - Roll spec
+ * @returns One launch per dice, in dice order
+ *
+ * @example
+ * ```typescript
+ * const launches = createSeededLaunches({ seed: 1234, diceCount: 3 });
+ * dice.forEach((d, i) => launchDice(d.body, launches[i]));
+ * ```
+ */
+export function createSeededLaunches(spec: RollSpec): DiceLaunch[] {
+  return createDiceLaunches(resolveRollSpec(spec), createSeededRandom(spec.seed).random);
+}
+
+/**
+ * Resets a dice body and applies a launch.
+ *
+ * @param body - Dice physics body
+ * @param launch - Starting state and forces
+ */
+export function launchDice(body: CANNON.Body, launch: DiceLaunch): void {
+  const { position, quaternion, impulse, torque } = launch;
+
+  body.position.set(position.x, position.y, position.z);
+  body.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+  body.velocity.setZero();
+  body.angularVelocity.setZero();
+  body.force.setZero();
+  body.torque.setZero();
+  body.wakeUp();
+
+  body.applyImpulse(new CANNON.Vec3(impulse.x, impulse.y, impulse.z), body.position);
+  body.applyTorque(new CANNON.Vec3(torque.x, torque.y, torque.z));
+}
+
+/**
+ * Creates the four static walls that keep dice inside an arena.
+ *
+ * Walls are physics-only and stand a safety margin inside the arena edges.
+ * Order: back, front, left, right.
+ *
+ * @param arena - Rolling area
+ * @returns Wall bodies, not yet added to a world
+ */
+export function createArenaWalls(arena: RollArena): CANNON.Body[] {
+  const wallHeight = 35; // Tall enough that dice cannot jump over
+  const wallThickness = 2.0;
+  const safetyMargin = 2.0;
+  const areaWidth = arena.width / 2 - safetyMargin;
+  const areaDepth = arena.depth / 2 - safetyMargin;
+  const y = wallHeight / 2 + ROLL_GROUND_Y;
+
+  const wallConfigs = [
+    // Back wall
+    { x: 0, z: -areaDepth, width: areaWidth * 2 + wallThickness * 2, depth: wallThickness },
+    // Front wall
+    { x: 0, z: areaDepth, width: areaWidth * 2 + wallThickness * 2, depth: wallThickness },
+    // Left wall
+    { x: -areaWidth, z: 0, width: wallThickness, depth: areaDepth * 2 + wallThickness * 2 },
+    // Right wall
+    { x: areaWidth, z: 0, width: wallThickness, depth: areaDepth * 2 + wallThickness * 2 },
+  ];
+
+  return wallConfigs.map((config) => {
+    const wallBody = new CANNON.Body({
+      mass: 0, // Static body
+      shape: new CANNON.Box(new CANNON.Vec3(config.width / 2, wallHeight / 2, config.depth / 2)),
+      material: ROLL_MATERIALS.wall,
+    });
+    wallBody.position.set(config.x, y, config.z);
+    return wallBody;
+  });
+}
+
+/**
+ * Creates a physics world set up like the dice canvas's.
+ *
+ * Uses SAP broadphase, allows sleeping and registers contact materials between
+ * dice, ground and walls, then applies the physics parameters.
+ *
+ * @param physics - Physics parameters (default: DEFAULT_ROLL_PHYSICS)
+ * @returns Empty world
+ */
+export function createDiceWorld(physics: PhysicsConfig = DEFAULT_ROLL_PHYSICS): CANNON.World {
+  const world = new CANNON.World();
+
+  // Broadphase is used for collision detection optimization
+  world.broadphase = new CANNON.SAPBroadphase(world);
+
+  // Allow sleep for better performance and faster settling
+  world.allowSleep = true;
+
+  // Contacts between dice, ground and walls; also the fallback for other bodies
+  const { dice, ground, wall } = ROLL_MATERIALS;
+  const contact = { friction: physics.friction, restitution: physics.restitution };
+  world.defaultContactMaterial = new CANNON.ContactMaterial(dice, dice, contact);
+  world.addContactMaterial(world.defaultContactMaterial);
+  world.addContactMaterial(new CANNON.ContactMaterial(dice, ground, contact));
+  world.addContactMaterial(new CANNON.ContactMaterial(dice, wall, contact));
+
+  applyRollPhysics(world, physics);
+  return world;
+}
+
+/**
+ * Applies physics parameters to a world created by {@link createDiceWorld}.
+ *
+ * Updates gravity, solver iterations, friction and restitution of the dice
+ * contact materials, and the damping of every dice body already in the world.
+ * Safe to call while dice are moving.
+ *
+ * @param world - World to update
+ * @param physics - Physics parameters
+ */
+export function applyRollPhysics(world: CANNON.World, physics: PhysicsConfig): void {
+  world.gravity.set(0, physics.gravity, 0);
+
+  if (world.solver instanceof CANNON.GSSolver) {
+    world.solver.iterations = physics.collisionIterations;
+  }
+
+  const { dice, ground, wall } = ROLL_MATERIALS;
+  const contactMaterials = [
+    world.defaultContactMaterial,
+    world.getContactMaterial(dice, ground),
+    world.getContactMaterial(dice, wall),
+  ];
+  contactMaterials
+    .filter((contactMaterial) => !!contactMaterial)
+    .forEach((contactMaterial) => {
+      contactMaterial.friction = physics.friction;
+      contactMaterial.restitution = physics.restitution;
+    });
+
+  world.bodies
+    .filter((body) => body.material === dice)
+    .forEach((body) => {
+      body.linearDamping = physics.linearDamping;
+      body.angularDamping = physics.angularDamping;
+    });
+}
+
+/**
+ * Creates the static ground plane at ROLL_GROUND_Y.
+ *
+ * @returns Ground body, not yet added to a world
+ */
+export function createGroundBody(): CANNON.Body {
+  const ground = new CANNON.Body({
+    mass: 0, // Static body
+    shape: new CANNON.Plane(),
+    material: ROLL_MATERIALS.ground,
+  });
+  ground.quaternion.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2);
+  ground.position.y = ROLL_GROUND_Y;
+  return ground;
+}
+
+/**
+ * Creates the collision shape for a dice.
+ *
+ * Uses a box for D6 and a convex hull of the rendered polyhedron from
+ * {@link getDicePolyhedron} for other types, so dice settle flat on a face.
+ *
+ * @param type - Type of dice
+ * @param size - Size of the dice (edge length for D6)
+ * @returns Collision shape
+ * @throws Error for unsupported dice types
+ */
+export function createDiceShape(type: DiceType, size: number): CANNON.Shape {
+  if (type === DiceType.D6) {
+    return new CANNON.Box(new CANNON.Vec3(size / 2, size / 2, size / 2));
+  }
+
+  const { vertices, faces } = getDicePolyhedron(type, size);
+  return new CANNON.ConvexPolyhedron({
+    vertices: vertices.map((v) => new CANNON.Vec3(v.x, v.y, v.z)),
+    faces,
+  });
+}
+
+/**
+ * Creates a dice body as the dice canvas rolls it.
+ *
+ * @param type - Type of dice
+ * @param size - Edge length of the dice
+ * @param physics - Physics parameters for damping (default: DEFAULT_ROLL_PHYSICS)
+ * @returns Dice body with mass 1 and the dice material, not yet added to a world
+ */
+export function createRollDiceBody(
+  type: DiceType,
+  size: number,
+  physics: PhysicsConfig = DEFAULT_ROLL_PHYSICS
+): CANNON.Body {
+  return new CANNON.Body({
+    mass: 1,
+    shape: createDiceShape(type, size),
+    material: ROLL_MATERIALS.dice,
+    linearDamping: physics.linearDamping,
+    angularDamping: physics.angularDamping,
+  });
+}
+
+/**
+ * Gets the outward face normals of a dice in its local frame.
+ *
+ * The normals come from the same polyhedron as the rendered mesh and the
+ * physics hull, so `normals[0]` is the face numbered 1. The D6 normals follow
+ * the material order in `DiceFactoryService`.
+ *
+ * @param type - Type of dice
+ * @returns One unit normal per face, in face order
+ */
+export function getDiceFaceNormals(type: DiceType): Vector3Like[] {
+  return getDicePolyhedron(type).normals;
+}
+
+/**
+ * Determines the value a dice shows.
+ *
+ * Rotates each face normal by the dice orientation and picks the one most
+ * aligned with +Y. Dice that read their bottom face (D4, whose top vertex shows
+ * the value of the face it rests on) pick the one most aligned with -Y.
+ *
+ * @param quaternion - Dice orientation
+ * @param type - Type of dice
+ * @returns The face value (1-based)
+ *
+ * @example
+ * ```typescript
+ * const value = getUpwardFaceValue(body.quaternion, DiceType.D6);
+ * ```
+ */
+export function getUpwardFaceValue(quaternion: QuaternionLike, type: DiceType): number {
+  const rotation = new CANNON.Quaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+  const worldNormal = new CANNON.Vec3();
+  const { normals, readsBottomFace } = getDicePolyhedron(type);
+  const up = readsBottomFace ? -1 : 1;
+  let maxDot = -Infinity;
+  let faceValue = 1;
+
+  normals.forEach((normal, index) => {
+    rotation.vmult(new CANNON.Vec3(normal.x, normal.y, normal.z), worldNormal);
+    if (worldNormal.y * up > maxDot) {
+      maxDot = worldNormal.y * up;
+      faceValue = index + 1;
+    }
+  });
+
+  return faceValue;
+}
+
+/**
+ * Checks whether every body moves slower than the given thresholds.
+ *
+ * @param bodies - Bodies to check
+ * @param velocity - Maximum linear speed
+ * @param angularVelocity - Maximum angular speed
+ * @returns True if all bodies are below both thresholds
+ */
+export function areBodiesAtRest(
+  bodies: CANNON.Body[],
+  velocity: number,
+  angularVelocity: number
+): boolean {
+  return bodies.every(
+    (body) => body.velocity.length() < velocity && body.angularVelocity.length() < angularVelocity
+  );
+}
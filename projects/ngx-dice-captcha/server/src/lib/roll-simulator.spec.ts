@@ -0,0 +1,64 @@
+import { DiceType } from './models/dice-type.model';
+import { DEFAULT_ROLL_PHYSICS, ROLL_GROUND_Y, getUpwardFaceValue } from './roll-physics';
+import { simulateRoll } from './roll-simulator';
+
+describe('simulateRoll', () => {
+  const spec = { seed: 1234, diceCount: 3 };
+
+  it('should settle and report one face per dice', () => {
+    const result = simulateRoll(spec);
+
+    expect(result.settled).toBe(true);
+    expect(result.faces.length).toBe(3);
+    expect(result.faces.every((face) => face >= 1 && face <= 6)).toBe(true);
+    expect(result.transforms.length).toBe(3);
+  });
+
+  it('should give the same result for the same spec', () => {
+    expect(simulateRoll(spec)).toEqual(simulateRoll(spec));
+  });
+
+  it('should read faces from the final transforms', () => {
+    const result = simulateRoll({ ...spec, seed: 7 });
+
+    result.transforms.forEach((transform, i) => {
+      expect(getUpwardFaceValue(transform.quaternion, DiceType.D6)).toBe(result.faces[i]);
+    });
+  });
+
+  it('should read each face with its own dice type in a mixed set', () => {
+    const diceTypes = [DiceType.D6, DiceType.D6, DiceType.D20];
+    const result = simulateRoll({ ...spec, diceTypes });
+
+    expect(result.settled).toBe(true);
+    result.transforms.forEach((transform, i) => {
+      expect(getUpwardFaceValue(transform.quaternion, diceTypes[i])).toBe(result.faces[i]);
+    });
+  });
+
+  it('should keep dice on the ground inside the walls', () => {
+    const result = simulateRoll({ ...spec, arena: { width: 18, depth: 18 } });
+
+    result.transforms.forEach(({ position }) => {
+      expect(position.y).toBeGreaterThan(ROLL_GROUND_Y);
+      expect(Math.abs(position.x)).toBeLessThan(7);
+      expect(Math.abs(position.z)).toBeLessThan(7);
+    });
+  });
+
+  it('should roll differently with different physics', () => {
+    const bouncy = simulateRoll({
+      ...spec,
+      physics: { ...DEFAULT_ROLL_PHYSICS, restitution: 0.6, linearDamping: 0.2 },
+    });
+
+    expect(bouncy.transforms).not.toEqual(simulateRoll(spec).transforms);
+  });
+
+  it('should stop at maxSteps', () => {
+    const result = simulateRoll(spec, { maxSteps: 10 });
+
+    expect(result.steps).toBe(10);
+    expect(result.settled).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Headless roll simulation for dice CAPTCHA
+ * Replays a seeded roll in a cannon-es world built exactly like the dice canvas's,
+ * without a renderer, DOM or WebGL.
+ */
+
+import {
+  QuaternionLike,
+  ROLL_TIMESTEP,
+  RollSpec,
+  SETTLEMENT_THRESHOLD,
+  Vector3Like,
+  areBodiesAtRest,
+  createArenaWalls,
+  createDiceWorld,
+  createGroundBody,
+  createRollDiceBody,
+  createSeededLaunches,
+  getUpwardFaceValue,
+  launchDice,
+  resolveRollSpec,
+} from './roll-physics';
+
+/**
+ * Position and orientation of a dice
+ */
+export interface DiceTransform {
+  position: Vector3Like;
+  quaternion: QuaternionLike;
+}
+
+/**
+ * Options for simulating a roll
+ */
+export interface RollSimulationOptions {
+  /** Steps to run before giving up on settlement (default: 3600, one minute) */
+  maxSteps?: number;
+}
+
+/**
+ * Outcome of a simulated roll
+ */
+export interface RollSimulationResult {
+  /** Upward face of each dice, in dice order */
+  faces: number[];
+
+  /** Final transform of each dice, in dice order */
+  transforms: DiceTransform[];
+
+  /** Physics steps run, each ROLL_TIMESTEP long */
+  steps: number;
+
+  /** False if the dice were still moving after `maxSteps` */
+  settled: boolean;
+}
+
+/**
+ * Simulates a seeded roll to settlement.
+ *
+ * Adds the ground, the arena walls and the dice to a fresh world with the
+ * spec's physics, in the same order as the dice canvas, launches the dice
+ * from the seed and steps until they settle. Dice count as settled once they
+ * have been below `SETTLEMENT_THRESHOLD` and are still below its confirmation
+ * thresholds `checkDuration` later, as in the canvas.
+ *
+ * @param spec - Roll spec, usually from `DiceCanvasComponent.getRollSpec()`
+ * @param options - Step limit
+ * @returns Face values and final transforms
+ *
+ * @example
+ * ```typescript
+ * // On the server, compute the answer for a roll the client will replay
+ * const { faces, settled } = simulateRoll({ seed, diceCount: 3, arena });
+ * ```
+ */
+export function simulateRoll(
+  spec: RollSpec,
+  options: RollSimulationOptions = {}
+): RollSimulationResult {
+  const resolved = resolveRollSpec(spec);
+  const maxSteps = options.maxSteps ?? 3600;
+  const confirmationSteps = Math.round(SETTLEMENT_THRESHOLD.checkDuration / 1000 / ROLL_TIMESTEP);
+
+  const world = createDiceWorld(resolved.physics);
+  world.addBody(createGroundBody());
+  createArenaWalls(resolved.arena).forEach((wall) => world.addBody(wall));
+
+  const bodies = createSeededLaunches(resolved).map((launch, index) => {
+    const type = resolved.diceTypes[index];
+    const body = createRollDiceBody(type, resolved.diceSize, resolved.physics);
+    world.addBody(body);
+    launchDice(body, launch);
+    return body;
+  });
+
+  // stopped[i] is whether all dice were below the detection thresholds after step i + 1
+  const stopped: boolean[] = [];
+  let steps = 0;
+  let settled = false;
+
+  while (!settled && steps < maxSteps) {
+    world.step(ROLL_TIMESTEP);
+    steps++;
+
+    stopped.push(
+      areBodiesAtRest(bodies, SETTLEMENT_THRESHOLD.velocity, SETTLEMENT_THRESHOLD.angularVelocity)
+    );
+
+    settled =
+      steps > confirmationSteps &&
+      stopped[steps - 1 - confirmationSteps] &&
+      areBodiesAtRest(
+        bodies,
+        SETTLEMENT_THRESHOLD.confirmationVelocity,
+        SETTLEMENT_THRESHOLD.confirmationAngularVelocity
+      );
+  }
+
+  return {
+    faces: bodies.map((body, index) =>
+      getUpwardFaceValue(body.quaternion, resolved.diceTypes[index])
+    ),
+    transforms: bodies.map((body) => ({
+      position: { x: body.position.x, y: body.position.y, z: body.position.z },
+      quaternion: {
+        x: body.quaternion.x,
+        y: body.quaternion.y,
+        z: body.quaternion.z,
+        w: body.quaternion.w,
+      },
+    })),
+    steps,
+    settled,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Seeded random number generation for dice CAPTCHA
+ * Reproducible sequences for seeded rolls and tests. Not cryptographically secure.
+ */
+
+/**
+ * Creates a deterministic random number generator for testing.
+ * Uses a simple Linear Congruential Generator (LCG) algorithm.
+ *
+ * @param seed - The seed value for reproducible random numbers
+ * @returns A function that returns random numbers between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * const random = deterministicRandom(12345);
+ * const value1 = random(); // Always the same for this seed
+ * const value2 = random(); // Next value in sequence
+ *
+ * // In tests
+ * const testRandom = deterministicRandom(42);
+ * const predictableRoll = Math.floor(testRandom() * 6) + 1;
+ * ```
+ */
+export function deterministicRandom(seed: number): () => number {
+  let state = seed;
+
+  // LCG parameters (same as used in glibc)
+  const a = 1103515245;
+  const c = 12345;
+  const m = Math.pow(2, 31);
+
+  return function (): number {
+    state = (a * state + c) % m;
+    return state / m;
+  };
+}
+
+/**
+ * Type for a seeded random generator
+ */
+export interface SeededRandom {
+  random: () => number;
+  randomInt: (min: number, max: number) => number;
+  randomChoice: <T>(array: T[]) => T;
+  shuffle: <T>(array: T[]) => T[];
+  seed: number;
+}
+
+/**
+ * Creates a complete seeded random number generator for testing.
+ * Returns an object with multiple random functions using the same seed.
+ *
+ * @param seed - The seed value
+ * @returns Object with seeded random functions
+ *
+ * @example
+ * ```typescript
+ * const rng = createSeededRandom(12345);
+ * const value1 = rng.randomInt(1, 6);
+ * const value2 = rng.randomInt(1, 6);
+ * const choice = rng.randomChoice(['a', 'b', 'c']);
+ *
+ * // In tests, using the same seed gives same results
+ * const testRng = createSeededRandom(42);
+ * expect(testRng.randomInt(1, 6)).toBe(expectedValue);
+ * ```
+ */
+export function createSeededRandom(seed: number): SeededRandom {
+  const random = deterministicRandom(seed);
+
+  return {
+    random,
+    randomInt: (min: number, max: number) => {
+      return Math.floor(random() * (max - min + 1)) + min;
+    },
+    randomChoice: <T>(array: T[]): T => {
+      if (array.length === 0) {
+        throw new Error('Cannot choose from empty array');
+      }
+      const index = Math.floor(random() * array.length);
+      return array[index];
+    },
+    shuffle: <T>(array: T[]): T[] => {
+      const result = [...array];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    },
+    seed,
+  };
+}
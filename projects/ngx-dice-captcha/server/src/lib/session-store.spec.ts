@@ -0,0 +1,122 @@
+import {
+  InMemorySessionStore,
+  KeyValueStorage,
+  SyncCaptchaSessionStore,
+  WebStorageSessionStore,
+} from './session-store';
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * Map-backed stand-in for localStorage
+ */
+class FakeStorage implements KeyValueStorage {
+  private readonly items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+function describeStore(name: string, createStore: () => SyncCaptchaSessionStore): void {
+  describe(name, () => {
+    let store: SyncCaptchaSessionStore;
+
+    beforeEach(() => {
+      store = createStore();
+    });
+
+    it('should create a record on first increment', () => {
+      const record = store.increment('s', 1000);
+
+      expect(record).toEqual({ attempts: 1, lastAttempt: 1000, successfulVerifications: 0 });
+      expect(store.get('s')?.attempts).toBe(1);
+    });
+
+    it('should increment existing records', () => {
+      store.increment('s', 1000);
+      const record = store.increment('s', 2000);
+
+      expect(record.attempts).toBe(2);
+      expect(record.lastAttempt).toBe(2000);
+    });
+
+    it('should replace records on set', () => {
+      store.increment('s', 1000);
+      store.set('s', { attempts: 0, lastAttempt: 1000, successfulVerifications: 1 });
+
+      expect(store.get('s')?.successfulVerifications).toBe(1);
+    });
+
+    it('should remove records on zero expiry', () => {
+      store.increment('s', 1000);
+      store.expire('s', 0);
+
+      expect(store.get('s')).toBeNull();
+    });
+
+    it('should drop expired records', () => {
+      const now = Date.now();
+      store.increment('s', now);
+      store.expire('s', 1);
+
+      jasmine.clock().install();
+      jasmine.clock().mockDate(new Date(now + 10));
+      try {
+        expect(store.get('s')).toBeNull();
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+
+    it('should prune idle records', () => {
+      store.increment('old', 1000);
+      store.increment('new', 5000);
+
+      expect(store.prune!(2000, 5000)).toBe(1);
+      expect(store.get('old')).toBeNull();
+      expect(store.get('new')).not.toBeNull();
+    });
+
+    it('should keep a lockout across limiter instances', () => {
+      const first = new RateLimiter({ maxAttempts: 1 }, store);
+      first.record('s', false);
+      first.check('s');
+
+      const second = new RateLimiter({ maxAttempts: 1 }, store);
+      expect(second.check('s').allowed).toBe(false);
+    });
+  });
+}
+
+describe('session stores', () => {
+  describeStore('InMemorySessionStore', () => new InMemorySessionStore());
+  describeStore('WebStorageSessionStore', () => new WebStorageSessionStore(new FakeStorage()));
+
+  it('should only touch prefixed keys in web storage', () => {
+    const storage = new FakeStorage();
+    storage.setItem('unrelated', 'keep');
+    const store = new WebStorageSessionStore(storage);
+
+    store.increment('s', 1000);
+    store.clear();
+
+    expect(storage.getItem('unrelated')).toBe('keep');
+    expect(storage.length).toBe(1);
+  });
+});
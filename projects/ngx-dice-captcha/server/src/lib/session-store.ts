@@ -0,0 +1,294 @@
+/**
+ * Value that may be returned directly or through a promise
+ */
+export type Awaitable<T> = T | Promise<T>;
+
+/**
+ * Attempt tracking kept for every session
+ */
+export interface RateLimitRecord {
+  attempts: number;
+  lastAttempt: number;
+  lockoutUntil?: number;
+  successfulVerifications: number;
+}
+
+/**
+ * Storage for per-session rate limit records.
+ *
+ * Contract:
+ * - `get` returns the record, or null when it is missing or has expired.
+ * - `set` replaces the record. It may keep or clear any expiry; callers
+ *   always call `expire` after writing.
+ * - `increment` atomically adds one to `attempts` and sets `lastAttempt` to
+ *   `now`, creating `{ attempts: 1, lastAttempt: now, successfulVerifications: 0 }`
+ *   when the record is missing. It returns the updated record.
+ * - `expire` removes the record `ttl` milliseconds from now; a `ttl` of zero
+ *   or less removes it immediately.
+ * - `prune` and `clear` are optional housekeeping for stores without native
+ *   expiry.
+ *
+ * Methods may return promises, so the store can live in Redis or another
+ * shared database. A Redis store maps naturally onto a hash per session:
+ * `HGETALL`, `HSET`, `HINCRBY attempts 1` plus `HSET lastAttempt`, and `PEXPIRE`.
+ *
+ * `CaptchaValidatorService` runs in the browser and needs a
+ * {@link SyncCaptchaSessionStore}. {@link DiceCaptchaServer} accepts either kind.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface CaptchaSessionStore {
+  get(sessionId: string): Awaitable<RateLimitRecord | null>;
+  set(sessionId: string, record: RateLimitRecord): Awaitable<void>;
+  increment(sessionId: string, now: number): Awaitable<RateLimitRecord>;
+  expire(sessionId: string, ttl: number): Awaitable<void>;
+  prune?(maxAge: number, now: number): Awaitable<number>;
+  clear?(): Awaitable<void>;
+}
+
+/**
+ * {@link CaptchaSessionStore} whose methods return values directly
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface SyncCaptchaSessionStore extends CaptchaSessionStore {
+  get(sessionId: string): RateLimitRecord | null;
+  set(sessionId: string, record: RateLimitRecord): void;
+  increment(sessionId: string, now: number): RateLimitRecord;
+  expire(sessionId: string, ttl: number): void;
+  prune?(maxAge: number, now: number): number;
+  clear?(): void;
+}
+
+/**
+ * Minimal key/value storage, satisfied by `localStorage` and `sessionStorage`
+ */
+export interface KeyValueStorage {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Stored record together with its expiry
+ */
+interface StoredEntry {
+  record: RateLimitRecord;
+  expiresAt?: number;
+}
+
+/**
+ * Creates a new record for a session's first attempt
+ */
+function createRecord(now: number): RateLimitRecord {
+  return { attempts: 1, lastAttempt: now, successfulVerifications: 0 };
+}
+
+/**
+ * Checks whether an entry should be dropped
+ */
+function isStale(entry: StoredEntry, maxAge: number, now: number): boolean {
+  return (
+    (entry.expiresAt !== undefined && now >= entry.expiresAt) ||
+    now - entry.record.lastAttempt > maxAge
+  );
+}
+
+/**
+ * Session store that keeps records in process memory.
+ *
+ * Records are lost on reload and are not shared between server instances.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export class InMemorySessionStore implements SyncCaptchaSessionStore {
+  private readonly entries = new Map<string, StoredEntry>();
+
+  get(sessionId: string): RateLimitRecord | null {
+    const entry = this.getEntry(sessionId);
+    return entry ? { ...entry.record } : null;
+  }
+
+  set(sessionId: string, record: RateLimitRecord): void {
+    const entry = this.getEntry(sessionId);
+    this.entries.set(sessionId, { record: { ...record }, expiresAt: entry?.expiresAt });
+  }
+
+  increment(sessionId: string, now: number): RateLimitRecord {
+    const entry = this.getEntry(sessionId);
+    const record = entry
+      ? { ...entry.record, attempts: entry.record.attempts + 1, lastAttempt: now }
+      : createRecord(now);
+
+    this.entries.set(sessionId, { record, expiresAt: entry?.expiresAt });
+    return { ...record };
+  }
+
+  expire(sessionId: string, ttl: number): void {
+    const entry = this.entries.get(sessionId);
+    if (!entry) {
+      return;
+    }
+
+    if (ttl <= 0) {
+      this.entries.delete(sessionId);
+    } else {
+      entry.expiresAt = Date.now() + ttl;
+    }
+  }
+
+  prune(maxAge: number, now: number): number {
+    let pruned = 0;
+    for (const [sessionId, entry] of Array.from(this.entries.entries())) {
+      if (isStale(entry, maxAge, now)) {
+        this.entries.delete(sessionId);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Gets an entry, dropping it when it has expired
+   */
+  private getEntry(sessionId: string): StoredEntry | undefined {
+    const entry = this.entries.get(sessionId);
+    if (entry?.expiresAt !== undefined && Date.now() >= entry.expiresAt) {
+      this.entries.delete(sessionId);
+      return undefined;
+    }
+    return entry;
+  }
+}
+
+/**
+ * Session store backed by `localStorage`, `sessionStorage` or any
+ * {@link KeyValueStorage}.
+ *
+ * Lockouts survive page reloads and are shared between tabs when using
+ * `localStorage`. Records are stored as JSON under a key prefix.
+ *
+ * Browser storage is under the user's control, so this store deters casual
+ * retries only. Enforce limits on the server for real protection.
+ *
+ * @example
+ * ```typescript
+ * providers: [
+ *   { provide: CAPTCHA_SESSION_STORE, useFactory: () => new WebStorageSessionStore(localStorage) },
+ * ]
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export class WebStorageSessionStore implements SyncCaptchaSessionStore {
+  constructor(
+    private readonly storage: KeyValueStorage,
+    private readonly prefix = 'ngx-dice-captcha:session:'
+  ) {}
+
+  get(sessionId: string): RateLimitRecord | null {
+    return this.read(sessionId)?.record ?? null;
+  }
+
+  set(sessionId: string, record: RateLimitRecord): void {
+    const entry = this.read(sessionId);
+    this.write(sessionId, { record, expiresAt: entry?.expiresAt });
+  }
+
+  increment(sessionId: string, now: number): RateLimitRecord {
+    const entry = this.read(sessionId);
+    const record = entry
+      ? { ...entry.record, attempts: entry.record.attempts + 1, lastAttempt: now }
+      : createRecord(now);
+
+    this.write(sessionId, { record, expiresAt: entry?.expiresAt });
+    return record;
+  }
+
+  expire(sessionId: string, ttl: number): void {
+    const entry = this.read(sessionId);
+    if (!entry) {
+      return;
+    }
+
+    if (ttl <= 0) {
+      this.storage.removeItem(this.prefix + sessionId);
+    } else {
+      this.write(sessionId, { ...entry, expiresAt: Date.now() + ttl });
+    }
+  }
+
+  prune(maxAge: number, now: number): number {
+    let pruned = 0;
+    for (const key of this.ownKeys()) {
+      const entry = this.parse(this.storage.getItem(key));
+      if (!entry || isStale(entry, maxAge, now)) {
+        this.storage.removeItem(key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  clear(): void {
+    for (const key of this.ownKeys()) {
+      this.storage.removeItem(key);
+    }
+  }
+
+  /**
+   * Reads an entry, dropping it when it has expired or cannot be parsed
+   */
+  private read(sessionId: string): StoredEntry | null {
+    const key = this.prefix + sessionId;
+    const entry = this.parse(this.storage.getItem(key));
+
+    if (!entry || (entry.expiresAt !== undefined && Date.now() >= entry.expiresAt)) {
+      this.storage.removeItem(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private write(sessionId: string, entry: StoredEntry): void {
+    try {
+      this.storage.setItem(this.prefix + sessionId, JSON.stringify(entry));
+    } catch {
+      // Storage full or unavailable (e.g. private mode); fail open
+    }
+  }
+
+  private parse(value: string | null): StoredEntry | null {
+    if (!value) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(value) as StoredEntry;
+      return entry && typeof entry.record?.attempts === 'number' ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private ownKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
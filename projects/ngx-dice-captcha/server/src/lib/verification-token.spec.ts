@@ -0,0 +1,130 @@
+import {
+  VerificationTokenKey,
+  createVerificationTokenClaims,
+  decodeVerificationToken,
+  signVerificationToken,
+  verifyVerificationToken,
+} from './verification-token';
+import { InMemoryNonceStore } from './nonce-store';
+
+describe('verification-token', () => {
+  const audience = 'https://example.com';
+  const hmacKey: VerificationTokenKey = { alg: 'HS256', secret: 'test-secret' };
+
+  function claims(now = Date.now()) {
+    return createVerificationTokenClaims({
+      challengeId: 'challenge-1',
+      diceCount: 3,
+      audience,
+      ttl: 60 * 1000,
+      now,
+    });
+  }
+
+  describe('createVerificationTokenClaims', () => {
+    it('should set times in seconds and a random nonce', () => {
+      const a = claims(10_000);
+      const b = claims(10_000);
+
+      expect(a.iat).toBe(10);
+      expect(a.exp).toBe(70);
+      expect(a.cid).toBe('challenge-1');
+      expect(a.dice).toBe(3);
+      expect(a.nonce).not.toBe(b.nonce);
+    });
+  });
+
+  describe('HS256', () => {
+    it('should round-trip a signed token', async () => {
+      const token = await signVerificationToken(claims(), hmacKey);
+      const result = await verifyVerificationToken(token, hmacKey, { audience });
+
+      expect(token.split('.').length).toBe(3);
+      expect(result.valid).toBe(true);
+      expect(result.claims?.cid).toBe('challenge-1');
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      const token = await signVerificationToken(claims(), { alg: 'HS256', secret: 'other' });
+      const result = await verifyVerificationToken(token, hmacKey, { audience });
+
+      expect(result).toEqual({ valid: false, reason: 'invalid-signature' });
+    });
+
+    it('should reject a tampered payload', async () => {
+      const token = await signVerificationToken(claims(), hmacKey);
+      const [header, , signature] = token.split('.');
+      const forged = await signVerificationToken({ ...claims(), dice: 1 }, hmacKey);
+      const tampered = `${header}.${forged.split('.')[1]}.${signature}`;
+
+      const result = await verifyVerificationToken(tampered, hmacKey, { audience });
+      expect(result.reason).toBe('invalid-signature');
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await signVerificationToken(claims(0), hmacKey);
+      const result = await verifyVerificationToken(token, hmacKey, { audience });
+
+      expect(result.reason).toBe('expired');
+    });
+
+    it('should reject another audience', async () => {
+      const token = await signVerificationToken(claims(), hmacKey);
+      const result = await verifyVerificationToken(token, hmacKey, { audience: 'other' });
+
+      expect(result.reason).toBe('audience-mismatch');
+    });
+
+    it('should reject malformed tokens', async () => {
+      expect((await verifyVerificationToken('abc', hmacKey, { audience })).reason).toBe(
+        'malformed'
+      );
+      expect(decodeVerificationToken('a.b.c')).toBeNull();
+    });
+  });
+
+  describe('replay protection', () => {
+    it('should accept a token once when a nonce store is given', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const token = await signVerificationToken(claims(), hmacKey);
+
+      const first = await verifyVerificationToken(token, hmacKey, { audience, nonceStore });
+      const replay = await verifyVerificationToken(token, hmacKey, { audience, nonceStore });
+
+      expect(first.valid).toBe(true);
+      expect(replay.valid).toBe(false);
+      expect(replay.reason).toBe('already-used');
+    });
+
+    it('should not consume the nonce of a rejected token', async () => {
+      const nonceStore = new InMemoryNonceStore();
+      const token = await signVerificationToken(claims(), hmacKey);
+
+      await verifyVerificationToken(token, hmacKey, { audience: 'other', nonceStore });
+      const result = await verifyVerificationToken(token, hmacKey, { audience, nonceStore });
+
+      expect(result.valid).toBe(true);
+      expect(nonceStore.size).toBe(1);
+    });
+  });
+
+  describe('EdDSA', () => {
+    it('should verify with the public key and refuse an HS256 key', async () => {
+      const pair = (await crypto.subtle.generateKey({ name: 'Ed25519' }, false, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair;
+
+      const token = await signVerificationToken(claims(), { alg: 'EdDSA', key: pair.privateKey });
+      const valid = await verifyVerificationToken(
+        token,
+        { alg: 'EdDSA', key: pair.publicKey },
+        { audience }
+      );
+      const confused = await verifyVerificationToken(token, hmacKey, { audience });
+
+      expect(valid.valid).toBe(true);
+      expect(confused.reason).toBe('unsupported-algorithm');
+    });
+  });
+});
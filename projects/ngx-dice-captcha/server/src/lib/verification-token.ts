@@ -0,0 +1,353 @@
+/**
+ * Signed verification token utilities for dice CAPTCHA
+ * Issues and verifies compact JWS tokens (`header.payload.signature`) signed with
+ * HMAC-SHA256 (`HS256`) or Ed25519 (`EdDSA`).
+ *
+ * Only the Web Crypto API is used, so these functions run unchanged in browsers
+ * and in Node 20+ without Angular.
+ */
+
+import { NonceStore } from './nonce-store';
+
+/**
+ * Signature algorithms supported for verification tokens
+ */
+export type VerificationTokenAlgorithm = 'HS256' | 'EdDSA';
+
+/**
+ * Key used to sign or verify verification tokens.
+ *
+ * For `HS256` the same secret signs and verifies. For `EdDSA` pass the private
+ * key when signing and the public key when verifying.
+ */
+export type VerificationTokenKey =
+  | { alg: 'HS256'; secret: string | Uint8Array }
+  | { alg: 'EdDSA'; key: CryptoKey };
+
+/**
+ * Claims carried by a verification token.
+ * Times are in seconds since the epoch, as in JWT.
+ */
+export interface VerificationTokenClaims {
+  /** Identifier of the solved challenge */
+  cid: string;
+
+  /** Number of dice in the solved challenge */
+  dice: number;
+
+  /** Issued at (seconds since epoch) */
+  iat: number;
+
+  /** Expiry (seconds since epoch) */
+  exp: number;
+
+  /** Intended audience, usually the site or API origin */
+  aud: string;
+
+  /** Random value that makes every token unique; consumed on first verification */
+  nonce: string;
+}
+
+/**
+ * Reasons a verification token can be rejected
+ */
+export type TokenVerificationFailure =
+  | 'malformed'
+  | 'unsupported-algorithm'
+  | 'invalid-signature'
+  | 'expired'
+  | 'not-yet-valid'
+  | 'audience-mismatch'
+  | 'already-used';
+
+/**
+ * Result of verifying a token
+ */
+export interface TokenVerificationResult {
+  valid: boolean;
+  claims?: VerificationTokenClaims;
+  reason?: TokenVerificationFailure;
+}
+
+/**
+ * Options for verifying a token
+ */
+export interface TokenVerificationOptions {
+  /** Expected `aud` claim */
+  audience: string;
+
+  /** Current time in milliseconds (default: Date.now()) */
+  now?: number;
+
+  /** Allowed clock skew in seconds (default: 30) */
+  clockTolerance?: number;
+
+  /**
+   * Store that records consumed nonces. When set, a token verifies only once;
+   * later attempts fail with `already-used`.
+   */
+  nonceStore?: NonceStore;
+}
+
+/**
+ * Builds the claims for a freshly solved challenge.
+ *
+ * @param params - Challenge identifier, dice count, audience and lifetime in milliseconds
+ * @returns Claims with a random nonce
+ *
+ * @example
+ * ```typescript
+ * const claims = createVerificationTokenClaims({
+ *   challengeId: issued.challengeId,
+ *   diceCount: 3,
+ *   audience: 'https://example.com',
+ *   ttl: 5 * 60 * 1000,
+ * });
+ * ```
+ */
+export function createVerificationTokenClaims(params: {
+  challengeId: string;
+  diceCount: number;
+  audience: string;
+  ttl: number;
+  now?: number;
+}): VerificationTokenClaims {
+  const iat = Math.floor((params.now ?? Date.now()) / 1000);
+  const nonceBytes = new Uint8Array(16);
+  getCrypto().getRandomValues(nonceBytes);
+
+  return {
+    cid: params.challengeId,
+    dice: params.diceCount,
+    iat,
+    exp: iat + Math.ceil(params.ttl / 1000),
+    aud: params.audience,
+    nonce: base64UrlEncode(nonceBytes),
+  };
+}
+
+/**
+ * Signs claims into a compact token.
+ *
+ * @param claims - Claims to sign
+ * @param key - Signing key (HMAC secret or Ed25519 private key)
+ * @returns Token in `header.payload.signature` form
+ *
+ * @example
+ * ```typescript
+ * const token = await signVerificationToken(claims, { alg: 'HS256', secret: process.env.CAPTCHA_SECRET! });
+ * ```
+ */
+export async function signVerificationToken(
+  claims: VerificationTokenClaims,
+  key: VerificationTokenKey
+): Promise<string> {
+  const header = base64UrlEncode(encodeJson({ alg: key.alg, typ: 'JWT' }));
+  const payload = base64UrlEncode(encodeJson(claims));
+  const signingInput = `${header}.${payload}`;
+
+  const subtle = getCrypto().subtle;
+  const cryptoKey = await importKey(key, 'sign');
+  const signature = await subtle.sign(
+    algorithmParams(key.alg),
+    cryptoKey,
+    textEncoder.encode(signingInput)
+  );
+
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a token's signature, audience and validity window.
+ *
+ * The token's `alg` header must match the key, so a token cannot choose a
+ * weaker algorithm than the verifier expects. Pass `nonceStore` to make
+ * tokens single-use; the nonce is kept until the token would have expired.
+ *
+ * @param token - Token to verify
+ * @param key - Verification key (HMAC secret or Ed25519 public key)
+ * @param options - Expected audience, clock settings and optional nonce store
+ * @returns Verification result with claims when valid, or the failure reason
+ *
+ * @example
+ * ```typescript
+ * // In a Node API route
+ * const nonceStore = new InMemoryNonceStore();
+ *
+ * const result = await verifyVerificationToken(req.body.captchaToken, key, {
+ *   audience: 'https://example.com',
+ *   nonceStore,
+ * });
+ * if (!result.valid) {
+ *   return res.status(403).json({ error: result.reason });
+ * }
+ * ```
+ */
+export async function verifyVerificationToken(
+  token: string,
+  key: VerificationTokenKey,
+  options: TokenVerificationOptions
+): Promise<TokenVerificationResult> {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [header, payload, signature] = parts;
+  const decodedHeader = decodeJson(header);
+  const claims = decodeJson(payload);
+  if (!decodedHeader || !isClaims(claims)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (decodedHeader['alg'] !== key.alg) {
+    return { valid: false, reason: 'unsupported-algorithm' };
+  }
+
+  let signatureBytes: Uint8Array<ArrayBuffer>;
+  try {
+    signatureBytes = base64UrlDecode(signature);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const cryptoKey = await importKey(key, 'verify');
+  const signatureValid = await getCrypto().subtle.verify(
+    algorithmParams(key.alg),
+    cryptoKey,
+    signatureBytes,
+    textEncoder.encode(`${header}.${payload}`)
+  );
+  if (!signatureValid) {
+    return { valid: false, reason: 'invalid-signature' };
+  }
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const tolerance = options.clockTolerance ?? 30;
+
+  if (claims.aud !== options.audience) {
+    return { valid: false, reason: 'audience-mismatch' };
+  }
+
+  if (now > claims.exp + tolerance) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  if (claims.iat > now + tolerance) {
+    return { valid: false, reason: 'not-yet-valid' };
+  }
+
+  if (options.nonceStore) {
+    const ttl = (claims.exp + tolerance - now) * 1000;
+    if (!(await options.nonceStore.consume(`token:${claims.nonce}`, ttl))) {
+      return { valid: false, reason: 'already-used' };
+    }
+  }
+
+  return { valid: true, claims };
+}
+
+/**
+ * Reads a token's claims without verifying it.
+ * Never trust the result for access decisions; use {@link verifyVerificationToken}.
+ *
+ * @param token - Token to decode
+ * @returns Claims, or null if the token is malformed
+ */
+export function decodeVerificationToken(token: string): VerificationTokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const claims = decodeJson(parts[1]);
+  return isClaims(claims) ? claims : null;
+}
+
+/**
+ * Generates a random secret suitable for `HS256` tokens.
+ *
+ * @param byteLength - Secret length in bytes (default: 32)
+ * @returns Random secret
+ */
+export function generateTokenSecret(byteLength = 32): Uint8Array {
+  const secret = new Uint8Array(byteLength);
+  getCrypto().getRandomValues(secret);
+  return secret;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function getCrypto(): Crypto {
+  if (!globalThis.crypto || !globalThis.crypto.subtle) {
+    throw new Error('Web Crypto API not available');
+  }
+  return globalThis.crypto;
+}
+
+function algorithmParams(alg: VerificationTokenAlgorithm): AlgorithmIdentifier {
+  return alg === 'HS256' ? 'HMAC' : 'Ed25519';
+}
+
+async function importKey(key: VerificationTokenKey, usage: KeyUsage): Promise<CryptoKey> {
+  if (key.alg === 'EdDSA') {
+    return key.key;
+  }
+
+  const secret = typeof key.secret === 'string' ? textEncoder.encode(key.secret) : key.secret;
+  return getCrypto().subtle.importKey(
+    'raw',
+    new Uint8Array(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+function isClaims(
+  value: Record<string, unknown> | null
+): value is VerificationTokenClaims & Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value['cid'] === 'string' &&
+    typeof value['dice'] === 'number' &&
+    typeof value['iat'] === 'number' &&
+    typeof value['exp'] === 'number' &&
+    typeof value['aud'] === 'string' &&
+    typeof value['nonce'] === 'string'
+  );
+}
+
+function encodeJson(value: object): Uint8Array {
+  return textEncoder.encode(JSON.stringify(value));
+}
+
+function decodeJson(segment: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(textDecoder.decode(base64UrlDecode(segment)));
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(segment: string): Uint8Array<ArrayBuffer> {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,42 @@
+/*
+ * Public API Surface of ngx-dice-captcha/server
+ *
+ * Framework-free core shared by the Angular library and Node servers.
+ * Nothing exported here may depend on Angular, Three.js or the DOM;
+ * roll physics needs only cannon-es.
+ */
+
+// Server
+export * from './lib/dice-captcha-server';
+
+// Answer checking
+export * from './lib/answer-checker';
+
+// Challenges
+export * from './lib/challenge-generator';
+
+// Rate limiting
+export * from './lib/rate-limiter';
+export * from './lib/session-store';
+
+// Tokens and replay protection
+export * from './lib/verification-token';
+export * from './lib/nonce-store';
+
+// Dice shapes
+export * from './lib/dice-polyhedra';
+
+// Seeded rolls
+export * from './lib/seeded-random';
+export * from './lib/roll-physics';
+export * from './lib/roll-simulator';
+
+// Models
+export * from './lib/models/dice-type.model';
+export * from './lib/models/dice-set.model';
+export * from './lib/models/challenge.model';
+export * from './lib/models/dice-color.model';
+export * from './lib/models/verification-result.model';
+export * from './lib/models/verification-mode.model';
+export * from './lib/models/captcha-backend.model';
+export * from './lib/models/physics-config.model';
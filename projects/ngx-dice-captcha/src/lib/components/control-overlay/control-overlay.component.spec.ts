@@ -0,0 +1,270 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ControlOverlayComponent } from './control-overlay.component';
+import { VerificationMode } from '../../models/verification-mode.model';
+import { DiceType } from '../../models/dice.model';
+import { Difficulty, OperationType } from '../../models/challenge.model';
+
+describe('ControlOverlayComponent - Answer Grid', () => {
+  let component: ControlOverlayComponent;
+  let fixture: ComponentFixture<ControlOverlayComponent>;
+
+  const thumbnails = Array.from({ length: 6 }, (_, i) => `data:image/png;base64,face${i + 1}`);
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ControlOverlayComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ControlOverlayComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('diceCount', 2);
+    fixture.componentRef.setInput('diceRolled', true);
+    fixture.componentRef.setInput('verificationMode', VerificationMode.INDIVIDUAL_DICE);
+    fixture.componentRef.setInput('diceInputStyle', 'choice');
+    fixture.componentRef.setInput('faceThumbnails', [thumbnails, thumbnails]);
+    spyOn(console, 'warn');
+  });
+
+  function getRadios(die: number): HTMLButtonElement[] {
+    const group = fixture.nativeElement.querySelectorAll('[role="radiogroup"]')[die];
+    return Array.from(group.querySelectorAll('[role="radio"]'));
+  }
+
+  it('should show a face thumbnail for every face of each die instead of text fields', async () => {
+    await fixture.whenStable();
+
+    expect(fixture.nativeElement.querySelector('.dice-input')).toBeNull();
+    expect(getRadios(0).length).toBe(6);
+    expect(getRadios(1)[2].querySelector('img')?.getAttribute('src')).toBe(thumbnails[2]);
+  });
+
+  it('should offer as many faces as each die of a mixed set has', async () => {
+    fixture.componentRef.setInput('diceTypes', [DiceType.D4, DiceType.D8]);
+    fixture.componentRef.setInput('faceThumbnails', []);
+    await fixture.whenStable();
+
+    expect(getRadios(0).length).toBe(4);
+    expect(getRadios(1).length).toBe(8);
+    expect(getRadios(1)[7].textContent?.trim()).toBe('8');
+  });
+
+  it('should report the picked faces through verifyClicked', async () => {
+    const emitted = spyOn(component.verifyClicked, 'emit');
+    await fixture.whenStable();
+
+    getRadios(0)[4].click();
+    getRadios(1)[1].click();
+    await fixture.whenStable();
+    component.onVerify();
+
+    expect(getRadios(0)[4].getAttribute('aria-checked')).toBe('true');
+    expect(emitted).toHaveBeenCalledWith({ diceValues: [5, 2], sum: 7 });
+  });
+
+  it('should check the next face with the arrow keys, wrapping around', async () => {
+    await fixture.whenStable();
+    const radios = getRadios(0);
+
+    radios[0].dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowLeft', bubbles: true }));
+    await fixture.whenStable();
+
+    expect(component.diceInputs()).toEqual([6, null]);
+    expect(radios[5].getAttribute('tabindex')).toBe('0');
+    expect(radios[0].getAttribute('tabindex')).toBe('-1');
+  });
+
+  it('should disable the controls while disabled', async () => {
+    fixture.componentRef.setInput('disabled', true);
+    await fixture.whenStable();
+    getRadios(0)[2].click();
+
+    expect(getRadios(0).every((radio) => radio.disabled)).toBeTrue();
+    expect(component.diceInputs()).toEqual([null, null]);
+    expect(component.canRoll()).toBeFalse();
+  });
+});
+
+describe('ControlOverlayComponent - Audio Challenge', () => {
+  let component: ControlOverlayComponent;
+  let fixture: ComponentFixture<ControlOverlayComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ControlOverlayComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ControlOverlayComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('diceCount', 3);
+    fixture.componentRef.setInput('diceRolled', true);
+    fixture.componentRef.setInput('audioAvailable', true);
+    fixture.componentRef.setInput('audioMode', true);
+    spyOn(console, 'warn');
+  });
+
+  it('should replace the dice and sum fields with one field for the values heard', async () => {
+    await fixture.whenStable();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('.audio-input')).not.toBeNull();
+    expect(element.querySelector('.dice-input')).toBeNull();
+    expect(element.querySelector('.sum-input:not(.audio-input)')).toBeNull();
+    expect(element.querySelector('.btn-audio')?.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('should read the values heard, with or without separators', () => {
+    const emitted = spyOn(component.verifyClicked, 'emit');
+
+    component.audioInput.set('4, 1 6');
+    component.onVerify();
+    component.audioInput.set('253');
+    component.onVerify();
+
+    expect(emitted).toHaveBeenCalledWith({ diceValues: [4, 1, 6], sum: 11 });
+    expect(emitted).toHaveBeenCalledWith({ diceValues: [2, 5, 3], sum: 10 });
+  });
+
+  it('should not verify a value the dice cannot show', () => {
+    component.audioInput.set('4 7 1');
+
+    expect(component.canVerify()).toBeFalse();
+  });
+
+  it('should ask to play the audio and to switch it off', async () => {
+    const played = spyOn(component.playAudioClicked, 'emit');
+    const toggled = spyOn(component.audioModeChange, 'emit');
+    await fixture.whenStable();
+    const element: HTMLElement = fixture.nativeElement;
+
+    element.querySelector<HTMLButtonElement>('.btn-play-audio')!.click();
+    element.querySelector<HTMLButtonElement>('.btn-audio')!.click();
+
+    expect(played).toHaveBeenCalled();
+    expect(toggled).toHaveBeenCalledWith(false);
+  });
+
+  it('should offer to read the dice in secure mode', async () => {
+    const revealed = spyOn(component.revealClicked, 'emit');
+    fixture.componentRef.setInput('audioMode', false);
+    fixture.componentRef.setInput('revealAvailable', true);
+    await fixture.whenStable();
+
+    fixture.nativeElement.querySelector('.btn-reveal').click();
+
+    expect(revealed).toHaveBeenCalled();
+  });
+});
+
+describe('ControlOverlayComponent - Sorting Challenge', () => {
+  let component: ControlOverlayComponent;
+  let fixture: ComponentFixture<ControlOverlayComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ControlOverlayComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ControlOverlayComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('diceCount', 3);
+    fixture.componentRef.setInput('diceRolled', true);
+    fixture.componentRef.setInput('verificationMode', VerificationMode.CHALLENGE);
+    fixture.componentRef.setInput('challenge', {
+      id: 'sorted',
+      difficulty: Difficulty.HARD,
+      operation: OperationType.SORTED_ASCENDING,
+      diceCount: 3,
+      description: 'Enter the dice values sorted from lowest to highest',
+    });
+    spyOn(console, 'warn');
+  });
+
+  it('should send the sorted values typed in the answer field as dice values', () => {
+    const emitted = spyOn(component.verifyClicked, 'emit');
+
+    component.updateAnswerInput('2 3 5');
+    component.onVerify();
+    component.updateAnswerInput('235');
+    component.onVerify();
+
+    expect(emitted).toHaveBeenCalledWith({ diceValues: [2, 3, 5], sum: 10 });
+    expect(emitted.calls.count()).toBe(2);
+  });
+
+  it('should keep two-digit values apart', () => {
+    const emitted = spyOn(component.verifyClicked, 'emit');
+    fixture.componentRef.setInput('diceType', DiceType.D20);
+
+    component.updateAnswerInput('1, 2, 12');
+    component.onVerify();
+    component.updateAnswerInput('1212');
+
+    expect(emitted).toHaveBeenCalledWith({ diceValues: [1, 2, 12], sum: 15 });
+    expect(component.canVerify()).toBeFalse();
+  });
+
+  it('should separate D20 values typed from the keyboard', () => {
+    const emitted = spyOn(component.verifyClicked, 'emit');
+    fixture.componentRef.setInput('diceType', DiceType.D20);
+
+    [1, 8, 3].forEach((digit) => component.typeKeyboardDigit(0, digit));
+    expect(component.answerText()).toBe('18 3');
+
+    component.updateAnswerInput('');
+    component.typeKeyboardDigit(0, 1);
+    component.endKeyboardValue();
+    [2, 5].forEach((digit) => component.typeKeyboardDigit(0, digit));
+    component.onVerify();
+
+    expect(component.answerText()).toBe('1 2 5');
+    expect(emitted).toHaveBeenCalledWith({ diceValues: [1, 2, 5], sum: 8 });
+  });
+});
+
+describe('ControlOverlayComponent - Keyboard Play', () => {
+  let component: ControlOverlayComponent;
+  let fixture: ComponentFixture<ControlOverlayComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ControlOverlayComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ControlOverlayComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('diceCount', 2);
+    fixture.componentRef.setInput('diceTypes', [DiceType.D6, DiceType.D12]);
+    fixture.componentRef.setInput('diceRolled', true);
+    spyOn(console, 'warn');
+  });
+
+  it('should target each die, then the sum', () => {
+    expect(component.keyboardTargetCount()).toBe(3);
+
+    fixture.componentRef.setInput('verificationMode', VerificationMode.CALCULATION_ONLY);
+    expect(component.keyboardTargetCount()).toBe(1);
+  });
+
+  it('should report a die complete once no further digit fits', () => {
+    expect(component.typeKeyboardDigit(0, 4)).toBeTrue();
+    expect(component.typeKeyboardDigit(1, 1)).toBeFalse();
+    expect(component.typeKeyboardDigit(1, 1)).toBeTrue();
+    component.typeKeyboardDigit(2, 1);
+    component.typeKeyboardDigit(2, 5);
+
+    expect(component.diceInputs()).toEqual([4, 11]);
+    expect(component.sumInput()).toBe(15);
+  });
+
+  it('should clear a die, or the last digit of the sum', () => {
+    component.typeKeyboardDigit(0, 4);
+    component.typeKeyboardDigit(2, 1);
+    component.typeKeyboardDigit(2, 5);
+
+    component.clearKeyboardTarget(0);
+    component.clearKeyboardTarget(2);
+
+    expect(component.diceInputs()[0]).toBeNull();
+    expect(component.sumInput()).toBe(1);
+  });
+});
@@ -19,6 +19,12 @@ import { MatInputModule } from '@angular/material/input';
 import { MatIconModule } from '@angular/material/icon';
 import { MatCardModule } from '@angular/material/card';
 import { FormFocusFlowDirective } from '../../directives/form-focus-flow.directive';
+import { DICE_CAPTCHA_I18N_TOKEN } from '../../tokens/dice-captcha-i18n.token';
+import { VerificationMode } from '../../models/verification-mode.model';
+import { Challenge, OperationType } from '../../models/challenge.model';
+import { DICE_FACE_COUNT, DiceType } from '../../models/dice.model';
+import { FaceRenderer } from '../../models/face-renderer.model';
+import { renderFaceSymbolImage } from '../../utils/face-renderer.util';
 
 /**
  * Layout mode for control overlay.
@@ -32,7 +38,8 @@ type ControlOverlayLayoutMode = 'vertical' | 'horizontal';
  *
  * Provides a glassmorphism-styled overlay with:
  * - Roll dice button
- * - Individual dice input fields (after roll)
+ * - Individual dice and/or sum input fields (after roll), per verification mode
+ * - Challenge question, hint and answer field in CHALLENGE mode
  * - Verify button (enabled when all inputs are valid)
  * - Responsive positioning (top-left, top-right, bottom-left, bottom-right)
  * - Horizontal/vertical layout switching for mobile
@@ -75,6 +82,39 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
    */
   diceCount = input.required<number>();
 
+  /**
+   * Type of dice rolled, which bounds the values that can be entered
+   * @since 2.4.0
+   */
+  diceType = input<DiceType>(DiceType.D6);
+
+  /**
+   * Type of each die for a mixed set, in dice order; dice without an entry use
+   * `diceType`
+   * @since 2.4.0
+   */
+  diceTypes = input<DiceType[]>([]);
+
+  /**
+   * Draws the dice faces; when set, each die's value is picked from a palette
+   * of its symbols instead of typed
+   * @since 2.4.0
+   */
+  faceRenderer = input<FaceRenderer | null>(null);
+
+  /**
+   * Whether dice values are typed or picked from a grid of face thumbnails
+   * @since 2.4.0
+   */
+  diceInputStyle = input<'text' | 'choice'>('text');
+
+  /**
+   * Face thumbnail image URLs of each die, in dice order and face value order,
+   * shown in the answer grid
+   * @since 2.4.0
+   */
+  faceThumbnails = input<string[][]>([]);
+
   /**
    * Whether dice are currently rolling
    */
@@ -107,15 +147,102 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
    */
   cooldownTimeRemaining = input<number>(0);
 
+  /**
+   * Seconds left on the challenge clock; null hides the countdown
+   * @since 2.4.0
+   */
+  timeRemaining = input<number | null>(null);
+
+  /**
+   * Whether the challenge expired and is locked until reset
+   * @since 2.4.0
+   */
+  isExpired = input<boolean>(false);
+
+  /**
+   * Whether the controls are disabled, e.g. by a disabled form control
+   * @since 2.4.0
+   */
+  disabled = input<boolean>(false);
+
+  /**
+   * Round being played, from 1
+   * @since 2.4.0
+   */
+  round = input<number>(1);
+
+  /**
+   * Rounds to pass; the progress is shown when there is more than one
+   * @since 2.4.0
+   */
+  totalRounds = input<number>(1);
+
+  /**
+   * Which answer fields to show: dice only, sum only, or dice plus sum
+   * @since 2.4.0
+   */
+  verificationMode = input<VerificationMode>(VerificationMode.BOTH);
+
+  /**
+   * Challenge whose description and hint are shown in CHALLENGE mode
+   * @since 2.4.0
+   */
+  challenge = input<Challenge | null>(null);
+
+  /**
+   * Whether the audio challenge can be selected
+   * @since 2.4.0
+   */
+  audioAvailable = input<boolean>(false);
+
+  /**
+   * Whether the audio challenge is selected; dice values are then typed as
+   * heard in a single field
+   * @since 2.4.0
+   */
+  audioMode = input<boolean>(false);
+
+  /**
+   * Whether the audio challenge is playing
+   * @since 2.4.0
+   */
+  audioPlaying = input<boolean>(false);
+
+  /**
+   * Whether to offer reading the settled dice to screen readers (secure mode)
+   * @since 2.4.0
+   */
+  revealAvailable = input<boolean>(false);
+
   /**
    * Emitted when the roll button is clicked
    */
   rollClicked = output<void>();
 
   /**
-   * Emitted when the verify button is clicked with dice values and sum
+   * Emitted when the audio challenge is switched on or off
+   * @since 2.4.0
+   */
+  audioModeChange = output<boolean>();
+
+  /**
+   * Emitted when the play button of the audio challenge is clicked
+   * @since 2.4.0
+   */
+  playAudioClicked = output<void>();
+
+  /**
+   * Emitted when the button that reads the dice in secure mode is clicked
+   * @since 2.4.0
+   */
+  revealClicked = output<void>();
+
+  /**
+   * Emitted when the verify button is clicked with dice values and sum.
+   * `diceValues` is empty in CALCULATION_ONLY mode; `sum` adds up the entered
+   * dice in INDIVIDUAL_DICE mode. In CHALLENGE mode only `answer` is filled in.
    */
-  verifyClicked = output<{ diceValues: number[]; sum: number }>();
+  verifyClicked = output<{ diceValues: number[]; sum: number; answer?: number }>();
 
   /**
    * Emitted when the re-roll button is clicked (after dice have been rolled)
@@ -149,7 +276,69 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
   canvasHeight = input<number>(600);
 
   /**
-   * Array of dice input values (1-6)
+   * Type of each die, in dice order
+   * @since 2.4.0
+   */
+  dieTypes = computed(() =>
+    Array.from({ length: this.diceCount() }, (_, i) => this.diceTypes()[i] ?? this.diceType())
+  );
+
+  /**
+   * Highest face value of each die, in dice order
+   * @since 2.4.0
+   */
+  maxFaceValues = computed(() => this.dieTypes().map((type) => DICE_FACE_COUNT[type]));
+
+  /**
+   * Number of digits each die's value can have, in dice order
+   * @since 2.4.0
+   */
+  faceValueDigits = computed(() => this.maxFaceValues().map((max) => String(max).length));
+
+  /**
+   * Whether each die's value is picked from a grid of its faces instead of typed
+   * @since 2.4.0
+   */
+  showChoiceGrid = computed(
+    () =>
+      this.showDiceInputs() && (this.faceRenderer() !== null || this.diceInputStyle() === 'choice')
+  );
+
+  /**
+   * Faces to pick from for each die, in face value order. Each option shows the
+   * die's face thumbnail, or its glyph or number until thumbnails are available.
+   * @since 2.4.0
+   */
+  choicePalettes = computed(() => {
+    const renderer = this.faceRenderer();
+    const thumbnails = this.faceThumbnails();
+
+    return this.dieTypes().map((type, die) =>
+      Array.from({ length: DICE_FACE_COUNT[type] }, (_, i) => {
+        const symbol = renderer?.getSymbol(i + 1, type);
+        const drawn = symbol && !symbol.glyph;
+        return {
+          value: i + 1,
+          name: symbol?.name ?? String(i + 1),
+          glyph: symbol ? symbol.glyph : String(i + 1),
+          image: thumbnails[die]?.[i] ?? (drawn ? renderFaceSymbolImage(symbol) : undefined),
+        };
+      })
+    );
+  });
+
+  /**
+   * Accessible label of each dice value field. A mixed set names the die's type.
+   * @since 2.4.0
+   */
+  diceInputLabels = computed(() => {
+    const types = this.dieTypes();
+    const mixed = new Set(types).size > 1;
+    return types.map((type, i) => `Enter value for die ${i + 1}` + (mixed ? ` (${type})` : ''));
+  });
+
+  /**
+   * Array of dice input values (1 to the dice's face count)
    * Automatically updates when diceCount changes
    */
   diceInputs = linkedSignal(() => Array(this.diceCount()).fill(null));
@@ -159,20 +348,127 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
    */
   sumInput = signal<number | null>(null);
 
+  /**
+   * User's answer to the challenge question
+   * @since 2.4.0
+   */
+  answerInput = signal<number | null>(null);
+
+  /**
+   * Whether the challenge asks for the dice values sorted ascending, which are
+   * typed as separate numbers in the answer field
+   * @since 2.4.0
+   */
+  sortedAnswer = computed(() => this.challenge()?.operation === OperationType.SORTED_ASCENDING);
+
+  /**
+   * Numbers typed in the answer field of a sorting challenge
+   * @since 2.4.0
+   */
+  answerText = signal<string>('');
+
+  /**
+   * Values read from the answer field of a sorting challenge, in the order typed
+   * @since 2.4.0
+   */
+  answerValues = computed(() => this.readValues(this.answerText()));
+
+  /**
+   * Numbers typed in the audio challenge field
+   * @since 2.4.0
+   */
+  audioInput = signal<string>('');
+
+  /**
+   * Dice values read from the audio challenge field
+   * @since 2.4.0
+   */
+  audioValues = computed(() => this.readValues(this.audioInput()));
+
+  /**
+   * Whether the audio challenge field replaces the dice value and sum fields.
+   * CHALLENGE mode keeps its question and answer field.
+   * @since 2.4.0
+   */
+  showAudioInput = computed(() => this.audioMode() && !this.showChallenge());
+
   /**
    * Whether the roll button can be clicked
    */
-  canRoll = computed(() => !this.isRolling() && !this.isInCooldown());
+  canRoll = computed(
+    () => !this.isRolling() && !this.isInCooldown() && !this.isExpired() && !this.disabled()
+  );
+
+  /**
+   * Whether the dice value fields are shown
+   * @since 2.4.0
+   */
+  showDiceInputs = computed(() =>
+    [VerificationMode.INDIVIDUAL_DICE, VerificationMode.BOTH].includes(this.verificationMode())
+  );
+
+  /**
+   * Whether the sum field is shown
+   * @since 2.4.0
+   */
+  showSumInput = computed(() =>
+    [VerificationMode.CALCULATION_ONLY, VerificationMode.BOTH].includes(this.verificationMode())
+  );
+
+  /**
+   * Whether the challenge question and answer field are shown
+   * @since 2.4.0
+   */
+  showChallenge = computed(() => this.verificationMode() === VerificationMode.CHALLENGE);
+
+  /**
+   * Whether keyboard play targets one die at a time, rather than the single
+   * answer field of the audio challenge, CHALLENGE or CALCULATION_ONLY mode
+   * @since 2.4.0
+   */
+  keyboardTargetsDice = computed(() => this.showDiceInputs() && !this.showAudioInput());
+
+  /**
+   * Number of fields keyboard play moves between: each die, then the sum in
+   * BOTH mode; or the single answer field
+   * @since 2.4.0
+   */
+  keyboardTargetCount = computed(() =>
+    this.keyboardTargetsDice() ? this.diceCount() + (this.showSumInput() ? 1 : 0) : 1
+  );
+
+  /**
+   * Accessible label of the verify button, naming the fields being checked
+   * @since 2.4.0
+   */
+  verifyLabel = computed(() => {
+    if (this.showChallenge()) return 'Verify your answer';
+    if (!this.showDiceInputs()) return 'Verify your sum';
+    return this.showSumInput() ? 'Verify your dice values and sum' : 'Verify your dice values';
+  });
 
   /**
    * Whether the verify button can be clicked
    */
   canVerify = computed(() => {
+    if (this.disabled()) return false;
+    if (this.showChallenge()) {
+      return this.sortedAnswer()
+        ? this.answerValues().length === this.diceCount()
+        : this.answerInput() !== null;
+    }
+    const max = this.maxFaceValues();
+    if (this.showAudioInput()) {
+      const heard = this.audioValues();
+      return (
+        heard.length === this.diceCount() && heard.every((val, i) => val >= 1 && val <= max[i])
+      );
+    }
     const inputs = this.diceInputs();
     if (inputs.length !== this.diceCount()) return false;
-    const allDiceValid = inputs.every((val) => val !== null && val >= 1 && val <= 6);
+    const allDiceValid = inputs.every((val, i) => val !== null && val >= 1 && val <= max[i]);
     const sumValid = this.sumInput() !== null && this.sumInput()! > 0;
-    return allDiceValid && sumValid;
+    return (!this.showDiceInputs() || allDiceValid) && (!this.showSumInput() || sumValid);
   });
 
   /**
@@ -203,6 +499,12 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
 
   private elementRef = inject(ElementRef);
 
+  /**
+   * Translatable strings for the countdown and expiry message
+   * @since 2.4.0
+   */
+  readonly i18n = inject(DICE_CAPTCHA_I18N_TOKEN);
+
   /**
    * Signal to trigger auto-focus when dice are rolled
    */
@@ -358,11 +660,34 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
    * Handle verify button click
    */
   onVerify(): void {
-    if (this.canVerify()) {
-      const values = this.diceInputs().filter((v): v is number => v !== null);
-      const sum = this.sumInput()!;
-      this.verifyClicked.emit({ diceValues: values, sum });
+    if (!this.canVerify()) {
+      return;
+    }
+
+    if (this.showChallenge() && this.sortedAnswer()) {
+      const sorted = this.answerValues();
+      this.verifyClicked.emit({ diceValues: sorted, sum: sorted.reduce((a, b) => a + b, 0) });
+      return;
+    }
+
+    if (this.showChallenge()) {
+      this.verifyClicked.emit({ diceValues: [], sum: 0, answer: this.answerInput()! });
+      return;
+    }
+
+    if (this.showAudioInput()) {
+      const heard = this.audioValues();
+      this.verifyClicked.emit({ diceValues: heard, sum: heard.reduce((a, b) => a + b, 0) });
+      return;
     }
+
+    const values = this.showDiceInputs()
+      ? this.diceInputs().filter((v): v is number => v !== null)
+      : [];
+    const sum = this.showSumInput()
+      ? this.sumInput()!
+      : values.reduce((total, val) => total + val, 0);
+    this.verifyClicked.emit({ diceValues: values, sum });
   }
 
   /**
@@ -388,38 +713,146 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Update a specific dice input value (single digit only)
+   * Update the challenge answer (accepts multiple digits, including 0). Sorting
+   * challenges keep the typed text, so values can be separated
+   * @since 2.4.0
    */
-  updateDiceInput(index: number, value: string): void {
-    // Extract only the last digit entered
-    const cleanValue = value.replace(/[^1-6]/g, '');
-    const lastDigit = cleanValue.slice(-1);
-
-    if (lastDigit === '') {
-      const currentInputs = [...this.diceInputs()];
-      currentInputs[index] = null;
-      this.diceInputs.set(currentInputs);
+  updateAnswerInput(value: string): void {
+    if (this.sortedAnswer()) {
+      this.answerText.set(value);
+      return;
+    }
+
+    const cleanValue = value.replace(/[^0-9]/g, '');
+
+    if (cleanValue === '') {
+      this.answerInput.set(null);
       return;
     }
 
-    const numValue = parseInt(lastDigit, 10);
+    const numValue = parseInt(cleanValue, 10);
 
-    // Validate range (1-6)
-    if (numValue < 1 || numValue > 6) {
+    // Validate reasonable range (0 to 9999)
+    if (numValue > 9999) {
       return;
     }
 
+    this.answerInput.set(numValue);
+  }
+
+  /**
+   * Update a specific dice input value (up to the digits of the die's highest face)
+   */
+  updateDiceInput(index: number, value: string): void {
+    const max = this.maxFaceValues()[index];
+
+    // Keep only the last digits entered
+    const digits = value.replace(/[^0-9]/g, '').slice(-this.faceValueDigits()[index]);
+    let numValue = digits === '' ? null : parseInt(digits, 10);
+
+    // Typing past the die's highest face starts a new value
+    if (numValue !== null && numValue > max) {
+      numValue = parseInt(digits.slice(-1), 10);
+    }
+
+    // Validate range (1 to the die's face count)
+    if (numValue !== null && (numValue < 1 || numValue > max)) {
+      numValue = null;
+    }
+
     const currentInputs = [...this.diceInputs()];
     currentInputs[index] = numValue;
     this.diceInputs.set(currentInputs);
   }
 
+  /**
+   * Type a digit from keyboard play into the targeted field: a die, whose value
+   * may take two digits, or the sum or single answer field, which grow
+   * @returns Whether the die is complete, so the next field can be targeted
+   * @since 2.4.0
+   */
+  typeKeyboardDigit(target: number, digit: number): boolean {
+    if (this.disabled()) return false;
+
+    if (this.showAudioInput()) {
+      this.audioInput.update((value) => this.appendValueDigit(value, digit));
+    } else if (this.showChallenge() && this.sortedAnswer()) {
+      this.answerText.update((value) => this.appendValueDigit(value, digit));
+    } else if (this.showChallenge()) {
+      this.updateAnswerInput(`${this.answerInput() ?? ''}${digit}`);
+    } else if (!this.keyboardTargetsDice() || target >= this.diceCount()) {
+      this.updateSumInput(`${this.sumInput() ?? ''}${digit}`);
+    } else {
+      this.updateDiceInput(target, `${this.diceInputs()[target] ?? ''}${digit}`);
+      const value = this.diceInputs()[target];
+      return value !== null && value * 10 > this.maxFaceValues()[target];
+    }
+    return false;
+  }
+
+  /**
+   * End the value being typed in the audio or sorting answer field, so the next
+   * digit starts a new value
+   * @since 2.4.0
+   */
+  endKeyboardValue(): void {
+    if (this.disabled()) return;
+
+    const separate = (value: string) => (/\d$/.test(value) ? `${value} ` : value);
+    if (this.showAudioInput()) {
+      this.audioInput.update(separate);
+    } else if (this.showChallenge() && this.sortedAnswer()) {
+      this.answerText.update(separate);
+    }
+  }
+
+  /**
+   * Clear the targeted die, or the last digit of the sum or single answer field
+   * @since 2.4.0
+   */
+  clearKeyboardTarget(target: number): void {
+    if (this.disabled()) return;
+
+    if (this.showAudioInput()) {
+      this.audioInput.update((value) => value.trimEnd().slice(0, -1));
+    } else if (this.showChallenge() && this.sortedAnswer()) {
+      this.answerText.update((value) => value.trimEnd().slice(0, -1));
+    } else if (this.showChallenge()) {
+      this.updateAnswerInput(String(this.answerInput() ?? '').slice(0, -1));
+    } else if (!this.keyboardTargetsDice() || target >= this.diceCount()) {
+      this.updateSumInput(String(this.sumInput() ?? '').slice(0, -1));
+    } else {
+      this.updateDiceInput(target, '');
+    }
+  }
+
+  /**
+   * Switch the audio challenge on or off
+   * @since 2.4.0
+   */
+  toggleAudioMode(): void {
+    this.audioModeChange.emit(!this.audioMode());
+  }
+
+  /**
+   * Pick the face or symbol a die shows from the answer grid
+   * @since 2.4.0
+   */
+  selectDiceFace(index: number, value: number): void {
+    const currentInputs = [...this.diceInputs()];
+    currentInputs[index] = value;
+    this.diceInputs.set(currentInputs);
+  }
+
   /**
    * Reset the control overlay to initial state
    */
   reset(): void {
     this.diceInputs.set(Array(this.diceCount()).fill(null));
     this.sumInput.set(null);
+    this.answerInput.set(null);
+    this.answerText.set('');
+    this.audioInput.set('');
     this.shouldAutoFocus.set(false);
   }
 
@@ -444,12 +877,50 @@ export class ControlOverlayComponent implements OnInit, OnDestroy {
    * Format cooldown time remaining as MM:SS
    */
   formatCooldownTime(): string {
-    const seconds = this.cooldownTimeRemaining();
+    return this.formatSeconds(this.cooldownTimeRemaining());
+  }
+
+  /**
+   * Format challenge time remaining as MM:SS
+   * @since 2.4.0
+   */
+  formatTimeRemaining(): string {
+    return this.formatSeconds(this.timeRemaining() ?? 0);
+  }
+
+  private formatSeconds(seconds: number): string {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   }
 
+  /**
+   * Append a typed digit to a field of dice values, starting a new value when
+   * the digit cannot extend the last one to a face the dice can show
+   */
+  private appendValueDigit(text: string, digit: number): string {
+    const last = text.match(/(\d+)$/);
+    const highestFace = Math.max(...this.maxFaceValues());
+    if (last && parseInt(last[1], 10) * 10 + digit > highestFace) {
+      return `${text} ${digit}`;
+    }
+    return text + digit;
+  }
+
+  /**
+   * Read dice values from typed text. Numbers are separated by any non-digit;
+   * digits typed without separators are one value each when every die has
+   * fewer than ten faces.
+   */
+  private readValues(text: string): number[] {
+    const numbers = text.match(/\d+/g) ?? [];
+    const singleDigits = this.maxFaceValues().every((max) => max < 10);
+    if (numbers.length === 1 && singleDigits && this.diceCount() > 1) {
+      return [...numbers[0]].map(Number);
+    }
+    return numbers.map(Number);
+  }
+
   /**
    * Calculate optimal overlay position based on available space and overlaps
    * Requirements: 5.3, 5.4, 5.5, 5.6, 5.7
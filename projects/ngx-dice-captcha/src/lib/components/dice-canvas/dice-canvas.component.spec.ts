@@ -1,8 +1,17 @@
-import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { ComponentFixture, TestBed, fakeAsync, flush, tick } from '@angular/core/testing';
+import { ROLL_TIMESTEP, getUpwardFaceValue, simulateRoll } from 'ngx-dice-captcha/server';
 import { DiceCanvasComponent } from './dice-canvas.component';
 import { ThreeRendererService } from '../../services/three-renderer.service';
 import { PhysicsEngineService } from '../../services/physics-engine.service';
 import { DiceFactoryService } from '../../services/dice-factory.service';
+import {
+  DEFAULT_THEME_CONFIG,
+  HIGH_CONTRAST_THEME_CONFIG,
+} from '../../models/captcha-config.model';
+import { DEFAULT_VALUE_REVEAL } from '../../models/value-reveal.model';
+import { Difficulty, OperationType } from '../../models/challenge.model';
+import { Dice, DiceType } from '../../models/dice.model';
+import * as CANNON from 'cannon-es';
 
 describe('DiceCanvasComponent - Race Conditions & Memory Management', () => {
   let component: DiceCanvasComponent;
@@ -308,4 +317,235 @@ describe('DiceCanvasComponent - Race Conditions & Memory Management', () => {
       (component as any).isResizeProcessing = false;
     }));
   });
+
+  describe('Theme', () => {
+    const container = (): HTMLElement =>
+      fixture.nativeElement.querySelector('.dice-canvas-container');
+
+    it('should expose the default theme as CSS custom properties', () => {
+      fixture.detectChanges();
+
+      const style = container().style;
+      expect(style.getPropertyValue('--ngx-dice-captcha-primary')).toBe('#667eea');
+      expect(style.getPropertyValue('--ngx-dice-captcha-background')).toBe('#fff8e7');
+      expect(style.getPropertyValue('--ngx-dice-captcha-primary-end')).toBe('');
+    });
+
+    it('should update CSS custom properties when the theme changes', () => {
+      fixture.detectChanges();
+
+      fixture.componentRef.setInput('theme', {
+        ...DEFAULT_THEME_CONFIG,
+        primaryColor: '#e91e63',
+        backgroundColor: '#202020',
+      });
+      fixture.detectChanges();
+
+      const style = container().style;
+      expect(style.getPropertyValue('--ngx-dice-captcha-primary')).toBe('#e91e63');
+      expect(style.getPropertyValue('--ngx-dice-captcha-background')).toBe('#202020');
+      expect(style.getPropertyValue('--ngx-dice-captcha-primary-end')).toContain('#e91e63');
+    });
+
+    it('should toggle shadows and ambient light on the live scene', () => {
+      const renderer = fixture.debugElement.injector.get(ThreeRendererService);
+      spyOn(renderer, 'setShadowsEnabled');
+      spyOn(renderer, 'setAmbientLightEnabled');
+      spyOn(fixture.debugElement.injector.get(PhysicsEngineService), 'applyPhysicsConfig');
+      component.isInitialized.set(true);
+
+      fixture.componentRef.setInput('theme', {
+        ...DEFAULT_THEME_CONFIG,
+        enableShadows: false,
+        enableAmbientLight: false,
+      });
+      fixture.detectChanges();
+
+      expect(renderer.setShadowsEnabled).toHaveBeenCalledWith(false);
+      expect(renderer.setAmbientLightEnabled).toHaveBeenCalledWith(false);
+    });
+  });
+
+  describe('Dice identity', () => {
+    const challenge = {
+      id: 'c',
+      difficulty: Difficulty.EASY,
+      operation: OperationType.DIE_VALUE,
+      diceCount: 2,
+      description: 'What does the blue die show?',
+    };
+
+    it('should color-code the dice only for challenges that name a color', () => {
+      expect(component.colorCodedDice()).toBeFalse();
+
+      fixture.componentRef.setInput('challenge', { ...challenge, targetPosition: 1 });
+      expect(component.colorCodedDice()).toBeFalse();
+
+      fixture.componentRef.setInput('challenge', { ...challenge, targetColor: 'blue' });
+      expect(component.colorCodedDice()).toBeTrue();
+    });
+  });
+
+  describe('Seeded rolls', () => {
+    it('should settle on the faces simulateRoll computes from its spec', fakeAsync(() => {
+      fixture.componentRef.setInput('diceCount', 3);
+      fixture.componentRef.setInput('diceSize', 1.2); // Seeded rolls use the default size
+      fixture.componentRef.setInput('rollSeed', 18);
+      fixture.detectChanges();
+      tick();
+
+      // Step the physics by hand instead of once per frame
+      cancelAnimationFrame((component as any).animationFrameId);
+      component.rollDice();
+      const spec = component.getRollSpec()!;
+      const expected = simulateRoll(spec);
+      const world = fixture.debugElement.injector.get(PhysicsEngineService).getWorld()!;
+      for (let step = 0; step < expected.steps; step++) {
+        world.step(ROLL_TIMESTEP);
+      }
+      const faces = (component as any).dice.map((dice: Dice) =>
+        getUpwardFaceValue(dice.body.quaternion, dice.type)
+      );
+
+      expect(spec.arena).toEqual({ width: 24, depth: 24 });
+      expect(spec.diceSize).toBe(1.5);
+      expect(faces).toEqual(expected.faces);
+
+      component.ngOnDestroy();
+      flush();
+    }));
+  });
+
+  describe('Secure mode', () => {
+    const settle = (values: number[]) => {
+      (component as any).dice = values.map(() => ({ body: new CANNON.Body(), type: DiceType.D6 }));
+      spyOn(component as any, 'getDiceFaceValue').and.returnValues(...values);
+      component.reducedMotionActive.set(true);
+      (component as any).checkRollComplete();
+      tick(50);
+      (component as any).dice = [];
+    };
+
+    beforeEach(() => {
+      fixture.componentRef.setInput('secureMode', true);
+    });
+
+    it('should keep the values out of the DOM, diceResults and rollComplete', fakeAsync(() => {
+      const rolled = jasmine.createSpy('rollComplete');
+      component.rollComplete.subscribe(rolled);
+      component.diceRolled.set(true);
+
+      settle([3, 5]);
+      fixture.detectChanges();
+
+      expect(rolled).toHaveBeenCalledWith([]);
+      expect(component.getSettledValues()).toEqual([3, 5]);
+      expect(component.diceResults()).toEqual([]);
+      expect(component.getDiceResults()).toEqual([]);
+      expect(component.announcement()).toBe(component.i18n.secureRollAnnouncement(false));
+      expect(fixture.nativeElement.querySelector('.dice-results')).toBeNull();
+    }));
+
+    it('should read the dice once on request, after the delay, then clear them', fakeAsync(() => {
+      fixture.componentRef.setInput('reveal', { enabled: true, delay: 1000, duration: 2000 });
+      component.diceRolled.set(true);
+      settle([3, 5]);
+      expect(component.revealAvailable()).toBeTrue();
+
+      component.onKeyboardAction('reveal');
+      expect(component.announcement()).toBe(component.i18n.revealPendingAnnouncement(1));
+      expect(component.revealAvailable()).toBeFalse();
+
+      tick(1000);
+      expect(component.announcement()).toBe(component.i18n.diceRolledAnnouncement([3, 5]));
+
+      tick(2000);
+      expect(component.announcement()).toBe('');
+
+      component.revealValues();
+      expect(component.announcement()).toBe('');
+    }));
+
+    it('should write no values to the DOM when asked to read the dice by default', fakeAsync(() => {
+      const liveRegions = () =>
+        Array.from<Element>(fixture.nativeElement.querySelectorAll('[aria-live]'))
+          .map((region) => region.textContent)
+          .join(' ');
+      component.diceRolled.set(true);
+      settle([3, 5]);
+      fixture.detectChanges();
+
+      expect(component.revealAvailable()).toBeFalse();
+      component.onKeyboardAction('reveal');
+      component.revealValues();
+      tick(DEFAULT_VALUE_REVEAL.delay + DEFAULT_VALUE_REVEAL.duration);
+      fixture.detectChanges();
+
+      expect(component.announcement()).toBe(component.i18n.secureRollAnnouncement(false));
+      expect(liveRegions()).not.toMatch(/[35]/);
+    }));
+
+    it('should cancel a pending reveal on a new roll', fakeAsync(() => {
+      fixture.componentRef.setInput('reveal', { enabled: true });
+      component.diceRolled.set(true);
+      settle([2, 6]);
+      component.revealValues();
+
+      component.resetForNewRoll();
+      tick(DEFAULT_VALUE_REVEAL.delay);
+
+      expect(component.announcement()).toBe('');
+      expect(component.revealUsed()).toBeFalse();
+    }));
+  });
+
+  describe('Keyboard play', () => {
+    const press = (key: string) =>
+      fixture.nativeElement
+        .querySelector('.dice-canvas-container')
+        .dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+
+    beforeEach(() => {
+      spyOn(fixture.debugElement.injector.get(ThreeRendererService), 'setShadowsEnabled');
+      spyOn(fixture.debugElement.injector.get(PhysicsEngineService), 'applyPhysicsConfig');
+      fixture.componentRef.setInput('diceCount', 2);
+      fixture.detectChanges();
+      component.isInitialized.set(true);
+      component.diceRolled.set(true);
+      fixture.detectChanges();
+    });
+
+    it('should fill the dice in order with the digit keys, and clear the targeted one', () => {
+      const overlay = component.controlOverlay()!;
+
+      press('4');
+      press('2');
+      expect(overlay.diceInputs()).toEqual([4, 2]);
+      expect(component.keyboardTarget()).toBe(2);
+
+      press('ArrowLeft');
+      expect(component.announcement()).toBe(component.i18n.dieTargetAnnouncement(2, 2));
+      press('Backspace');
+      expect(overlay.diceInputs()).toEqual([4, null]);
+    });
+
+    it('should switch the high-contrast view with T', () => {
+      press('t');
+      fixture.detectChanges();
+
+      expect(component.activeTheme()).toBe(HIGH_CONTRAST_THEME_CONFIG);
+      expect(fixture.nativeElement.querySelector('.high-contrast')).not.toBeNull();
+      expect(component.announcement()).toBe(component.i18n.highContrastAnnouncement(true));
+    });
+
+    it('should follow a custom keymap', () => {
+      fixture.componentRef.setInput('keymap', { contrast: ['c'] });
+      fixture.detectChanges();
+
+      press('t');
+      expect(component.highContrast()).toBeFalse();
+      press('c');
+      expect(component.highContrast()).toBeTrue();
+    });
+  });
 });
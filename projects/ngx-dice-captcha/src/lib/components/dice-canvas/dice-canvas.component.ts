@@ -11,19 +11,51 @@ import {
   ChangeDetectionStrategy,
   inject,
   NgZone,
+  effect,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
 import { ThreeRendererService } from '../../services/three-renderer.service';
 import { PhysicsEngineService } from '../../services/physics-engine.service';
-import { DiceFactoryService, DiceConfig } from '../../services/dice-factory.service';
+import { DiceFactoryService, DiceConfig, DiceColors } from '../../services/dice-factory.service';
+import { AudioChallengeService } from '../../services/audio-challenge.service';
 import { Dice, DiceType } from '../../models/dice.model';
+import { DiceSetEntry } from '../../models/dice-set.model';
+import { FaceRenderer } from '../../models/face-renderer.model';
+import { AudioChallengeConfig } from '../../models/audio-challenge.model';
+import { DEFAULT_VALUE_REVEAL, ValueRevealConfig } from '../../models/value-reveal.model';
+import {
+  DEFAULT_THEME_CONFIG,
+  HIGH_CONTRAST_THEME_CONFIG,
+  ThemeConfig,
+} from '../../models/captcha-config.model';
+import { CaptchaKeymap } from '../../models/keymap.model';
 import { ResizeEventData } from '../../models/resize-event.model';
+import { VerificationMode } from '../../models/verification-mode.model';
+import { Challenge } from '../../models/challenge.model';
 import { ResponsiveConfig } from '../../models/responsive-config.model';
 import { AccessibilityDirective } from '../../directives/accessibility.directive';
 import { DICE_CAPTCHA_I18N_TOKEN, DiceCaptchaI18n } from '../../tokens/dice-captcha-i18n.token';
 import { ControlOverlayComponent } from '../control-overlay/control-overlay.component';
+import {
+  DEFAULT_ROLL_PHYSICS,
+  DICE_COLOR_PALETTE,
+  PhysicsConfig,
+  ROLL_FORCE_FACTOR,
+  ROLL_MATERIALS,
+  RollArena,
+  RollSpec,
+  SETTLEMENT_THRESHOLD,
+  areBodiesAtRest,
+  createArenaWalls,
+  createDiceLaunches,
+  createGroundBody,
+  createSeededLaunches,
+  getUpwardFaceValue,
+  launchDice,
+  resolveRollSpec,
+} from 'ngx-dice-captcha/server';
 
 /**
  * Component responsible for rendering the 3D dice canvas and handling dice physics.
@@ -61,6 +93,7 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   private readonly threeRenderer = inject(ThreeRendererService);
   private readonly physicsEngine = inject(PhysicsEngineService);
   private readonly diceFactory = inject(DiceFactoryService);
+  private readonly audio = inject(AudioChallengeService);
   private readonly ngZone = inject(NgZone);
   readonly i18n = inject(DICE_CAPTCHA_I18N_TOKEN);
 
@@ -81,6 +114,21 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    */
   readonly diceType = input<DiceType>(DiceType.D6);
 
+  /**
+   * Mixed dice set to roll, in dice order. Overrides `diceCount` and `diceType`.
+   * @default null
+   * @since 2.4.0
+   */
+  readonly diceSet = input<DiceSetEntry[] | null>(null);
+
+  /**
+   * Draws symbols on the dice faces instead of pips or numbers, and makes the
+   * overlay ask for symbols. Applies to dice created after it is set.
+   * @default null
+   * @since 2.4.0
+   */
+  readonly faceRenderer = input<FaceRenderer | null>(null);
+
   /**
    * Whether to automatically roll dice when component initializes.
    * @default false
@@ -133,6 +181,96 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    */
   readonly cooldownTimeRemaining = input<number>(0);
 
+  /**
+   * Seconds left on the challenge clock, shown in the overlay.
+   * `null` hides the countdown.
+   * @default null
+   * @since 2.4.0
+   */
+  readonly timeRemaining = input<number | null>(null);
+
+  /**
+   * Whether the challenge expired and is locked until reset.
+   * Rolling is disabled while set.
+   * @default false
+   * @since 2.4.0
+   */
+  readonly isExpired = input<boolean>(false);
+
+  /**
+   * Whether the captcha is disabled, e.g. by a disabled form control.
+   * Rolling and answering are blocked while set.
+   * @default false
+   * @since 2.4.0
+   */
+  readonly disabled = input<boolean>(false);
+
+  /**
+   * Round being played, shown in the overlay when there are several
+   * @default 1
+   * @since 2.4.0
+   */
+  readonly round = input<number>(1);
+
+  /**
+   * Rounds to pass before a token is issued
+   * @default 1
+   * @since 2.4.0
+   */
+  readonly totalRounds = input<number>(1);
+
+  /**
+   * Answer fields shown in the overlay
+   * @default VerificationMode.BOTH
+   * @since 2.4.0
+   */
+  readonly verificationMode = input<VerificationMode>(VerificationMode.BOTH);
+
+  /**
+   * Whether the overlay asks for dice values in text fields or in a grid of
+   * face thumbnails
+   * @default 'text'
+   * @since 2.4.0
+   */
+  readonly diceInputStyle = input<'text' | 'choice'>('text');
+
+  /**
+   * Samples and noise of the audio challenge, offered in the overlay unless
+   * `enabled` is false or the browser lacks Web Audio
+   * @default null
+   * @since 2.4.0
+   */
+  readonly audioChallenge = input<AudioChallengeConfig | null>(null);
+
+  /**
+   * Keep the dice values out of the DOM, announcements, {@link diceResults} and
+   * `rollComplete`; the host reads them with {@link getSettledValues}
+   * @default false
+   * @since 2.4.0
+   */
+  readonly secureMode = input<boolean>(false);
+
+  /**
+   * Screen reader reveal offered in secure mode
+   * @default null
+   * @since 2.4.0
+   */
+  readonly reveal = input<ValueRevealConfig | null>(null);
+
+  /**
+   * Keys of the keyboard scheme, replacing the defaults of the actions listed
+   * @default null
+   * @since 2.4.0
+   */
+  readonly keymap = input<CaptchaKeymap | null>(null);
+
+  /**
+   * Challenge whose question the overlay shows in CHALLENGE mode
+   * @default null
+   * @since 2.4.0
+   */
+  readonly challenge = input<Challenge | null>(null);
+
   /**
    * Responsive configuration for dynamic sizing
    * @since 2.2.0
@@ -189,10 +327,41 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    */
   readonly resizeThreshold = input<number>(50);
 
+  /**
+   * Physics parameters for the dice world.
+   * Changes apply immediately, except during a seeded roll, where they wait
+   * until the roll completes so the roll stays reproducible.
+   * @default DEFAULT_ROLL_PHYSICS
+   * @since 2.4.0
+   */
+  readonly physicsConfig = input<PhysicsConfig>(DEFAULT_ROLL_PHYSICS);
+
+  /**
+   * Colors, lighting and shadows of the scene and overlay.
+   * Changes re-theme the running scene without recreating the dice.
+   * @default DEFAULT_THEME_CONFIG
+   * @since 2.4.0
+   */
+  readonly theme = input<ThemeConfig>(DEFAULT_THEME_CONFIG);
+
+  /**
+   * Seed for deterministic rolls.
+   * When set, every roll draws its positions, rotations and forces from
+   * `createSeededRandom(seed)` and physics advances in fixed steps, so a
+   * server can replay the roll from {@link getRollSpec}, or from the seed with
+   * `simulateRoll`. Seeded rolls use the `resolveRollSpec` defaults for the
+   * arena, dice size, force and physics, whatever the screen size, reduced
+   * motion or {@link physicsConfig}; only the camera follows the screen. The
+   * same seed always produces the same roll.
+   * @default null
+   * @since 2.4.0
+   */
+  readonly rollSeed = input<number | null>(null);
+
   // Outputs
   /**
    * Emitted when dice rolling is complete with final face values.
-   * Values are 1-based (1-6 for D6, 1-8 for D8, etc.).
+   * Values are 1-based (1-6 for D6, 1-8 for D8, etc.). Empty in secure mode.
    */
   readonly rollComplete = output<number[]>();
 
@@ -204,7 +373,7 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   /**
    * Emitted when verification is requested from the overlay.
    */
-  readonly verificationRequested = output<{ diceValues: number[]; sum: number }>();
+  readonly verificationRequested = output<{ diceValues: number[]; sum: number; answer?: number }>();
 
   // State signals
   readonly isRolling = signal<boolean>(false);
@@ -212,10 +381,141 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   readonly diceResults = signal<number[]>([]);
   readonly reducedMotionActive = signal<boolean>(false);
   readonly announcement = signal<string>('');
+
+  /**
+   * Whether the audio challenge is selected. Results are then played instead
+   * of shown and announced.
+   * @since 2.4.0
+   */
+  readonly audioMode = signal<boolean>(false);
+
+  /**
+   * Whether the audio challenge is playing
+   * @since 2.4.0
+   */
+  readonly audioPlaying = signal<boolean>(false);
+
+  /**
+   * Whether the overlay offers the audio challenge
+   * @since 2.4.0
+   */
+  readonly audioAvailable = computed(
+    () => this.audioChallenge()?.enabled !== false && this.audio.isSupported()
+  );
   readonly diceRolled = signal<boolean>(false);
 
+  /**
+   * Whether the values of the current roll were read out, or are about to be.
+   * Each roll is revealed at most once.
+   * @since 2.4.0
+   */
+  readonly revealUsed = signal<boolean>(false);
+
+  /**
+   * Whether the host opted into the secure mode reveal
+   */
+  private readonly revealEnabled = computed(
+    () => this.reveal()?.enabled ?? DEFAULT_VALUE_REVEAL.enabled
+  );
+
+  /**
+   * Whether the overlay offers to read the settled dice in secure mode
+   * @since 2.4.0
+   */
+  readonly revealAvailable = computed(
+    () =>
+      this.secureMode() &&
+      this.revealEnabled() &&
+      this.diceRolled() &&
+      !this.isRolling() &&
+      !this.audioMode() &&
+      !this.revealUsed()
+  );
+
+  /**
+   * Face thumbnails of each dice, in dice order, for the overlay's answer grid.
+   * Rendered when a roll starts, and only while the grid is used.
+   * @since 2.4.0
+   */
+  readonly faceThumbnails = signal<string[][]>([]);
+
+  /**
+   * Field targeted by keyboard play: a die, or the sum after the last die.
+   * Null until a digit or arrow key is pressed after a roll.
+   * @since 2.4.0
+   */
+  readonly keyboardTarget = signal<number | null>(null);
+
+  /**
+   * Whether the canvas region itself has keyboard focus
+   * @since 2.4.0
+   */
+  readonly canvasFocused = signal<boolean>(false);
+
+  /**
+   * Whether the high-contrast view is on, toggled with T or following the
+   * system's contrast preference
+   * @since 2.4.0
+   */
+  readonly highContrast = signal<boolean>(false);
+
+  /**
+   * Theme in use: the `theme` input, or {@link HIGH_CONTRAST_THEME_CONFIG}
+   * while the high-contrast view is on
+   * @since 2.4.0
+   */
+  readonly activeTheme = computed(() =>
+    this.highContrast() ? HIGH_CONTRAST_THEME_CONFIG : this.theme()
+  );
+
   // Computed signals
-  readonly canInteract = computed(() => this.isInitialized() && !this.isRolling());
+  readonly canInteract = computed(
+    () => this.isInitialized() && !this.isRolling() && !this.isExpired() && !this.disabled()
+  );
+
+  /**
+   * CSS custom properties for the container, read by the canvas and overlay styles.
+   * The gradient end is only overridden for custom primary colors, so the
+   * default theme keeps its purple gradient.
+   * @since 2.4.0
+   */
+  readonly themeStyles = computed<Record<string, string | null>>(() => {
+    const theme = this.activeTheme();
+    const customPrimary = theme.primaryColor !== DEFAULT_THEME_CONFIG.primaryColor;
+
+    return {
+      '--ngx-dice-captcha-primary': theme.primaryColor,
+      '--ngx-dice-captcha-primary-end': customPrimary
+        ? `color-mix(in srgb, ${theme.primaryColor} 80%, #000)`
+        : null,
+      '--ngx-dice-captcha-background': theme.backgroundColor,
+    };
+  });
+
+  /**
+   * Whether each dice is painted in its own `DICE_COLOR_PALETTE` color and
+   * labeled with the color name, so the challenge can name a dice by color.
+   * @since 2.4.0
+   */
+  readonly colorCodedDice = computed(() => this.challenge()?.targetColor !== undefined);
+
+  /**
+   * Dice to create, in dice order: the mixed set, or `diceCount` dice of `diceType`.
+   * @since 2.4.0
+   */
+  readonly diceEntries = computed<DiceSetEntry[]>(() => {
+    const diceSet = this.diceSet();
+    if (diceSet?.length) {
+      return diceSet;
+    }
+    return Array.from({ length: this.diceCount() }, () => ({ type: this.diceType() }));
+  });
+
+  /**
+   * Type of each dice, in dice order
+   * @since 2.4.0
+   */
+  readonly diceTypes = computed(() => this.diceEntries().map((entry) => entry.type));
 
   // Private state
   private dice: Dice[] = [];
@@ -252,6 +552,108 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   private sceneScale = { width: 24, height: 12, depth: 24 };
   private resizeCleanup?: () => void;
 
+  /**
+   * Spec of the last seeded roll, or null for a normal roll.
+   * While set, physics runs in fixed steps and resizes leave bodies alone.
+   * @private
+   * @since 2.4.0
+   */
+  private activeRollSpec: Required<RollSpec> | null = null;
+
+  /**
+   * Values of the settled dice. Kept here rather than in a signal so secure
+   * mode can leave {@link diceResults} empty.
+   * @private
+   * @since 2.4.0
+   */
+  private settledValues: number[] = [];
+
+  /**
+   * Pending timers of a secure mode reveal.
+   * @private
+   * @since 2.4.0
+   */
+  private revealTimers: ReturnType<typeof setTimeout>[] = [];
+
+  /**
+   * Ring drawn around the die targeted by keyboard play, and that die while
+   * the ring is in the scene. Frustum culling controls `visible`, so the
+   * ring is added and removed instead.
+   * @private
+   * @since 2.4.0
+   */
+  private focusRing?: THREE.Mesh<THREE.TorusGeometry, THREE.MeshBasicMaterial>;
+  private focusRingDie: number | null = null;
+
+  /**
+   * Colors the dice textures were last painted with.
+   * @private
+   * @since 2.4.0
+   */
+  private diceColors?: DiceColors;
+
+  /**
+   * Whether the dice are currently painted in palette colors.
+   * @private
+   * @since 2.4.0
+   */
+  private diceColorCoded = false;
+
+  /**
+   * Entries the current dice were created from, in dice order.
+   * @private
+   * @since 2.4.0
+   */
+  private createdEntries: DiceSetEntry[] = [];
+
+  /**
+   * Edge length the current dice were created with.
+   * @private
+   * @since 2.4.0
+   */
+  private createdDiceSize = 0;
+
+  constructor() {
+    // Apply physics changes live, but never in the middle of a seeded roll
+    effect(() => {
+      const physics = this.physicsConfig();
+      if (this.isInitialized() && !(this.activeRollSpec && this.isRolling())) {
+        this.physicsEngine.applyPhysicsConfig(physics);
+      }
+    });
+
+    // Re-theme the live scene; CSS variables update through the template binding
+    effect(() => {
+      const theme = this.activeTheme();
+      if (this.isInitialized()) {
+        this.applySceneTheme(theme);
+      }
+    });
+
+    // Ring the die targeted by keyboard play while the canvas has focus
+    effect(() => {
+      const target = this.keyboardTarget();
+      const shown =
+        target !== null &&
+        this.canvasFocused() &&
+        !this.isRolling() &&
+        (this.controlOverlay()?.keyboardTargetsDice() ?? false);
+      // Yellow stays visible on the black high-contrast background
+      const color = this.highContrast() ? '#ffd600' : this.activeTheme().primaryColor;
+      if (this.isInitialized()) {
+        this.updateFocusRing(shown ? target : null, color);
+      }
+    });
+
+    // Color-code the dice while the challenge names one by color
+    effect(() => {
+      const colorCoded = this.colorCodedDice();
+      if (this.isInitialized()) {
+        this.applyDiceIdentities(colorCoded);
+      }
+    });
+  }
+
   ngOnInit(): void {
     // Wait for view to be ready before initializing
     setTimeout(() => {
@@ -313,8 +715,8 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
     // Adjust camera based on scene scale
     this.adjustCamera();
 
-    // Initialize physics world with stronger gravity for faster settling
-    this.physicsEngine.initializeWorld(new CANNON.Vec3(0, -30, 0));
+    // Initialize physics world; the rest of the physics config is applied once dice exist
+    this.physicsEngine.initializeWorld(new CANNON.Vec3(0, this.physicsConfig().gravity, 0));
 
     // Create ground plane
     this.createGroundPlane();
@@ -426,6 +828,11 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
       // Step 3: Update ground plane geometry (Phase 4 implementation)
       this.updateGroundPlaneGeometry();
 
+      // Seeded rolls keep their arena so they can still be replayed
+      if (this.activeRollSpec) {
+        return;
+      }
+
       // Step 4: Update physics boundaries (Phase 5 implementation)
       this.updatePhysicsBoundaries();
 
@@ -512,12 +919,20 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
     const camera = this.threeRenderer.getCamera();
     if (!camera) return;
 
-    // Fixed camera position that works with the calculated scene scale
-    const cameraDistance = 15;
+    // Fixed camera position that works with the calculated scene scale.
+    // The fixed arena of a seeded roll is framed by moving the camera instead.
+    const arena = this.activeRollSpec?.arena;
+    const zoom = arena
+      ? Math.max(arena.width / this.sceneScale.width, arena.depth / this.sceneScale.depth)
+      : 1;
+    const cameraDistance = 15 * zoom;
 
     camera.position.set(0, cameraDistance * 0.4, cameraDistance);
     camera.lookAt(0, 0, 0);
     camera.updateProjectionMatrix();
+
+    // Stretch the ground with the view so it still fills the canvas
+    this.groundMesh?.scale.set(zoom, zoom, 1);
   }
 
   /**
@@ -543,7 +958,8 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
     this.groundMesh.rotation.x = -Math.PI / 2;
     this.groundMesh.receiveShadow = true; // Receive shadows
     this.groundMesh.position.y = -3; // Positioned to keep dice visible and readable
-    this.groundMesh.visible = true; // Show only shadows, not a solid plane
+    // Show only shadows, not a solid plane
+    this.groundMesh.visible = this.activeTheme().enableShadows;
 
     this.threeRenderer.addToScene(this.groundMesh);
 
@@ -551,15 +967,7 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
     this.previousSceneScale = { ...this.sceneScale };
 
     // Create physics ground plane (infinite plane in Cannon-es)
-    const groundShape = new CANNON.Plane();
-    const groundPhysicsMaterial = new CANNON.Material('ground');
-    this.groundPlane = new CANNON.Body({
-      mass: 0, // Static body
-      shape: groundShape,
-      material: groundPhysicsMaterial,
-    });
-    this.groundPlane.quaternion.setFromAxisAngle(new CANNON.Vec3(1, 0, 0), -Math.PI / 2);
-    this.groundPlane.position.y = -3; // Match visual ground plane position
+    this.groundPlane = createGroundBody(); // Matches visual ground plane position
 
     this.physicsEngine.addBody(this.groundPlane);
   }
@@ -659,8 +1067,8 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    * @since 2.2.0
    */
   private updateGroundPhysicsBody(): void {
-    // Guard: Check if ground plane physics body exists
-    if (!this.groundPlane) {
+    // Guard: Check if ground plane physics body exists, and leave seeded rolls undisturbed
+    if (!this.groundPlane || this.activeRollSpec) {
       return;
     }
 
@@ -806,6 +1214,7 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
       const wallBody = new CANNON.Body({
         mass: 0, // Static body
         shape: wallShape,
+        material: ROLL_MATERIALS.wall,
       });
       wallBody.position.set(config.x, config.y, config.z);
 
@@ -885,70 +1294,39 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    * @private
    */
   private createBoundaryWalls(): void {
-    // Increased wall height to prevent dice from jumping over
-    const wallHeight = 35; // Increased from 25 for better containment
-    const wallThickness = 2.0; // Increased from 1.0 for better containment
-
-    // Add safety margin to ensure walls fully contain the dice area
-    const safetyMargin = 2.0; // Increased safety margin for better containment
-    const areaWidth = this.sceneScale.width / 2 - safetyMargin;
-    const areaDepth = this.sceneScale.depth / 2 - safetyMargin;
-
-    // Wall configurations scaled to scene dimensions with safety margin
-    const wallConfigs = [
-      // Back wall
-      {
-        x: 0,
-        y: wallHeight / 2 - 3, // Match ground plane position
-        z: -areaDepth,
-        width: areaWidth * 2 + wallThickness * 2, // Extend to corners
-        height: wallHeight,
-        depth: wallThickness,
-      },
-      // Front wall
-      {
-        x: 0,
-        y: wallHeight / 2 - 3, // Match ground plane position
-        z: areaDepth,
-        width: areaWidth * 2 + wallThickness * 2, // Extend to corners
-        height: wallHeight,
-        depth: wallThickness,
-      },
-      // Left wall
-      {
-        x: -areaWidth,
-        y: wallHeight / 2 - 3, // Match ground plane position
-        z: 0,
-        width: wallThickness,
-        height: wallHeight,
-        depth: areaDepth * 2 + wallThickness * 2, // Extend to corners
-      },
-      // Right wall
-      {
-        x: areaWidth,
-        y: wallHeight / 2 - 3, // Match ground plane position
-        z: 0,
-        width: wallThickness,
-        height: wallHeight,
-        depth: areaDepth * 2 + wallThickness * 2, // Extend to corners
-      },
-    ];
-
-    wallConfigs.forEach((config) => {
-      const wallShape = new CANNON.Box(
-        new CANNON.Vec3(config.width / 2, config.height / 2, config.depth / 2)
-      );
-      const wallBody = new CANNON.Body({
-        mass: 0, // Static body
-        shape: wallShape,
-      });
-      wallBody.position.set(config.x, config.y, config.z);
+    this.createBoundaryWallsFor(this.sceneScale);
+  }
 
+  /**
+   * Creates boundary walls for the given arena and adds them to the world
+   * @private
+   */
+  private createBoundaryWallsFor(arena: RollArena): void {
+    createArenaWalls(arena).forEach((wallBody) => {
       this.physicsEngine.addBody(wallBody);
       this.walls.push(wallBody);
     });
   }
 
+  /**
+   * Rebuilds the walls for an arena and re-adds the dice after them.
+   *
+   * Keeps the world's body order (ground, walls, dice) identical to a
+   * headless replay, which the solver's results depend on.
+   *
+   * @param arena - Rolling area for the walls
+   * @private
+   * @since 2.4.0
+   */
+  private rebuildArena(arena: RollArena): void {
+    this.walls.forEach((wall) => this.physicsEngine.removeBody(wall));
+    this.dice.forEach((dice, index) => this.physicsEngine.removeBody(dice.body, `dice-${index}`));
+    this.walls = [];
+
+    this.createBoundaryWallsFor(arena);
+    this.dice.forEach((dice, index) => this.physicsEngine.addBody(dice.body, `dice-${index}`));
+  }
+
   /**
    * Update boundary walls to match new scene scale
    * Removes old walls and creates new ones with updated dimensions
@@ -1019,6 +1397,7 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
       const wallBody = new CANNON.Body({
         mass: 0, // Static body
         shape: wallShape,
+        material: ROLL_MATERIALS.wall,
       });
       wallBody.position.set(config.x, config.y, config.z);
 
@@ -1030,19 +1409,16 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   /**
    * Creates dice objects with both rendering and physics components.
    *
-   * Instantiates the specified number of dice, positions them in the scene,
-   * and adds them to both the Three.js scene and Cannon-es physics world.
+   * Instantiates one dice per entry of {@link diceEntries}, positions them in the
+   * scene, and adds them to both the Three.js scene and Cannon-es physics world.
    * Enhanced with proper spacing to prevent dice from landing too close together.
    *
+   * @param size - Edge length of each dice (default: {@link diceSize})
    * @private
    */
-  private createDice(): void {
-    const count = this.diceCount();
-    const type = this.diceType();
-    const userSize = this.diceSize();
-
-    // Use user size directly - no 2x scaling
-    const size = userSize;
+  private createDice(size = this.diceSize()): void {
+    const entries = this.diceEntries();
+    const count = entries.length;
 
     // Drop zone in top-right corner area
     const dropAreaWidth = this.sceneScale.width * 0.25; // Use 25% of width
@@ -1055,6 +1431,12 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
     const calculatedSpacing = availableWidth / (count + 1);
     const spacing = Math.max(minSpacing, calculatedSpacing);
 
+    const theme = this.activeTheme();
+    this.diceColors = { face: theme.diceColor, dot: theme.dotColor };
+    this.diceColorCoded = this.colorCodedDice();
+    this.createdEntries = entries;
+    this.createdDiceSize = size;
+
     for (let i = 0; i < count; i++) {
       // Position dice at top-center, spread horizontally with proper spacing
       // Keep all dice at same Z depth for uniform size appearance
@@ -1062,31 +1444,139 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
 
       // Add slight Z variation to prevent perfect alignment (more natural)
       const startZ = -this.sceneScale.depth * 0.35 + (Math.random() - 0.5) * size * 0.8;
+      const { colors, label } = this.getDiceIdentity(i);
 
       const config: DiceConfig = {
-        type,
+        type: entries[i].type,
         size,
         position: new THREE.Vector3(
           startX + (Math.random() - 0.5) * size * 0.4, // Reduced randomness for better spacing
           dropHeight + Math.random() * 0.5,
           startZ
         ),
-        castShadow: true,
+        castShadow: theme.enableShadows,
         receiveShadow: true,
         envMap: this.threeRenderer.getEnvironmentMap(), // Add environment map for reflections
+        colors,
+        label,
+        faceRenderer: this.faceRenderer() ?? undefined,
       };
 
       const dice = this.diceFactory.createDice(config);
       this.dice.push(dice);
 
-      // Enhanced damping for fast, reliable settling
-      dice.body.linearDamping = 0.8; // Very high damping for rapid stabilization
-      dice.body.angularDamping = 0.8; // Very high damping for rapid stabilization
-
       // Add to scene and physics world
       this.threeRenderer.addToScene(dice.mesh);
       this.physicsEngine.addBody(dice.body, `dice-${i}`);
     }
+
+    // Damping, friction and restitution from the physics config
+    this.physicsEngine.applyPhysicsConfig(this.physicsConfig());
+  }
+
+  /**
+   * Replaces the dice with dice of another size, keeping their entries.
+   *
+   * @param size - Edge length of each dice
+   * @private
+   * @since 2.4.0
+   */
+  private recreateDice(size: number): void {
+    this.dice.forEach((dice, index) => {
+      this.threeRenderer.removeFromScene(dice.mesh);
+      this.physicsEngine.removeBody(dice.body, `dice-${index}`);
+      this.diceFactory.disposeDice(dice);
+    });
+    this.dice = [];
+    this.createDice(size);
+  }
+
+  /**
+   * Applies a theme to the live scene.
+   *
+   * Toggles shadows (renderer, dice and the shadow-catching ground) and the
+   * ambient light, and repaints the dice only when their colors changed.
+   * Color-coded dice keep their palette colors, and dice of a mixed set keep
+   * their own colors.
+   *
+   * @param theme - Theme to apply
+   * @private
+   * @since 2.4.0
+   */
+  private applySceneTheme(theme: ThemeConfig): void {
+    this.threeRenderer.setShadowsEnabled(theme.enableShadows);
+    this.threeRenderer.setAmbientLightEnabled(theme.enableAmbientLight);
+
+    if (this.groundMesh) {
+      this.groundMesh.visible = theme.enableShadows;
+    }
+
+    const colors: DiceColors = { face: theme.diceColor, dot: theme.dotColor };
+    const repaint = colors.face !== this.diceColors?.face || colors.dot !== this.diceColors?.dot;
+    this.diceColors = colors;
+
+    this.dice.forEach((dice, index) => {
+      dice.mesh.castShadow = theme.enableShadows;
+      const identity = this.getDiceIdentity(index);
+      if (repaint && identity.colors === colors) {
+        this.diceFactory.applyDiceColors(dice, identity.colors);
+      }
+    });
+  }
+
+  /**
+   * Gets the colors and label of a dice: its palette entry while color-coded,
+   * otherwise its dice set entry's color and label, falling back to the theme
+   * colors.
+   *
+   * @param index - Dice index
+   * @private
+   * @since 2.4.0
+   */
+  private getDiceIdentity(index: number): { colors: DiceColors; label?: string } {
+    const named = this.diceColorCoded ? DICE_COLOR_PALETTE[index] : undefined;
+    if (named) {
+      return { colors: { face: named.face, dot: named.dot }, label: named.name };
+    }
+
+    const entry = this.createdEntries[index];
+    const colors = entry?.color
+      ? { face: entry.color, dot: this.getContrastingDotColor(entry.color) }
+      : this.diceColors!;
+    return { colors, label: entry?.label };
+  }
+
+  /**
+   * Picks black or white dots, whichever contrasts more with a face color.
+   *
+   * @param face - Face color, any CSS color
+   * @private
+   * @since 2.4.0
+   */
+  private getContrastingDotColor(face: string): string {
+    // Relative luminance of the linear color; black and white contrast equally at 0.179
+    const { r, g, b } = new THREE.Color(face);
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.179 ? '#000000' : '#ffffff';
+  }
+
+  /**
+   * Repaints and relabels the dice when color coding is switched on or off.
+   *
+   * @param colorCoded - Whether the dice should be color-coded
+   * @private
+   * @since 2.4.0
+   */
+  private applyDiceIdentities(colorCoded: boolean): void {
+    if (colorCoded === this.diceColorCoded) {
+      return;
+    }
+
+    this.diceColorCoded = colorCoded;
+    this.dice.forEach((dice, index) => {
+      const { colors, label } = this.getDiceIdentity(index);
+      this.diceFactory.applyDiceColors(dice, colors);
+      this.diceFactory.applyDiceLabel(dice, label);
+    });
   }
 
   /**
@@ -1107,13 +1597,18 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
       const deltaTime = (currentTime - lastTime) / 1000;
       lastTime = currentTime;
 
-      // Step physics simulation
-      this.physicsEngine.stepSimulation(deltaTime);
+      // Step physics simulation; seeded rolls advance in whole fixed steps
+      if (this.activeRollSpec) {
+        this.physicsEngine.stepFixed(deltaTime);
+      } else {
+        this.physicsEngine.stepSimulation(deltaTime);
+      }
 
       // Sync Three.js meshes with physics bodies
       this.dice.forEach((dice) => {
         this.physicsEngine.syncWithThreeJS(dice.mesh, dice.body);
       });
+      this.syncFocusRing();
 
       // Check if dice have stopped rolling
       if (this.isRolling()) {
@@ -1135,6 +1630,7 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    * and respects reduced motion preferences by adjusting force intensity.
    * Announces the action to screen readers for accessibility.
    * Enhanced with proper spacing to prevent dice from landing too close together.
+   * When {@link rollSeed} is set, all randomness comes from the seed.
    *
    * @public
    */
@@ -1143,82 +1639,105 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
       return;
     }
 
+    this.audio.stop();
+    this.cancelReveal();
+    this.settledValues = [];
+    this.keyboardTarget.set(null);
     this.isRolling.set(true);
     this.diceRolled.set(true);
     this.rollStarted.emit();
+    this.renderFaceThumbnails();
 
     // Announce to screen readers
     this.announcement.set(this.i18n.rollingDice);
 
-    // Drop zone in top-right corner area
-    const dropAreaWidth = this.sceneScale.width * 0.25; // Use 25% of width
-    const dropHeight = 5; // Fixed reasonable drop height
-    const userSize = this.diceSize();
-    const size = userSize; // No 2x scaling
-
-    // Enhanced spacing: Ensure minimum gap of 1.5x dice size between dice centers
-    const minSpacing = size * 2.5; // Minimum 2.5x dice size for proper gaps
-    const availableWidth = dropAreaWidth * 2; // Use more horizontal space
-    const calculatedSpacing = availableWidth / (this.dice.length + 1);
-    const spacing = Math.max(minSpacing, calculatedSpacing);
-
-    this.dice.forEach((dice, index) => {
-      // Position dice at top-center, spread horizontally with proper spacing
-      // Keep all dice at same Z depth for uniform size appearance
-      const startX = (index - (this.dice.length - 1) / 2) * spacing;
+    const size = this.diceSize(); // No 2x scaling
+    const arena = { width: this.sceneScale.width, depth: this.sceneScale.depth };
+    const seed = this.rollSeed();
+
+    if (seed !== null) {
+      // Seeded rolls use the default arena, dice size, force and physics, so they
+      // never depend on the screen or settings the server cannot see
+      this.activeRollSpec = resolveRollSpec({
+        seed,
+        diceCount: this.dice.length,
+        diceType: this.diceType(),
+        diceTypes: this.dice.map((dice) => dice.type),
+      });
+      if (this.createdDiceSize !== this.activeRollSpec.diceSize) {
+        this.recreateDice(this.activeRollSpec.diceSize);
+      }
+      this.rebuildArena(this.activeRollSpec.arena);
+      this.physicsEngine.applyPhysicsConfig(this.activeRollSpec.physics);
+      this.adjustCamera();
 
-      // Add slight Z variation to prevent perfect alignment (more natural)
-      const startZ = -this.sceneScale.depth * 0.35 + (Math.random() - 0.5) * size * 0.8;
+      const launches = createSeededLaunches(this.activeRollSpec);
+      this.dice.forEach((dice, index) => launchDice(dice.body, launches[index]));
+      return;
+    }
 
-      dice.body.position.set(
-        startX + (Math.random() - 0.5) * size * 0.4, // Reduced randomness for better spacing
-        dropHeight + Math.random() * 0.5,
-        startZ
-      );
+    if (this.activeRollSpec) {
+      // Back from a seeded roll: restore the configured dice, walls, physics and camera
+      this.activeRollSpec = null;
+      if (this.createdDiceSize !== size) {
+        this.recreateDice(size);
+      }
+      this.rebuildArena(arena);
+      this.physicsEngine.applyPhysicsConfig(this.physicsConfig());
+      this.adjustCamera();
+    }
 
-      // Reset rotation with random initial rotation for variety
-      const randomQuat = this.diceFactory.getRandomRotation();
-      dice.body.quaternion.copy(randomQuat);
+    // Drop from top-center and let gravity + random forces create natural rolling
+    // Increased force factors for faster animation across all screen sizes
+    const canvas = this.canvasElement().nativeElement;
+    const isSmallScreen = canvas.clientWidth <= 700;
+    let forceFactor: number;
 
-      // Reset velocities
-      dice.body.velocity.set(0, 0, 0);
-      dice.body.angularVelocity.set(0, 0, 0);
+    if (this.reducedMotionActive()) {
+      forceFactor = ROLL_FORCE_FACTOR.reducedMotion;
+    } else if (isSmallScreen) {
+      forceFactor = ROLL_FORCE_FACTOR.smallScreen;
+    } else {
+      forceFactor = ROLL_FORCE_FACTOR.normal;
+    }
 
-      // Wake up the body
-      dice.body.wakeUp();
+    const launches = createDiceLaunches({
+      diceCount: this.dice.length,
+      diceSize: size,
+      arena,
+      forceFactor,
+    });
+    this.dice.forEach((dice, index) => launchDice(dice.body, launches[index]));
+  }
 
-      // Drop from top-center and let gravity + random forces create natural rolling
-      // This uses the full ground plane evenly
-      // Increased force factors for faster animation across all screen sizes
-      const canvas = this.canvasElement().nativeElement;
-      const isSmallScreen = canvas.clientWidth <= 700;
-      let forceFactor: number;
+  /**
+   * Renders the face thumbnails of each dice in its current colors when the
+   * overlay shows an answer grid. Dice of the same type and colors share them.
+   *
+   * @private
+   * @since 2.4.0
+   */
+  private renderFaceThumbnails(): void {
+    const faceRenderer = this.faceRenderer() ?? undefined;
+    if (!faceRenderer && this.diceInputStyle() !== 'choice') {
+      this.faceThumbnails.set([]);
+      return;
+    }
 
-      if (this.reducedMotionActive()) {
-        forceFactor = 0.4; // Increased from 0.3 for slightly faster reduced motion
-      } else if (isSmallScreen) {
-        forceFactor = 0.9; // Increased from 0.75 for faster animation on small screens
-      } else {
-        forceFactor = 0.7; // Increased from 0.5 for faster animation on normal screens
+    const rendered = new Map<string, Promise<string[]>>();
+    const thumbnails = this.dice.map((dice, index) => {
+      const { colors } = this.getDiceIdentity(index);
+      const key = `${dice.type}|${colors.face}|${colors.dot}`;
+      if (!rendered.has(key)) {
+        rendered.set(key, this.diceFactory.createFaceThumbnails(dice.type, colors, faceRenderer));
       }
+      return rendered.get(key)!;
+    });
 
-      // Apply gentle random forces in all horizontal directions for varied rolling
-      // Slightly varied per dice to encourage separation
-      const lateralVariation = (index - (this.dice.length - 1) / 2) * 0.3; // Spread dice apart
-      const force = new CANNON.Vec3(
-        ((Math.random() - 0.5) * 4 + lateralVariation) * forceFactor, // Random horizontal force with separation bias
-        -1.5 * forceFactor, // Downward force
-        (Math.random() * 0.8 + 0.2) * 6 * forceFactor // Forward force (toward bottom) with bias
-      );
-      dice.body.applyImpulse(force, dice.body.position);
-
-      // Random torque for tumbling
-      const torque = new CANNON.Vec3(
-        (Math.random() - 0.5) * 10 * forceFactor,
-        (Math.random() - 0.5) * 10 * forceFactor,
-        (Math.random() - 0.5) * 10 * forceFactor
-      );
-      dice.body.applyTorque(torque);
+    Promise.all(thumbnails).then((result) => {
+      if (!this.isDisposed) {
+        this.faceThumbnails.set(result);
+      }
     });
   }
 
@@ -1232,34 +1751,42 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    * @private
    */
   private checkRollComplete(): void {
-    const allStopped = this.dice.every((dice) => {
-      const velocity = dice.body.velocity.length();
-      const angularVelocity = dice.body.angularVelocity.length();
-      // Use proper low thresholds for accurate settling detection
-      return velocity < 0.05 && angularVelocity < 0.05;
-    });
+    // Use proper low thresholds for accurate settling detection
+    const allStopped = areBodiesAtRest(
+      this.dice.map((dice) => dice.body),
+      SETTLEMENT_THRESHOLD.velocity,
+      SETTLEMENT_THRESHOLD.angularVelocity
+    );
 
     if (allStopped) {
       // Reduced confirmation delay for faster response while maintaining accuracy
-      const delay = this.reducedMotionActive() ? 50 : 250;
+      const delay = this.reducedMotionActive() ? 50 : SETTLEMENT_THRESHOLD.checkDuration;
       setTimeout(() => {
         // Double-check that dice are still stopped before emitting results
-        const stillStopped = this.dice.every((dice) => {
-          const velocity = dice.body.velocity.length();
-          const angularVelocity = dice.body.angularVelocity.length();
-          return velocity < 0.02 && angularVelocity < 0.02;
-        });
+        const stillStopped = areBodiesAtRest(
+          this.dice.map((dice) => dice.body),
+          SETTLEMENT_THRESHOLD.confirmationVelocity,
+          SETTLEMENT_THRESHOLD.confirmationAngularVelocity
+        );
 
         if (stillStopped) {
           this.ngZone.run(() => {
             const results = this.dice.map((dice) => this.getDiceFaceValue(dice));
-            this.diceResults.set(results);
+            this.settledValues = results;
+            this.diceResults.set(this.secureMode() ? [] : results);
             this.isRolling.set(false);
 
-            // Announce results to screen readers
-            this.announcement.set(this.i18n.diceRolledAnnouncement(results));
-
-            this.rollComplete.emit(results);
+            // Announce results to screen readers, unless they are to be heard or kept secure
+            if (this.audioMode()) {
+              this.announcement.set(this.i18n.audioReadyAnnouncement);
+              void this.playAudioChallenge();
+            } else if (this.secureMode()) {
+              this.announcement.set(this.i18n.secureRollAnnouncement(this.revealEnabled()));
+            } else {
+              this.announcement.set(this.i18n.diceRolledAnnouncement(results));
+            }
+
+            this.rollComplete.emit(this.secureMode() ? [] : results);
           });
         }
       }, delay);
@@ -1277,74 +1804,55 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    * @private
    */
   private getDiceFaceValue(dice: Dice): number {
-    const upVector = new THREE.Vector3(0, 1, 0);
-    const quaternion = new THREE.Quaternion(
-      dice.body.quaternion.x,
-      dice.body.quaternion.y,
-      dice.body.quaternion.z,
-      dice.body.quaternion.w
-    );
+    return getUpwardFaceValue(dice.body.quaternion, dice.type);
+  }
 
-    // For D6, check which face is pointing up
-    // This is a simplified version - real implementation would need face normals
-    const faceNormals = this.getDiceFaceNormals(dice.type);
-    let maxDot = -Infinity;
-    let faceValue = 1;
-
-    faceNormals.forEach((normal, index) => {
-      const worldNormal = normal.clone().applyQuaternion(quaternion);
-      const dot = worldNormal.dot(upVector);
-      if (dot > maxDot) {
-        maxDot = dot;
-        faceValue = index + 1;
-      }
-    });
+  /**
+   * Gets the current dice face values from the last roll.
+   *
+   * @returns Array of face values (1-based); empty in secure mode
+   * @public
+   */
+  getDiceResults(): number[] {
+    return this.diceResults();
+  }
 
-    return faceValue;
+  /**
+   * Gets the face values of the last settled roll, also in secure mode.
+   * Lets the host check answers without the values passing through outputs.
+   *
+   * @returns Array of face values (1-based); empty until the dice settle
+   * @internal
+   * @since 2.4.0
+   */
+  getSettledValues(): number[] {
+    return this.settledValues;
   }
 
   /**
-   * Gets the face normal vectors for a specific dice type.
+   * Gets the spec of the last seeded roll.
    *
-   * Returns an array of vectors pointing outward from each face.
-   * Used to determine which face is pointing up after a roll.
+   * Send it to the server to replay the roll headlessly with cannon-es.
    *
-   * @param type - The dice type (D6, D8, D12, D20)
-   * @returns Array of normalized face vectors
-   * @private
+   * @returns The resolved roll spec, or null if the last roll was not seeded
+   * @public
+   * @since 2.4.0
    */
-  private getDiceFaceNormals(type: DiceType): THREE.Vector3[] {
-    // For D6 - face normals matching material order in dice-factory.service.ts
-    // Materials are applied as: [right=4, left=3, top=6, bottom=1, front=5, back=2]
-    // Returns array where index corresponds to face value (normals[0] = face 1, etc.)
-    if (type === DiceType.D6) {
-      return [
-        new THREE.Vector3(0, -1, 0), // Face 1: bottom (-Y)
-        new THREE.Vector3(0, 0, -1), // Face 2: back (-Z)
-        new THREE.Vector3(-1, 0, 0), // Face 3: left (-X)
-        new THREE.Vector3(1, 0, 0), // Face 4: right (+X)
-        new THREE.Vector3(0, 0, 1), // Face 5: front (+Z)
-        new THREE.Vector3(0, 1, 0), // Face 6: top (+Y)
-      ];
-    }
-
-    // For other dice types, return simplified normals
-    // In a real implementation, you'd calculate proper face normals for each dice type
-    const faceCount = parseInt(type.substring(1));
-    return Array.from({ length: faceCount }, (_, i) => {
-      const angle = (i / faceCount) * Math.PI * 2;
-      return new THREE.Vector3(Math.cos(angle), 0, Math.sin(angle));
-    });
+  getRollSpec(): Required<RollSpec> | null {
+    return this.activeRollSpec ? { ...this.activeRollSpec } : null;
   }
 
   /**
-   * Gets the current dice face values from the last roll.
+   * Gets the order of the dice from left to right on screen.
+   *
+   * Position challenges such as "the two leftmost dice" are answered in this order.
    *
-   * @returns Array of face values (1-based)
+   * @returns Dice indices, leftmost first
    * @public
+   * @since 2.4.0
    */
-  getDiceResults(): number[] {
-    return this.diceResults();
+  getScreenOrder(): number[] {
+    return this.threeRenderer.getScreenOrder(this.dice.map((dice) => dice.mesh));
   }
 
   /**
@@ -1359,10 +1867,11 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   /**
    * Handles verification request from control overlay.
    *
-   * @param data - Object containing dice values and sum entered by the user
+   * @param data - Object containing dice values and sum, or the challenge answer,
+   * entered by the user
    * @public
    */
-  onVerify(data: { diceValues: number[]; sum: number }): void {
+  onVerify(data: { diceValues: number[]; sum: number; answer?: number }): void {
     this.verificationRequested.emit(data);
   }
 
@@ -1374,6 +1883,10 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    * @public
    */
   resetForNewRoll(): void {
+    this.audio.stop();
+    this.cancelReveal();
+    this.settledValues = [];
+    this.keyboardTarget.set(null);
     this.diceResults.set([]);
     this.diceRolled.set(false);
     const overlay = this.controlOverlay();
@@ -1385,17 +1898,306 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
   /**
    * Handles keyboard actions from the accessibility directive.
    *
-   * Supports keyboard-based dice rolling for users who cannot use a mouse.
+   * Implements the keyboard scheme (see {@link CaptchaKeyAction}) for users
+   * who cannot use a mouse: roll and submit, move between and clear the dice,
+   * re-roll, hint, high contrast, audio challenge and secure mode reveal.
    *
-   * @param action - The keyboard action (e.g., 'activate')
+   * @param action - The keyboard action (e.g., 'roll')
    * @internal
    */
   onKeyboardAction(action: string): void {
-    if (action === 'activate' && this.canInteract()) {
+    const overlay = this.controlOverlay();
+    const settled = this.diceRolled() && !this.isRolling();
+
+    switch (action) {
+      case 'activate':
+        if (this.canInteract()) {
+          this.rollDice();
+        }
+        break;
+
+      case 'roll':
+        if (!this.diceRolled()) {
+          this.rollIfAllowed();
+        } else if (settled && overlay?.canVerify()) {
+          overlay.onVerify();
+        }
+        break;
+
+      case 'reroll':
+        if (this.diceRolled()) {
+          this.rollIfAllowed();
+        }
+        break;
+
+      case 'clear':
+        if (settled) {
+          overlay?.clearKeyboardTarget(this.keyboardTarget() ?? 0);
+        }
+        break;
+
+      case 'nextDie':
+        if (settled) {
+          overlay?.endKeyboardValue();
+        }
+        this.moveKeyboardTarget(1);
+        break;
+
+      case 'previousDie':
+        this.moveKeyboardTarget(-1);
+        break;
+
+      case 'hint':
+      case 'help':
+        this.announcement.set(this.challenge()?.hint ?? this.i18n.keyboardInstructions);
+        break;
+
+      case 'contrast':
+        this.toggleHighContrast();
+        break;
+
+      case 'audio':
+        if (this.audioAvailable() && !this.disabled()) {
+          this.setAudioMode(true);
+        }
+        break;
+
+      case 'reveal':
+        if (!this.disabled()) {
+          this.revealValues();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Handles digit keys from the accessibility directive: types the digit into
+   * the targeted field and moves on once a die is complete.
+   *
+   * @param digit - Digit pressed
+   * @internal
+   * @since 2.4.0
+   */
+  onDigitKey(digit: number): void {
+    const overlay = this.controlOverlay();
+    if (!overlay || !this.diceRolled() || !this.canInteract()) {
+      return;
+    }
+
+    const target = this.keyboardTarget() ?? 0;
+    this.keyboardTarget.set(target);
+    const complete = overlay.typeKeyboardDigit(target, digit);
+    if (complete && target < overlay.keyboardTargetCount() - 1) {
+      this.moveKeyboardTarget(1);
+    }
+  }
+
+  /**
+   * Switches the high-contrast view on or off.
+   *
+   * The scene uses {@link HIGH_CONTRAST_THEME_CONFIG}, and the container gets
+   * the `high-contrast` class for the overlay styles.
+   *
+   * @public
+   * @since 2.4.0
+   */
+  toggleHighContrast(): void {
+    this.highContrast.update((enabled) => !enabled);
+    this.announcement.set(this.i18n.highContrastAnnouncement(this.highContrast()));
+  }
+
+  /**
+   * Rolls from the keyboard unless rolling is blocked, e.g. during the cooldown.
+   *
+   * @private
+   * @since 2.4.0
+   */
+  private rollIfAllowed(): void {
+    if (this.canInteract() && !this.isInCooldown()) {
       this.rollDice();
     }
   }
 
+  /**
+   * Moves the keyboard target to the next or previous field, wrapping around,
+   * and announces the die it lands on.
+   *
+   * @param step - 1 for the next field, -1 for the previous
+   * @private
+   * @since 2.4.0
+   */
+  private moveKeyboardTarget(step: number): void {
+    const overlay = this.controlOverlay();
+    if (!overlay || !this.diceRolled() || this.isRolling()) {
+      return;
+    }
+
+    const count = overlay.keyboardTargetCount();
+    const current = this.keyboardTarget();
+    const next = current === null ? (step > 0 ? 0 : count - 1) : (current + step + count) % count;
+    this.keyboardTarget.set(next);
+
+    if (overlay.keyboardTargetsDice()) {
+      const diceCount = this.dice.length;
+      this.announcement.set(
+        next < diceCount
+          ? this.i18n.dieTargetAnnouncement(next + 1, diceCount)
+          : this.i18n.sumTargetAnnouncement
+      );
+    }
+  }
+
+  /**
+   * Shows the focus ring around a die in the ring's color, or removes it.
+   *
+   * @param index - Die to ring, or null to remove the ring
+   * @param color - Ring color
+   * @private
+   * @since 2.4.0
+   */
+  private updateFocusRing(index: number | null, color: string): void {
+    if (index === null || !this.dice[index]) {
+      if (this.focusRing && this.focusRingDie !== null) {
+        this.threeRenderer.removeFromScene(this.focusRing);
+      }
+      this.focusRingDie = null;
+      return;
+    }
+
+    if (!this.focusRing) {
+      const size = this.diceSize();
+      this.focusRing = new THREE.Mesh(
+        new THREE.TorusGeometry(size * 0.95, size * 0.06, 12, 48),
+        new THREE.MeshBasicMaterial({ depthTest: false })
+      );
+      this.focusRing.rotation.x = -Math.PI / 2; // Lies flat around the die
+      this.focusRing.renderOrder = 1; // Drawn over the dice
+    }
+
+    if (this.focusRingDie === null) {
+      this.threeRenderer.addToScene(this.focusRing);
+    }
+    this.focusRing.material.color.set(color);
+    this.focusRingDie = index;
+    this.syncFocusRing();
+  }
+
+  /**
+   * Keeps the focus ring on its die, which may move or scale on resize.
+   *
+   * @private
+   * @since 2.4.0
+   */
+  private syncFocusRing(): void {
+    const dice = this.focusRingDie === null ? undefined : this.dice[this.focusRingDie];
+    if (this.focusRing && dice) {
+      this.focusRing.position.copy(dice.mesh.position);
+      this.focusRing.scale.copy(dice.mesh.scale);
+    }
+  }
+
+  /**
+   * Switches the audio challenge on or off.
+   *
+   * Switching it on prepares audio playback within the user's gesture and,
+   * if the dice have settled, plays them.
+   *
+   * @param enabled - Whether to use the audio challenge
+   * @public
+   * @since 2.4.0
+   */
+  setAudioMode(enabled: boolean): void {
+    this.audioMode.set(enabled);
+
+    if (!enabled) {
+      this.audio.stop();
+      return;
+    }
+
+    this.announcement.set(this.i18n.audioInstructions);
+    if (this.settledValues.length > 0 && !this.isRolling()) {
+      void this.playAudioChallenge();
+    } else {
+      void this.audio.prepare();
+    }
+  }
+
+  /**
+   * Plays the settled dice as an audio challenge, in dice order.
+   *
+   * @public
+   * @since 2.4.0
+   */
+  async playAudioChallenge(): Promise<void> {
+    const results = this.settledValues;
+    if (!this.audioMode() || results.length === 0) {
+      return;
+    }
+
+    this.audioPlaying.set(true);
+    try {
+      await this.audio.play(results, this.audioChallenge() ?? {});
+    } finally {
+      this.audioPlaying.set(false);
+    }
+  }
+
+  /**
+   * Reads the settled dice to screen readers in secure mode.
+   *
+   * The values are announced once per roll, after the reveal's `delay`, and
+   * removed from the live region after its `duration`. Rolling again cancels
+   * a pending reveal.
+   *
+   * @public
+   * @since 2.4.0
+   */
+  revealValues(): void {
+    if (!this.revealAvailable()) {
+      return;
+    }
+
+    const { delay, duration } = { ...DEFAULT_VALUE_REVEAL, ...this.reveal() };
+    const message = this.i18n.diceRolledAnnouncement(this.settledValues);
+    this.revealUsed.set(true);
+    this.announcement.set(this.i18n.revealPendingAnnouncement(Math.ceil(delay / 1000)));
+
+    this.revealTimers = [
+      setTimeout(() => this.announcement.set(message), delay),
+      setTimeout(() => {
+        if (this.announcement() === message) {
+          this.announcement.set('');
+        }
+      }, delay + duration),
+    ];
+  }
+
+  /**
+   * Cancels a pending reveal and clears revealed values from the live region.
+   *
+   * @private
+   * @since 2.4.0
+   */
+  private cancelReveal(): void {
+    this.revealTimers.forEach((timer) => clearTimeout(timer));
+    this.revealTimers = [];
+    if (this.revealUsed()) {
+      this.announcement.set('');
+    }
+    this.revealUsed.set(false);
+  }
+
+  /**
+   * Announces a message through the canvas's screen reader live region.
+   *
+   * @param message - Message to announce
+   * @public
+   * @since 2.4.0
+   */
+  announce(message: string): void {
+    this.announcement.set(message);
+  }
+
   /**
    * Handles changes to reduced motion preference.
    *
@@ -1419,6 +2221,15 @@ export class DiceCanvasComponent implements OnInit, OnDestroy {
    */
   private dispose(): void {
     this.isDisposed = true;
+    this.audio.stop();
+    this.cancelReveal();
+
+    // Remove the keyboard focus ring
+    if (this.focusRing) {
+      this.updateFocusRing(null, '');
+      this.focusRing.geometry.dispose();
+      this.focusRing.material.dispose();
+    }
 
     // Unregister resize callback
     if (this.resizeCleanup) {
@@ -11,6 +11,8 @@ import {
   input,
 } from '@angular/core';
 import { DOCUMENT } from '@angular/common';
+import { CaptchaKeymap } from '../models/keymap.model';
+import { resolveKeyAction } from '../utils/keymap.util';
 
 /**
  * Directive to enhance accessibility features
@@ -33,8 +35,21 @@ export class AccessibilityDirective implements OnInit, OnDestroy {
   enableKeyboardShortcuts = input<boolean>(true);
   autoFocus = input<boolean>(false);
 
+  /**
+   * Keyboard scheme bindings, replacing the defaults of the actions listed
+   * @since 2.4.0
+   */
+  keymap = input<CaptchaKeymap | null>(null);
+
   // Outputs
   keyboardAction = output<string>();
+
+  /**
+   * Emitted when a digit key is pressed while the host itself has focus
+   * @since 2.4.0
+   */
+  digitKey = output<number>();
+
   reducedMotionChange = output<boolean>();
   highContrastChange = output<boolean>();
 
@@ -158,6 +173,23 @@ export class AccessibilityDirective implements OnInit, OnDestroy {
 
     const key = event.key.toLowerCase();
     const hasModifier = event.ctrlKey || event.metaKey || event.altKey;
+    const onHost = event.target === this.elementRef.nativeElement;
+
+    // Keyboard scheme; keys without a modifier only act on the host itself,
+    // so fields and buttons inside it keep their own keys
+    const action = resolveKeyAction(event, this.keymap());
+    if (action && (onHost || hasModifier)) {
+      event.preventDefault();
+      this.keyboardAction.emit(action);
+      return;
+    }
+
+    // Digits fill the dice
+    if (onHost && !hasModifier && /^[0-9]$/.test(event.key)) {
+      event.preventDefault();
+      this.digitKey.emit(Number(event.key));
+      return;
+    }
 
     // Space or Enter to activate
     if (key === ' ' || key === 'enter') {
@@ -15,6 +15,8 @@ import {
  * - Arrow key navigation between inputs
  * - Enter key moves to next input or submits
  * - Backspace on empty input moves to previous
+ * - Arrow keys check the next or previous radio of a radio group, such as an
+ *   answer grid; Enter checks the focused radio and moves on
  * - Configurable submit button selector
  * 
  * @example
@@ -22,6 +24,10 @@ import {
  * <form ngxFormFocusFlow [autoFocus]="true" submitButtonSelector=".btn-verify">
  *   <input type="text" data-focus-index="0" />
  *   <input type="text" data-focus-index="1" />
+ *   <div role="radiogroup">
+ *     <button type="button" role="radio" aria-checked="false">1</button>
+ *     <button type="button" role="radio" aria-checked="false">2</button>
+ *   </div>
  *   <button class="btn-verify">Submit</button>
  * </form>
  * ```
@@ -89,6 +95,11 @@ export class FormFocusFlowDirective {
                 return;
             }
 
+            // Radios move within their group instead of across the form
+            if (target.getAttribute('role') === 'radio' && this.handleRadioKey(event, target)) {
+                return;
+            }
+
             // Get all focusable elements (inputs + buttons)
             const focusableElements = this.getAllFocusableElements();
             const currentIndex = focusableElements.indexOf(target);
@@ -119,8 +130,8 @@ export class FormFocusFlowDirective {
             // Input-specific handling
             if (!this.isFormInput(target)) return;
 
-            const inputs = this.getFormInputs();
-            const inputIndex = inputs.indexOf(target as HTMLInputElement);
+            const inputs = this.getFormFields();
+            const inputIndex = inputs.indexOf(target);
 
             if (inputIndex === -1) return;
 
@@ -149,17 +160,51 @@ export class FormFocusFlowDirective {
             const maxLength = parseInt(target.getAttribute('maxlength') || '0', 10);
 
             if (maxLength === 1 && target.value.length === 1) {
-                const inputs = this.getFormInputs();
+                const inputs = this.getFormFields();
                 const currentIndex = inputs.indexOf(target);
                 this.focusInput(inputs, currentIndex + 1);
             }
         });
     }
 
+    /**
+     * Handle arrow and Enter keys on a radio.
+     * Arrows check and focus the next or previous radio of its group, wrapping
+     * around. Enter checks the radio and moves to the next field.
+     * @returns Whether the key was handled
+     */
+    private handleRadioKey(event: KeyboardEvent, radio: HTMLElement): boolean {
+        const group = radio.closest('[role="radiogroup"]');
+        if (!group) return false;
+
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            event.stopPropagation();
+            radio.click();
+
+            const fields = this.getFormFields();
+            const index = fields.findIndex(field => field.closest('[role="radiogroup"]') === group);
+            this.handleEnterKey(fields, index);
+            return true;
+        }
+
+        const step = event.key === 'ArrowRight' || event.key === 'ArrowDown' ? 1
+            : event.key === 'ArrowLeft' || event.key === 'ArrowUp' ? -1
+            : 0;
+        if (step === 0) return false;
+
+        event.preventDefault();
+        const radios = Array.from(group.querySelectorAll('[role="radio"]')) as HTMLElement[];
+        const next = radios[(radios.indexOf(radio) + step + radios.length) % radios.length];
+        next.click();
+        next.focus();
+        return true;
+    }
+
     /**
      * Handle Enter key press
      */
-    private handleEnterKey(inputs: HTMLInputElement[], currentIndex: number): void {
+    private handleEnterKey(inputs: HTMLElement[], currentIndex: number): void {
         // If not on last input, move to next
         if (currentIndex < inputs.length - 1) {
             this.focusInput(inputs, currentIndex + 1);
@@ -174,12 +219,14 @@ export class FormFocusFlowDirective {
     /**
      * Focus input at specific index
      */
-    private focusInput(inputs: HTMLInputElement[], index: number): void {
+    private focusInput(inputs: HTMLElement[], index: number): void {
         if (index < 0 || index >= inputs.length) return;
 
         setTimeout(() => {
             inputs[index]?.focus();
-            inputs[index]?.select();
+            if (inputs[index] instanceof HTMLInputElement) {
+                inputs[index].select();
+            }
         }, 0);
     }
 
@@ -188,12 +235,14 @@ export class FormFocusFlowDirective {
      */
     private focusFirstInput(): void {
         // Query inputs directly without delay since we're already in a setTimeout
-        const inputs = this.getFormInputs();
+        const inputs = this.getFormFields();
 
         if (inputs.length === 0) return;
 
         inputs[0]?.focus();
-        inputs[0]?.select();
+        if (inputs[0] instanceof HTMLInputElement) {
+            inputs[0].select();
+        }
     }
 
     /**
@@ -243,6 +292,26 @@ export class FormFocusFlowDirective {
         );
     }
 
+    /**
+     * Get the fields of the form in order: text inputs, and for each radio
+     * group its checked radio, or its first radio when none is checked
+     */
+    private getFormFields(): HTMLElement[] {
+        const form = this.elementRef.nativeElement as HTMLElement;
+        const inputs: HTMLElement[] = this.getFormInputs();
+        const radios = Array.from(form.querySelectorAll('[role="radiogroup"]'))
+            .map(group =>
+                group.querySelector('[role="radio"][aria-checked="true"]') ??
+                group.querySelector('[role="radio"]')
+            )
+            .filter((radio): radio is HTMLElement => radio instanceof HTMLElement)
+            .filter(radio => radio.offsetParent !== null); // visible
+
+        return [...inputs, ...radios].sort((a, b) =>
+            a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+        );
+    }
+
     /**
      * Get all focusable elements (inputs + buttons) in order
      */
@@ -0,0 +1,42 @@
+/**
+ * Recorded sample per spoken value, e.g. `{ 1: '/assets/audio/one.mp3', ... }`.
+ *
+ * Values without a sample are spoken digit by digit, so samples for 0 to 9
+ * cover every dice type. URLs must be same-origin or CORS-enabled.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export type AudioSampleSet = Partial<Record<number, string>>;
+
+/**
+ * Settings of the audio challenge, an alternative to reading the dice for
+ * users who cannot see them.
+ *
+ * The audio challenge plays the value of each die in order, as a count of
+ * tones or as spoken samples, over background noise. Values are never written
+ * to the DOM or announced to screen readers while it is active.
+ *
+ * @example
+ * ```typescript
+ * config = {
+ *   audio: {
+ *     samples: { 0: '/assets/zero.mp3', 1: '/assets/one.mp3', ... },
+ *     noise: 0.2,
+ *   },
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface AudioChallengeConfig {
+  /** Whether the overlay offers the audio challenge (default: true where Web Audio exists) */
+  enabled?: boolean;
+
+  /** Recorded samples; without them each value is played as a count of tones */
+  samples?: AudioSampleSet;
+
+  /** Volume of the background noise, from 0 to 1 (default: 0.15) */
+  noise?: number;
+}
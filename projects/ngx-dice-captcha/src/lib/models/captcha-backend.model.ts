@@ -0,0 +1,7 @@
+// Shared with the framework-free core in `ngx-dice-captcha/server`
+export type {
+  AnswerSubmission,
+  ChallengeRefusal,
+  ChallengeRequest,
+  IssuedChallenge,
+} from 'ngx-dice-captcha/server';
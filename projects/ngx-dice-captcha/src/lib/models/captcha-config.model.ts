@@ -1,7 +1,16 @@
 import { DiceType } from './dice.model';
+import { DiceSetEntry } from './dice-set.model';
+import { FaceRenderer } from './face-renderer.model';
 import { Difficulty } from './challenge.model';
 import { VerificationMode } from './verification-mode.model';
 import { ResponsiveConfig } from './responsive-config.model';
+import { AudioChallengeConfig } from './audio-challenge.model';
+import { ValueRevealConfig } from './value-reveal.model';
+import { CaptchaKeymap } from './keymap.model';
+import type { PhysicsConfig } from 'ngx-dice-captcha/server';
+
+// Re-export shared types from the framework-free core
+export type { PhysicsConfig } from 'ngx-dice-captcha/server';
 
 /**
  * Main configuration interface for the dice CAPTCHA component.
@@ -18,18 +27,18 @@ import { ResponsiveConfig } from './responsive-config.model';
  *   difficulty: Difficulty.MEDIUM,
  *   theme: {
  *     primaryColor: '#667eea',
- *     backgroundColor: '#f0f0f0',
- *     diceColor: '#ffffff',
+ *     backgroundColor: '#fff8e7',
+ *     diceColor: '#f8f8f8',
  *     dotColor: '#000000',
  *     enableShadows: true,
  *     enableAmbientLight: true
  *   },
  *   physics: {
- *     gravity: -15,
- *     restitution: 0.3,
- *     friction: 0.4,
- *     linearDamping: 0.1,
- *     angularDamping: 0.1,
+ *     gravity: -30,
+ *     restitution: 0.15,
+ *     friction: 0.7,
+ *     linearDamping: 0.8,
+ *     angularDamping: 0.8,
  *     collisionIterations: 10
  *   },
  *   timeout: 120000,
@@ -47,6 +56,32 @@ export interface CaptchaConfig {
   /** Type of dice to use */
   diceType: DiceType;
 
+  /**
+   * Mixed dice set to roll, e.g. two D6 and a D20, in dice order. Overrides
+   * `diceCount` and `diceType`, except in CHALLENGE mode, where the generated
+   * challenge picks the dice.
+   *
+   * @example
+   * ```typescript
+   * dice: [{ type: DiceType.D6 }, { type: DiceType.D6 }, { type: DiceType.D20, color: '#d32f2f' }]
+   * ```
+   * @since 2.4.0
+   */
+  dice?: DiceSetEntry[];
+
+  /**
+   * Draws symbols, letters or images on the dice faces instead of pips and
+   * numbers. The overlay then asks the user to pick the symbol each die shows
+   * from a palette, and `verificationMode` is ignored in favor of INDIVIDUAL_DICE.
+   *
+   * @example
+   * ```typescript
+   * faceRenderer: createSymbolFaceRenderer(ANIMAL_FACE_SYMBOLS)
+   * ```
+   * @since 2.4.0
+   */
+  faceRenderer?: FaceRenderer;
+
   /** Difficulty level of the challenge */
   difficulty: Difficulty;
 
@@ -76,15 +111,76 @@ export interface CaptchaConfig {
   /** Physics simulation parameters */
   physics: PhysicsConfig;
 
-  /** Timeout duration in milliseconds (0 to disable) */
+  /** Time allowed per challenge in milliseconds (0 to disable) */
   timeout?: number;
 
   /** Maximum number of verification attempts allowed */
   maxAttempts: number;
 
-  /** Verification mode (default: INDIVIDUAL_DICE) */
+  /**
+   * Validate answers in the browser when no `CaptchaBackend` is provided (default: false).
+   * Offers no protection against bots; use it for demos and local development only.
+   * @since 2.4.0
+   */
+  demoMode?: boolean;
+
+  /** Which answer fields the overlay shows and checks (default: BOTH) */
   verificationMode?: VerificationMode;
 
+  /**
+   * Rounds to pass before a token is issued (default: 1): a count, or one entry
+   * per round whose settings replace this config's for that round, e.g. another
+   * dice count or difficulty. Each round allows `maxAttempts` attempts; running
+   * out starts over from round 1. A `CaptchaBackend` may require more rounds.
+   *
+   * @example
+   * ```typescript
+   * rounds: [{ diceCount: 2 }, { diceCount: 3, verificationMode: VerificationMode.CHALLENGE }]
+   * ```
+   * @since 2.4.0
+   */
+  rounds?: number | CaptchaRound[];
+
+  /**
+   * How dice values are answered (default: 'text'): typed into fields, or picked
+   * from a grid of face thumbnails painted like the dice, which suits touch
+   * screens. Dice with a `faceRenderer` are always picked from a grid.
+   * @since 2.4.0
+   */
+  diceInputStyle?: 'text' | 'choice';
+
+  /**
+   * Audio challenge offered in the overlay for users who cannot see the dice.
+   * The dice values are played as tones, or spoken with `samples`, over noise,
+   * and typed as heard. Set `enabled: false` to hide it.
+   * @since 2.4.0
+   */
+  audio?: AudioChallengeConfig;
+
+  /**
+   * Keep the dice values out of the DOM, screen reader announcements and the
+   * components' public signals (default: true when a `CaptchaBackend` is
+   * provided). Screen reader users answer with the audio challenge or `reveal`.
+   * @since 2.4.0
+   */
+  secureMode?: boolean;
+
+  /**
+   * Screen reader reveal in secure mode: on request, the values of a roll are
+   * announced once after a delay, then cleared. Off unless `enabled: true`, as
+   * the announced values are in the DOM.
+   * @since 2.4.0
+   */
+  reveal?: ValueRevealConfig;
+
+  /**
+   * Keys of the canvas's keyboard scheme, replacing those of
+   * `DEFAULT_CAPTCHA_KEYMAP` for the actions listed. Update the
+   * `keyboardInstructions` text of `DiceCaptchaI18n` to match.
+   * @since 2.4.0
+   */
+  keymap?: CaptchaKeymap;
+
   /** Position of control overlay (default: 'top-center') */
   overlayPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'top-center';
 
@@ -97,7 +193,12 @@ export interface CaptchaConfig {
   /** Enable compact mode for smaller displays (default: false) */
   compactMode?: boolean;
 
-  /** Timeout behavior when timer expires (default: 'deduct-attempt') */
+  /**
+   * Timeout behavior when timer expires (default: 'deduct-attempt')
+   * - `'deduct-attempt'`: uses up an attempt and starts a new round
+   * - `'lock'`: disables the controls until `reset()` is called
+   * - `'soft-reset'`: starts a new round without using up an attempt
+   */
   timeoutBehavior?: 'deduct-attempt' | 'lock' | 'soft-reset';
 
   /** Enable haptic feedback for mobile devices (default: false) */
@@ -224,6 +325,30 @@ export interface CaptchaConfig {
   resizeThreshold?: number;
 }
 
+/**
+ * Settings of one round of a multi-round challenge. Unset fields keep the
+ * value from {@link CaptchaConfig}.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface CaptchaRound {
+  /** Number of dice to roll */
+  diceCount?: number;
+
+  /** Type of dice to roll */
+  diceType?: DiceType;
+
+  /** Mixed dice set to roll, in dice order */
+  dice?: DiceSetEntry[];
+
+  /** Difficulty of the generated challenge, which picks its operation */
+  difficulty?: Difficulty;
+
+  /** Answer fields to ask for */
+  verificationMode?: VerificationMode;
+}
+
 /**
  * Haptic feedback patterns for different interactions.
  *
@@ -245,15 +370,17 @@ export interface HapticPatterns {
  * Theme and visual configuration for the CAPTCHA.
  *
  * Controls colors, lighting, and visual effects in the 3D scene.
+ * Colors accept any CSS color. Changes apply to a running CAPTCHA
+ * without recreating it.
  *
  * @public
  * @since 1.0.0
  */
 export interface ThemeConfig {
-  /** Primary color for dice and UI elements */
+  /** Primary color for buttons, inputs and result badges */
   primaryColor: string;
 
-  /** Background color for the 3D scene */
+  /** Background color behind the 3D scene */
   backgroundColor: string;
 
   /** Color of dice faces */
@@ -262,7 +389,7 @@ export interface ThemeConfig {
   /** Color of dice dots/numbers */
   dotColor: string;
 
-  /** Enable or disable shadows */
+  /** Enable or disable shadow maps and the shadow-catching ground */
   enableShadows: boolean;
 
   /** Enable or disable ambient lighting */
@@ -270,30 +397,32 @@ export interface ThemeConfig {
 }
 
 /**
- * Physics simulation configuration.
- *
- * Controls the Cannon-es physics parameters for realistic dice behavior.
- * Adjust these values to change how dice roll, bounce, and settle.
+ * Default theme, matching the built-in look of the CAPTCHA
  *
  * @public
- * @since 1.0.0
+ * @since 2.4.0
  */
-export interface PhysicsConfig {
-  /** Gravity force (default: -9.82 for Earth-like gravity) */
-  gravity: number;
-
-  /** Restitution/bounciness of dice (0-1) */
-  restitution: number;
+export const DEFAULT_THEME_CONFIG: ThemeConfig = {
+  primaryColor: '#667eea',
+  backgroundColor: '#fff8e7',
+  diceColor: '#f8f8f8',
+  dotColor: '#000000',
+  enableShadows: true,
+  enableAmbientLight: true,
+};
 
-  /** Friction coefficient (0-1) */
-  friction: number;
-
-  /** Linear damping to slow down movement */
-  linearDamping: number;
-
-  /** Angular damping to slow down rotation */
-  angularDamping: number;
-
-  /** Collision detection iterations */
-  collisionIterations: number;
-}
+/**
+ * High-contrast theme: white dice with black dots on black, without shadows.
+ * Used while the canvas's high-contrast view is on (T, or a system preference).
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const HIGH_CONTRAST_THEME_CONFIG: ThemeConfig = {
+  primaryColor: '#000000',
+  backgroundColor: '#000000',
+  diceColor: '#ffffff',
+  dotColor: '#000000',
+  enableShadows: false,
+  enableAmbientLight: true,
+};
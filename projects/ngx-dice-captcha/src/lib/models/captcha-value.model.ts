@@ -0,0 +1,23 @@
+/**
+ * Value of a form control bound to the CAPTCHA once it is verified.
+ *
+ * @example
+ * ```typescript
+ * const captcha = captchaControl();
+ * // after verification:
+ * // captcha.value => { token: 'eyJ...', expiresAt: 1760000300000, challengeId: 'challenge-...' }
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface CaptchaValue {
+  /** Signed verification token, sent to the server with the form */
+  token: string;
+
+  /** Time the token expires, in milliseconds since the epoch */
+  expiresAt: number;
+
+  /** Identifier of the solved challenge */
+  challengeId: string;
+}
@@ -0,0 +1,3 @@
+// Shared with the framework-free core in `ngx-dice-captcha/server`
+export { DICE_COLOR_PALETTE, getDiceColorIndex } from 'ngx-dice-captcha/server';
+export type { NamedDiceColor } from 'ngx-dice-captcha/server';
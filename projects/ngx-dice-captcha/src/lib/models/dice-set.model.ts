@@ -0,0 +1,3 @@
+// Shared with the framework-free core in `ngx-dice-captcha/server`
+export { getDieType } from 'ngx-dice-captcha/server';
+export type { DiceSetEntry } from 'ngx-dice-captcha/server';
@@ -1,5 +1,10 @@
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
+import { DiceType } from 'ngx-dice-captcha/server';
+import type { FaceRenderer } from './face-renderer.model';
+
+// Re-export shared types from the framework-free core
+export { DICE_FACE_COUNT, DiceType } from 'ngx-dice-captcha/server';
 
 /**
  * Represents a complete 3D dice object with both rendering and physics components.
@@ -25,26 +30,16 @@ export interface Dice {
 
   /** Textures used by this dice (for proper disposal) */
   textures?: THREE.Texture[];
-}
-
-/**
- * Enum representing different types of dice by their number of faces.
- *
- * Supports standard polyhedral dice used in tabletop gaming and CAPTCHA challenges.
- *
- * @public
- * @since 1.0.0
- */
-export enum DiceType {
-  /** Standard 6-sided dice */
-  D6 = 'D6',
-
-  /** 8-sided dice */
-  D8 = 'D8',
-
-  /** 12-sided dice */
-  D12 = 'D12',
 
-  /** 20-sided dice */
-  D20 = 'D20',
+  /**
+   * Name challenges use for this dice, e.g. `'blue'` for color-coded dice
+   * @since 2.4.0
+   */
+  label?: string;
+
+  /**
+   * Draws symbols on the faces instead of pips or numbers
+   * @since 2.4.0
+   */
+  faceRenderer?: FaceRenderer;
 }
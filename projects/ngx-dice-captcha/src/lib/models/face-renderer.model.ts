@@ -0,0 +1,71 @@
+import { DiceType } from './dice.model';
+
+/**
+ * Content drawn on one die face in place of pips or a number.
+ *
+ * Set one of `glyph`, `imageUrl` or `draw`. Symbols are drawn in the dot color
+ * on the die's face color.
+ *
+ * @example
+ * ```typescript
+ * const cat: FaceSymbol = { name: 'cat', glyph: '🐱' };
+ * const logo: FaceSymbol = { name: 'logo', imageUrl: '/assets/logo.png' };
+ * const ring: FaceSymbol = {
+ *   name: 'ring',
+ *   draw: (context, size) => {
+ *     context.lineWidth = size * 0.1;
+ *     context.beginPath();
+ *     context.arc(size / 2, size / 2, size * 0.35, 0, Math.PI * 2);
+ *     context.stroke();
+ *   }
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface FaceSymbol {
+  /** Accessible name, announced for the symbol's palette button, e.g. `'cat'` */
+  name: string;
+
+  /** Text drawn on the face, e.g. `'A'` or `'🐱'` */
+  glyph?: string;
+
+  /** Image drawn on the face and in the palette; must be same-origin or CORS-enabled */
+  imageUrl?: string;
+
+  /**
+   * Draws the symbol into a `size` × `size` square whose fill and stroke styles
+   * are set to the dot color
+   */
+  draw?: (context: CanvasRenderingContext2D, size: number) => void;
+}
+
+/**
+ * Supplies the content of each die face, replacing pips and numbers.
+ *
+ * With a face renderer, the control overlay asks the user to pick the symbol
+ * each die shows from a palette instead of typing its value. Picking the
+ * symbol of face `n` answers `n`, so answers are checked as before. Each face
+ * of a die should get a different symbol.
+ *
+ * @example
+ * ```typescript
+ * const renderer: FaceRenderer = {
+ *   getSymbol: (faceValue) => ANIMAL_FACE_SYMBOLS[faceValue - 1]
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface FaceRenderer {
+  /**
+   * Gets the symbol shown on a face.
+   *
+   * @param faceValue - Face value, from 1 to the die's face count
+   * @param diceType - Type of the die
+   * @returns Symbol drawn on that face
+   */
+  getSymbol(faceValue: number, diceType: DiceType): FaceSymbol;
+}
@@ -0,0 +1,68 @@
+/**
+ * Actions of the keyboard scheme of the dice canvas.
+ *
+ * - `roll` - Roll the dice; once every field is filled, submit the answer
+ * - `reroll` - Roll the dice again
+ * - `clear` - Clear the targeted die, or the last digit of the answer
+ * - `nextDie` / `previousDie` - Move the target to the next or previous die;
+ *   `nextDie` also ends a value typed in the audio or sorting answer field
+ * - `hint` - Announce the challenge hint, or the keyboard instructions
+ * - `contrast` - Switch the high-contrast view on or off
+ * - `audio` - Switch to the audio challenge
+ * - `reveal` - Read the dice once in secure mode
+ *
+ * Digit keys always fill the targeted die and are not part of the keymap.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export type CaptchaKeyAction =
+  | 'roll'
+  | 'reroll'
+  | 'clear'
+  | 'nextDie'
+  | 'previousDie'
+  | 'hint'
+  | 'contrast'
+  | 'audio'
+  | 'reveal';
+
+/**
+ * Keys bound to each action of the keyboard scheme.
+ *
+ * A binding is a `KeyboardEvent.key` or `KeyboardEvent.code`, optionally
+ * prefixed with modifiers: `'r'`, `'Space'`, `'Alt+KeyA'`, `'Ctrl+Shift+H'`.
+ * Keys are matched case-insensitively; `Shift` is only checked when listed.
+ * Bindings without a modifier act while the canvas itself has focus, so they
+ * never interfere with typing in the overlay's fields.
+ *
+ * @example
+ * ```typescript
+ * config = {
+ *   keymap: { reroll: ['n'], contrast: ['c', 'Alt+KeyC'] },
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export type CaptchaKeymap = Partial<Record<CaptchaKeyAction, string[]>>;
+
+/**
+ * Default keyboard scheme; a {@link CaptchaKeymap} replaces the bindings of
+ * the actions it lists.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const DEFAULT_CAPTCHA_KEYMAP: Required<CaptchaKeymap> = {
+  roll: ['Space', 'Enter'],
+  reroll: ['r'],
+  clear: ['Backspace', 'Delete'],
+  nextDie: ['ArrowRight', 'ArrowDown'],
+  previousDie: ['ArrowLeft', 'ArrowUp'],
+  hint: ['h'],
+  contrast: ['t'],
+  audio: ['Alt+KeyA'],
+  reveal: ['Alt+KeyV'],
+};
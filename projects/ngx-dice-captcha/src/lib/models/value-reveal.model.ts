@@ -0,0 +1,43 @@
+/**
+ * Settings of the screen reader reveal offered in secure mode.
+ *
+ * In secure mode the dice values are neither shown nor announced. Once
+ * enabled, an explicit request ("Read the dice" or Alt+V) announces the values
+ * of a roll once through the live region, after a delay, and clears them again
+ * after `duration`. The values are then in the DOM, where scripts can read them
+ * too, so the reveal is off unless enabled. The audio challenge is the
+ * alternative that never writes the values to the DOM.
+ *
+ * @example
+ * ```typescript
+ * config = {
+ *   secureMode: true,
+ *   reveal: { enabled: true, delay: 5000, duration: 6000 },
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export interface ValueRevealConfig {
+  /** Whether the overlay offers the reveal in secure mode (default: false) */
+  enabled?: boolean;
+
+  /** Wait before the values are announced, in milliseconds (default: 3000) */
+  delay?: number;
+
+  /** Time the values stay in the live region, in milliseconds (default: 8000) */
+  duration?: number;
+}
+
+/**
+ * Default settings of the secure mode reveal.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const DEFAULT_VALUE_REVEAL: Required<ValueRevealConfig> = {
+  enabled: false,
+  delay: 3000,
+  duration: 8000,
+};
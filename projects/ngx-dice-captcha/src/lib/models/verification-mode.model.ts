@@ -1,9 +1,2 @@
-/**
- * Verification mode for the captcha
- */
-export enum VerificationMode {
-  /**
-   * User must enter individual dice values using the overlay interface
-   */
-  INDIVIDUAL_DICE = 'INDIVIDUAL_DICE',
-}
+// Shared with the framework-free core in `ngx-dice-captcha/server`
+export { VerificationMode } from 'ngx-dice-captcha/server';
@@ -0,0 +1,505 @@
+import { Component, Type } from '@angular/core';
+import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { calculateExpectedAnswer } from 'ngx-dice-captcha/server';
+import { NgxDiceCaptchaComponent } from './ngx-dice-captcha.component';
+import { CaptchaConfig } from './models/captcha-config.model';
+import { Difficulty } from './models/challenge.model';
+import { DiceType } from './models/dice.model';
+import { VerificationMode } from './models/verification-mode.model';
+import { VerificationFailureReason, VerificationResult } from './models/verification-result.model';
+import { LETTER_FACE_SYMBOLS, createSymbolFaceRenderer } from './utils/face-renderer.util';
+import { captchaControl } from './utils/captcha-control.util';
+import { CaptchaValue } from './models/captcha-value.model';
+import { CaptchaBackend } from './services/captcha-backend.service';
+import { InMemoryCaptchaBackend } from './services/in-memory-captcha-backend.service';
+
+// None of these specs depend on the 3D canvas, so the template is left out
+const configureTestBed = async (host: Type<unknown> = NgxDiceCaptchaComponent) => {
+  await TestBed.configureTestingModule({ imports: [host] })
+    .overrideComponent(NgxDiceCaptchaComponent, { set: { template: '' } })
+    .compileComponents();
+
+  spyOn(console, 'warn');
+};
+
+const createCaptcha = (config?: Partial<CaptchaConfig>) => {
+  const fixture = TestBed.createComponent(NgxDiceCaptchaComponent);
+  if (config) {
+    fixture.componentRef.setInput('config', config);
+    fixture.detectChanges();
+  }
+  return fixture;
+};
+
+describe('NgxDiceCaptchaComponent - Challenge Timeout', () => {
+  let component: NgxDiceCaptchaComponent;
+  let fixture: ComponentFixture<NgxDiceCaptchaComponent>;
+  let expired: VerificationResult[];
+
+  beforeEach(async () => {
+    await configureTestBed();
+    fixture = createCaptcha();
+    component = fixture.componentInstance;
+    expired = [];
+    component.expired.subscribe((result) => expired.push(result));
+  });
+
+  const start = (config: Partial<CaptchaConfig>) => {
+    fixture.componentRef.setInput('config', { demoMode: true, maxAttempts: 3, ...config });
+    fixture.detectChanges();
+  };
+
+  it('should count down from the configured timeout', fakeAsync(() => {
+    start({ timeout: 5000 });
+    expect(component.timeRemaining()).toBe(5);
+
+    tick(2000);
+    expect(component.timeRemaining()).toBe(3);
+
+    fixture.destroy();
+  }));
+
+  it('should not run a clock when timeout is 0', fakeAsync(() => {
+    start({ timeout: 0 });
+    expect(component.timeRemaining()).toBeNull();
+
+    tick(10000);
+    expect(expired.length).toBe(0);
+
+    fixture.destroy();
+  }));
+
+  it('should hide the countdown unless showTimer is set', fakeAsync(() => {
+    start({ timeout: 5000 });
+    expect(component.visibleTimeRemaining()).toBeNull();
+
+    fixture.componentRef.setInput('config', { demoMode: true, timeout: 5000, showTimer: true });
+    expect(component.visibleTimeRemaining()).toBe(5);
+
+    fixture.destroy();
+  }));
+
+  it('should use up an attempt and start a new round with deduct-attempt', fakeAsync(() => {
+    start({ timeout: 5000, timeoutBehavior: 'deduct-attempt' });
+    const firstChallenge = component.currentChallenge();
+
+    tick(5000);
+
+    expect(expired.length).toBe(1);
+    expect(expired[0].reason).toBe(VerificationFailureReason.CHALLENGE_EXPIRED);
+    expect(expired[0].attemptsRemaining).toBe(2);
+    expect(component.attemptsUsed()).toBe(1);
+    expect(component.currentChallenge()).not.toBe(firstChallenge);
+    expect(component.timeRemaining()).toBe(5);
+
+    fixture.destroy();
+  }));
+
+  it('should start the cooldown when the last attempt times out', fakeAsync(() => {
+    start({ timeout: 5000, timeoutBehavior: 'deduct-attempt', maxAttempts: 1 });
+
+    tick(5000);
+
+    expect(expired[0].attemptsRemaining).toBe(0);
+    expect(component.isInCooldown()).toBeTrue();
+    expect(component.timeRemaining()).toBeNull();
+
+    fixture.destroy();
+  }));
+
+  it('should lock until reset with lock', fakeAsync(() => {
+    start({ timeout: 5000, timeoutBehavior: 'lock' });
+
+    tick(5000);
+    expect(component.isExpired()).toBeTrue();
+    expect(component.timeRemaining()).toBe(0);
+
+    tick(10000);
+    expect(expired.length).toBe(1);
+
+    component.reset();
+    expect(component.isExpired()).toBeFalse();
+    expect(component.timeRemaining()).toBe(5);
+
+    fixture.destroy();
+  }));
+
+  it('should start a new round without using an attempt with soft-reset', fakeAsync(() => {
+    start({ timeout: 5000, timeoutBehavior: 'soft-reset' });
+
+    tick(5000);
+
+    expect(expired.length).toBe(1);
+    expect(expired[0].attemptsRemaining).toBeUndefined();
+    expect(component.attemptsUsed()).toBe(0);
+    expect(component.isExpired()).toBeFalse();
+    expect(component.timeRemaining()).toBe(5);
+
+    fixture.destroy();
+  }));
+});
+
+describe('NgxDiceCaptchaComponent - Challenge Mode', () => {
+  let component: NgxDiceCaptchaComponent;
+  let fixture: ComponentFixture<NgxDiceCaptchaComponent>;
+
+  beforeEach(async () => {
+    await configureTestBed();
+    fixture = createCaptcha({
+      demoMode: true,
+      timeout: 0,
+      diceCount: 5,
+      difficulty: Difficulty.EASY,
+      verificationMode: VerificationMode.CHALLENGE,
+    });
+    component = fixture.componentInstance;
+  });
+
+  afterEach(() => fixture.destroy());
+
+  it('should pose the generated challenge and roll its dice count', () => {
+    expect(component.posedChallenge()).toBe(component.currentChallenge());
+    expect(component.activeDiceCount()).toBe(2);
+  });
+
+  it('should verify the computed answer', async () => {
+    const rolled = [3, 4];
+    // Easy challenges are never sorting challenges, so the answer is a number
+    const answer = calculateExpectedAnswer(component.posedChallenge()!, rolled) as number;
+    const verified = new Promise<VerificationResult>((resolve) =>
+      component.verified.subscribe(resolve)
+    );
+
+    component.storedDiceValues.set(rolled);
+    component.onVerificationRequested({ diceValues: [], sum: 0, answer });
+
+    const result = await verified;
+    expect(result.success).toBeTrue();
+    expect(result.token?.split('.').length).toBe(3);
+  });
+
+  it('should reject a wrong answer', () => {
+    const failed: VerificationResult[] = [];
+    component.failed.subscribe((result) => failed.push(result));
+
+    component.storedDiceValues.set([3, 4]);
+    component.onVerificationRequested({ diceValues: [], sum: 0, answer: 99 });
+
+    expect(failed.length).toBe(1);
+    expect(failed[0].token).toBeUndefined();
+    expect(failed[0].attemptsRemaining).toBe(2);
+  });
+
+  it('should sign the token of a submitted answer', async () => {
+    const rolled = [3, 4];
+    // Easy challenges are never sorting challenges, so the answer is a number
+    const answer = calculateExpectedAnswer(component.currentChallenge()!, rolled) as number;
+    const verified = new Promise<VerificationResult>((resolve) =>
+      component.verified.subscribe(resolve)
+    );
+
+    component.diceResults.set(rolled);
+    void component.onAnswerSubmitted(answer);
+
+    const result = await verified;
+    expect(result.token?.split('.').length).toBe(3);
+  });
+});
+
+describe('NgxDiceCaptchaComponent - Mixed Dice', () => {
+  let component: NgxDiceCaptchaComponent;
+  let fixture: ComponentFixture<NgxDiceCaptchaComponent>;
+
+  const dice = [{ type: DiceType.D6 }, { type: DiceType.D6 }, { type: DiceType.D20 }];
+
+  beforeEach(() => configureTestBed());
+
+  afterEach(() => fixture.destroy());
+
+  const start = (config: Partial<CaptchaConfig>) => {
+    fixture = createCaptcha({ demoMode: true, timeout: 0, ...config });
+    component = fixture.componentInstance;
+  };
+
+  it('should roll the configured dice set', () => {
+    start({ diceCount: 5, dice });
+
+    expect(component.activeDiceCount()).toBe(3);
+    expect(component.activeDiceTypes()).toEqual([DiceType.D6, DiceType.D6, DiceType.D20]);
+  });
+
+  it('should roll the generated challenge dice in CHALLENGE mode', () => {
+    start({
+      dice,
+      diceType: DiceType.D8,
+      difficulty: Difficulty.EASY,
+      verificationMode: VerificationMode.CHALLENGE,
+    });
+
+    expect(component.activeDiceTypes()).toEqual([DiceType.D8, DiceType.D8]);
+  });
+});
+
+describe('NgxDiceCaptchaComponent - Face Renderer', () => {
+  let fixture: ComponentFixture<NgxDiceCaptchaComponent>;
+
+  beforeEach(() => configureTestBed());
+
+  afterEach(() => fixture.destroy());
+
+  it('should ask for the dice only when faces show symbols', () => {
+    fixture = createCaptcha({
+      demoMode: true,
+      timeout: 0,
+      verificationMode: VerificationMode.BOTH,
+      faceRenderer: createSymbolFaceRenderer(LETTER_FACE_SYMBOLS),
+    });
+
+    expect(fixture.componentInstance.activeVerificationMode()).toBe(
+      VerificationMode.INDIVIDUAL_DICE
+    );
+  });
+});
+
+describe('NgxDiceCaptchaComponent - Multiple Rounds', () => {
+  let component: NgxDiceCaptchaComponent;
+  let fixture: ComponentFixture<NgxDiceCaptchaComponent>;
+  let passed: VerificationResult[];
+
+  beforeEach(async () => {
+    await configureTestBed();
+    fixture = createCaptcha({
+      demoMode: true,
+      timeout: 0,
+      maxAttempts: 2,
+      diceCount: 2,
+      verificationMode: VerificationMode.INDIVIDUAL_DICE,
+      rounds: [{}, { diceCount: 3 }],
+    });
+    component = fixture.componentInstance;
+    passed = [];
+    component.roundPassed.subscribe((result) => passed.push(result));
+  });
+
+  afterEach(() => fixture.destroy());
+
+  const answer = (rolled: number[]) => {
+    component.storedDiceValues.set(rolled);
+    component.onVerificationRequested({
+      diceValues: rolled,
+      sum: rolled.reduce((a, b) => a + b, 0),
+    });
+  };
+
+  it('should pass a round without a token and play the next round with its settings', () => {
+    component.storedDiceValues.set([2, 5]);
+    component.onVerificationRequested({ diceValues: [1, 1], sum: 2 });
+    answer([2, 5]);
+
+    expect(passed.length).toBe(1);
+    expect(passed[0]).toEqual(
+      jasmine.objectContaining({ success: true, round: 1, totalRounds: 2 })
+    );
+    expect(passed[0].token).toBeUndefined();
+    expect(component.currentRound()).toBe(2);
+    expect(component.attemptsUsed()).toBe(0);
+    expect(component.activeDiceCount()).toBe(3);
+  });
+
+  it('should issue the token after the last round, with every round result', async () => {
+    const verified = new Promise<VerificationResult>((resolve) =>
+      component.verified.subscribe(resolve)
+    );
+
+    answer([2, 5]);
+    answer([1, 3, 6]);
+
+    const result = await verified;
+    expect(result.token).toBeDefined();
+    expect(result.round).toBe(2);
+    expect(result.roundResults?.map((round) => round.round)).toEqual([1, 2]);
+  });
+
+  it('should start over from round 1 after a new challenge', () => {
+    answer([2, 5]);
+    component.reset();
+
+    expect(component.currentRound()).toBe(1);
+    expect(component.roundResults()).toEqual([]);
+    expect(component.activeDiceCount()).toBe(2);
+  });
+});
+
+@Component({
+  standalone: true,
+  imports: [NgxDiceCaptchaComponent, ReactiveFormsModule],
+  template: `<ngx-dice-captcha [formControl]="captcha" [config]="config" />`,
+})
+class CaptchaFormHostComponent {
+  readonly captcha = captchaControl();
+  readonly config = {
+    demoMode: true,
+    timeout: 0,
+    diceCount: 2,
+    verificationMode: VerificationMode.INDIVIDUAL_DICE,
+  };
+}
+
+describe('NgxDiceCaptchaComponent - Forms', () => {
+  let fixture: ComponentFixture<CaptchaFormHostComponent>;
+  let control: FormControl<CaptchaValue | null>;
+  let component: NgxDiceCaptchaComponent;
+
+  beforeEach(async () => {
+    await configureTestBed(CaptchaFormHostComponent);
+    fixture = TestBed.createComponent(CaptchaFormHostComponent);
+    fixture.detectChanges();
+    control = fixture.componentInstance.captcha;
+    component = fixture.debugElement.children[0].componentInstance;
+  });
+
+  afterEach(() => fixture.destroy());
+
+  const solve = () => {
+    const verified = new Promise<VerificationResult>((resolve) =>
+      component.verified.subscribe(resolve)
+    );
+    component.storedDiceValues.set([3, 4]);
+    component.onVerificationRequested({ diceValues: [3, 4], sum: 7 });
+    return verified;
+  };
+
+  it('should be invalid until verified, then hold the token', async () => {
+    expect(control.hasError('captchaRequired')).toBeTrue();
+
+    const result = await solve();
+
+    expect(control.value?.token).toBe(result.token!);
+    expect(control.value?.expiresAt).toBeGreaterThan(Date.now());
+    expect(control.valid).toBeTrue();
+    expect(control.dirty).toBeTrue();
+  });
+
+  it('should clear the token when the captcha resets, and reset when the form does', async () => {
+    await solve();
+    component.reset();
+    expect(control.value).toBeNull();
+    expect(control.invalid).toBeTrue();
+
+    await solve();
+    const newChallenge = spyOn(component, 'startNewChallenge');
+    control.reset();
+    expect(newChallenge).toHaveBeenCalled();
+    expect(control.invalid).toBeTrue();
+  });
+
+  it('should clear the token when a new challenge replaces the verified one', async () => {
+    await solve();
+    component.onVerificationClose();
+    expect(control.value).toBeNull();
+
+    await solve();
+    component.startNewChallenge();
+    expect(control.value).toBeNull();
+    expect(control.hasError('captchaRequired')).toBeTrue();
+  });
+
+  it('should not accept answers while the control is disabled', () => {
+    const failed = jasmine.createSpy('failed');
+    component.failed.subscribe(failed);
+    control.disable();
+
+    component.storedDiceValues.set([3, 4]);
+    component.onVerificationRequested({ diceValues: [1, 1], sum: 2 });
+
+    expect(component.isDisabled()).toBeTrue();
+    expect(failed).not.toHaveBeenCalled();
+    expect(component.attemptsUsed()).toBe(0);
+  });
+
+  it('should mark the control as touched when focus leaves the captcha', () => {
+    const host: HTMLElement = fixture.debugElement.children[0].nativeElement;
+    host.dispatchEvent(new FocusEvent('focusout', { relatedTarget: document.body }));
+
+    expect(control.touched).toBeTrue();
+  });
+});
+
+describe('NgxDiceCaptchaComponent - Secure Mode', () => {
+  let component: NgxDiceCaptchaComponent;
+  let fixture: ComponentFixture<NgxDiceCaptchaComponent>;
+
+  const create = (config: Partial<CaptchaConfig>) => {
+    fixture = createCaptcha({ timeout: 0, diceCount: 2, ...config });
+    component = fixture.componentInstance;
+  };
+
+  // The canvas emits no values in secure mode; the component reads them from it
+  const settle = (values: number[]) => {
+    spyOn(component as any, 'diceCanvas').and.returnValue({
+      getScreenOrder: () => values.map((_, index) => index),
+      getSettledValues: () => values,
+      controlOverlay: () => undefined,
+    });
+    component.onDiceRollComplete([]);
+  };
+
+  beforeEach(() => configureTestBed());
+
+  afterEach(() => fixture.destroy());
+
+  it('should keep the rolled values out of its signals and still verify them', async () => {
+    create({ demoMode: true, secureMode: true });
+    const verified = new Promise<VerificationResult>((resolve) =>
+      component.verified.subscribe(resolve)
+    );
+
+    settle([3, 4]);
+    expect(component.diceResults()).toEqual([]);
+    expect(component.storedDiceValues()).toEqual([]);
+
+    component.onVerificationRequested({ diceValues: [3, 4], sum: 7 });
+    expect((await verified).success).toBeTrue();
+  });
+
+  it('should leave the rolled values out of a failed result', () => {
+    create({ demoMode: true, secureMode: true });
+    const failed: VerificationResult[] = [];
+    component.failed.subscribe((result) => failed.push(result));
+
+    settle([3, 4]);
+    component.onVerificationRequested({ diceValues: [3, 5], sum: 8 });
+
+    expect(failed[0].success).toBeFalse();
+    expect(failed[0].diceValues).toBeUndefined();
+    expect(failed[0].expectedSum).toBeUndefined();
+    expect(failed[0].partialMatch?.correctDice).toBeUndefined();
+    expect(failed[0].message).not.toContain('1/2');
+  });
+
+  it('should not emit the rolled values', () => {
+    create({ demoMode: true, secureMode: true });
+    const rolled: number[][] = [];
+    component.diceRolled.subscribe((values) => rolled.push(values));
+
+    settle([3, 4]);
+
+    expect(rolled).toEqual([[]]);
+  });
+
+  it('should not default to secure mode in demo mode', () => {
+    create({ demoMode: true });
+
+    expect(component.secureMode()).toBeFalse();
+  });
+
+  it('should default to secure mode with a backend', () => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: CaptchaBackend, useClass: InMemoryCaptchaBackend }],
+    });
+    create({});
+
+    expect(component.secureMode()).toBeTrue();
+  });
+});
@@ -11,18 +11,44 @@ import {
   viewChild,
   HostListener,
   isDevMode,
+  forwardRef,
+  ElementRef,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  ControlValueAccessor,
+  NG_VALIDATORS,
+  NG_VALUE_ACCESSOR,
+  ValidationErrors,
+  Validator,
+} from '@angular/forms';
+import {
+  DEFAULT_ROLL_PHYSICS,
+  VerificationFailureReason,
+  checkDiceAnswer,
+} from 'ngx-dice-captcha/server';
 import { DiceCanvasComponent } from './components/dice-canvas/dice-canvas.component';
 import { VerificationDisplayComponent } from './components/verification-display/verification-display.component';
 import { ChallengeGeneratorService } from './services/challenge-generator.service';
 import { CaptchaValidatorService } from './services/captcha-validator.service';
-import { CaptchaConfig } from './models/captcha-config.model';
-import { Challenge, Difficulty } from './models/challenge.model';
+import { CaptchaBackend } from './services/captcha-backend.service';
+import { VerificationTokenService } from './services/verification-token.service';
+import { CaptchaConfig, DEFAULT_THEME_CONFIG } from './models/captcha-config.model';
+import { Challenge, Difficulty, OperationType } from './models/challenge.model';
 import { VerificationResult } from './models/verification-result.model';
 import { DiceType } from './models/dice.model';
+import { DiceSetEntry } from './models/dice-set.model';
 import { VerificationMode } from './models/verification-mode.model';
 import { ResponsiveConfig, DEFAULT_RESPONSIVE_CONFIG } from './models/responsive-config.model';
+import { IssuedChallenge } from './models/captcha-backend.model';
+import { CaptchaValue } from './models/captcha-value.model';
+import { DICE_CAPTCHA_I18N_TOKEN } from './tokens/dice-captcha-i18n.token';
+import {
+  captchaNotExpired,
+  captchaRequired,
+  createCaptchaValue,
+} from './utils/captcha-control.util';
 
 /**
  * Default configuration for the CAPTCHA
@@ -31,31 +57,19 @@ const DEFAULT_CONFIG: CaptchaConfig = {
   diceCount: 3,
   diceType: DiceType.D6,
   difficulty: Difficulty.MEDIUM,
-  theme: {
-    primaryColor: '#667eea',
-    backgroundColor: '#f0f0f0',
-    diceColor: '#ffffff',
-    dotColor: '#000000',
-    enableShadows: true,
-    enableAmbientLight: true,
-  },
-  physics: {
-    gravity: -15,
-    restitution: 0.3,
-    friction: 0.4,
-    linearDamping: 0.1,
-    angularDamping: 0.1,
-    collisionIterations: 10,
-  },
+  theme: DEFAULT_THEME_CONFIG,
+  physics: DEFAULT_ROLL_PHYSICS,
   timeout: 120000, // 2 minutes
   maxAttempts: 3,
+  demoMode: false,
 
   // v2.0: New overlay captcha defaults
-  verificationMode: VerificationMode.INDIVIDUAL_DICE,
+  verificationMode: VerificationMode.BOTH,
   overlayPosition: 'top-center',
   showTimer: false,
   showAttempts: true,
   compactMode: false,
+  timeoutBehavior: 'deduct-attempt',
 
   // v2.2.0: Container behavior and dynamic resizing defaults
   // These defaults ensure backward compatibility - existing implementations continue to work exactly as before
@@ -102,6 +116,16 @@ const DEFAULT_CONFIG: CaptchaConfig = {
  * }
  * ```
  *
+ * The component is also a form control: with `formControlName`, `formControl`
+ * or `ngModel`, the control value is a {@link CaptchaValue} holding the token,
+ * and the control is invalid (`captchaRequired`) until the CAPTCHA is verified
+ * and again once the token expires (`captchaExpired`). Use {@link captchaControl}
+ * for a typed control.
+ *
+ * ```html
+ * <ngx-dice-captcha formControlName="captcha" [config]="captchaConfig" />
+ * ```
+ *
  * @public
  * @since 1.0.0
  */
@@ -112,14 +136,29 @@ const DEFAULT_CONFIG: CaptchaConfig = {
   templateUrl: './ngx-dice-captcha.component.html',
   styleUrls: ['./ngx-dice-captcha.component.scss'],
   changeDetection: ChangeDetectionStrategy.OnPush,
+  providers: [
+    {
+      provide: NG_VALUE_ACCESSOR,
+      useExisting: forwardRef(() => NgxDiceCaptchaComponent),
+      multi: true,
+    },
+    {
+      provide: NG_VALIDATORS,
+      useExisting: forwardRef(() => NgxDiceCaptchaComponent),
+      multi: true,
+    },
+  ],
 })
-export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
+export class NgxDiceCaptchaComponent implements OnInit, OnDestroy, ControlValueAccessor, Validator {
   // ViewChild for DiceCanvasComponent
   private readonly diceCanvas = viewChild<DiceCanvasComponent>('diceCanvas');
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
 
   // Injected services
   private readonly challengeGenerator = inject(ChallengeGeneratorService);
   private readonly validator = inject(CaptchaValidatorService);
+  private readonly backend = inject(CaptchaBackend, { optional: true });
+  private readonly tokens = inject(VerificationTokenService);
 
   // Inputs
   /**
@@ -163,10 +202,26 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
 
   /**
    * Emitted when dice rolling is complete.
-   * Contains the face values of all rolled dice.
+   * Contains the face values of all rolled dice; empty in secure mode.
    */
   readonly diceRolled = output<number[]>();
 
+  /**
+   * Emitted when the challenge clock runs out.
+   * The result carries `reason: CHALLENGE_EXPIRED` and, for the
+   * `'deduct-attempt'` behavior, the attempts remaining.
+   * @since 2.4.0
+   */
+  readonly expired = output<VerificationResult>();
+
+  /**
+   * Emitted when a round of a multi-round challenge passes, before the next
+   * round starts. The result carries `round` and `totalRounds` but no token;
+   * `verified` is emitted once the last round passes.
+   * @since 2.4.0
+   */
+  readonly roundPassed = output<VerificationResult>();
+
   // State signals
   readonly currentChallenge = signal<Challenge | null>(null);
   readonly diceResults = signal<number[]>([]);
@@ -177,14 +232,56 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
   readonly isInCooldown = signal<boolean>(false);
   readonly cooldownTimeRemaining = signal<number>(0);
   readonly verificationResult = signal<VerificationResult | null>(null);
+  readonly issuedChallenge = signal<IssuedChallenge | null>(null); // Challenge issued by the backend
+  readonly hasRolled = signal<boolean>(false);
+  readonly isVerifying = signal<boolean>(false);
+  readonly timeRemaining = signal<number | null>(null); // Seconds left on the challenge clock
+  readonly isExpired = signal<boolean>(false); // Locked by timeoutBehavior 'lock'
+  readonly currentRound = signal<number>(1); // Round being played, from 1
+  readonly roundResults = signal<VerificationResult[]>([]); // Results of the passed rounds
+  readonly captchaValue = signal<CaptchaValue | null>(null); // Value of the bound form control
+  readonly isDisabled = signal<boolean>(false); // Disabled through the bound form control
+  private pendingChallenge?: Promise<IssuedChallenge | null>;
+  private passedChallengeId?: string; // Backend challenge of the round just passed
+  private storedScreenOrder: number[] = []; // Dice indices from left to right after the roll
+  private secureDiceValues: number[] = []; // Dice values kept out of signals in secure mode
   private cooldownInterval?: number;
+  private challengeInterval?: number;
+  private challengeDeadline = 0;
   private readonly COOLDOWN_DURATION = 30; // 30 seconds cooldown
+  private readonly TIME_WARNINGS = [30, 10]; // Seconds at which time left is announced
+  private readonly i18n = inject(DICE_CAPTCHA_I18N_TOKEN);
+  private onChange: (value: CaptchaValue | null) => void = () => {};
+  private onTouched: () => void = () => {};
 
   // Computed signals
-  readonly effectiveConfig = computed<CaptchaConfig>(() => ({
-    ...DEFAULT_CONFIG,
-    ...this.config(),
-  }));
+  /**
+   * Configuration in force: the defaults, the `config` input and the settings
+   * of the current round, in that order.
+   */
+  readonly effectiveConfig = computed<CaptchaConfig>(() => {
+    const config = { ...DEFAULT_CONFIG, ...this.config() };
+    const rounds = config.rounds;
+    return { ...config, ...(Array.isArray(rounds) ? rounds[this.currentRound() - 1] : {}) };
+  });
+
+  /**
+   * Number of rounds configured, from the `rounds` count or entries.
+   * @since 2.4.0
+   */
+  private readonly configuredRounds = computed(() => {
+    const rounds = this.config().rounds ?? 1;
+    return Math.max(1, Array.isArray(rounds) ? rounds.length : Math.floor(rounds));
+  });
+
+  /**
+   * Number of rounds to pass before a token is issued. The backend's issued
+   * challenge takes precedence.
+   * @since 2.4.0
+   */
+  readonly totalRounds = computed(
+    () => this.issuedChallenge()?.totalRounds ?? this.configuredRounds()
+  );
 
   /**
    * Computed signal for effective responsive configuration.
@@ -201,16 +298,129 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
 
   readonly canRetry = computed(() => this.attemptsUsed() < this.effectiveConfig().maxAttempts);
 
-  readonly verificationMode = computed(
-    () => this.effectiveConfig().verificationMode ?? VerificationMode.INDIVIDUAL_DICE
-  );
+  /**
+   * Answer fields to ask for. Dice with a face renderer show symbols instead of
+   * values, so only the dice can be asked for.
+   */
+  readonly verificationMode = computed(() => {
+    const config = this.effectiveConfig();
+    if (config.faceRenderer) {
+      return VerificationMode.INDIVIDUAL_DICE;
+    }
+    return config.verificationMode ?? VerificationMode.BOTH;
+  });
 
   readonly overlayPosition = computed(() => this.effectiveConfig().overlayPosition ?? 'top-center');
 
+  /**
+   * Countdown shown in the overlay, or null when `showTimer` is off.
+   * @since 2.4.0
+   */
+  readonly visibleTimeRemaining = computed(() =>
+    this.effectiveConfig().showTimer ? this.timeRemaining() : null
+  );
+
+  /**
+   * How answers are checked: by the provided {@link CaptchaBackend}, locally in
+   * demo mode, or not at all when neither is configured.
+   * @since 2.4.0
+   */
+  readonly validationMode = computed<'backend' | 'demo' | 'unconfigured'>(() => {
+    if (this.backend) {
+      return 'backend';
+    }
+    return this.effectiveConfig().demoMode ? 'demo' : 'unconfigured';
+  });
+
+  /**
+   * Whether the dice values are kept out of the DOM, announcements and this
+   * component's signals. Defaults to true when a {@link CaptchaBackend} is provided.
+   * @since 2.4.0
+   */
+  readonly secureMode = computed(
+    () => this.effectiveConfig().secureMode ?? this.validationMode() === 'backend'
+  );
+
+  /**
+   * Whether rolling waits for the backend's challenge, whose seed the dice
+   * must be rolled with so the backend can replay the roll.
+   * @since 2.4.0
+   */
+  readonly awaitingChallenge = computed(() => !!this.backend && !this.issuedChallenge());
+
+  /**
+   * Number of dice to roll. The backend's issued challenge takes precedence; in
+   * CHALLENGE mode the generated challenge's difficulty sets the count.
+   * @since 2.4.0
+   */
+  readonly activeDiceCount = computed(
+    () =>
+      this.issuedChallenge()?.diceCount ??
+      this.posedChallenge()?.diceCount ??
+      (this.effectiveConfig().dice?.length || this.effectiveConfig().diceCount)
+  );
+
+  /**
+   * Type of dice to roll. The backend's issued challenge takes precedence.
+   * @since 2.4.0
+   */
+  readonly activeDiceType = computed(
+    () => this.issuedChallenge()?.diceType ?? this.effectiveConfig().diceType
+  );
+
+  /**
+   * Dice to roll, in dice order. The backend's issued challenge takes precedence.
+   * Without a mixed set, or in CHALLENGE mode, every die has the active dice type.
+   * @since 2.4.0
+   */
+  readonly activeDiceSet = computed<DiceSetEntry[]>(() => {
+    const issued = this.issuedChallenge();
+    const configured = this.posedChallenge() ? undefined : this.effectiveConfig().dice;
+    const dice = issued ? issued.dice : configured;
+    if (dice?.length) {
+      return dice;
+    }
+    return Array.from({ length: this.activeDiceCount() }, () => ({ type: this.activeDiceType() }));
+  });
+
+  /**
+   * Type of each die to roll, in dice order
+   * @since 2.4.0
+   */
+  readonly activeDiceTypes = computed(() => this.activeDiceSet().map((entry) => entry.type));
+
+  /**
+   * Answer fields to show. The backend's issued challenge takes precedence.
+   * @since 2.4.0
+   */
+  readonly activeVerificationMode = computed(
+    () => this.issuedChallenge()?.verificationMode ?? this.verificationMode()
+  );
+
+  /**
+   * Challenge whose question the user answers, or null outside CHALLENGE mode.
+   * The backend's issued challenge takes precedence.
+   * @since 2.4.0
+   */
+  readonly posedChallenge = computed(() => {
+    const issued = this.issuedChallenge();
+    if (issued) {
+      return issued.challenge ?? null;
+    }
+    return this.verificationMode() === VerificationMode.CHALLENGE ? this.currentChallenge() : null;
+  });
+
   ngOnInit(): void {
     // Display security warning in development mode
     if (isDevMode()) {
-      this.displaySecurityWarning();
+      if (this.validationMode() === 'demo') {
+        this.displaySecurityWarning();
+      } else if (this.validationMode() === 'unconfigured') {
+        console.error(
+          'ngx-dice-captcha: No CaptchaBackend provided. Answers will be rejected. ' +
+            'Provide a CaptchaBackend, or set `demoMode: true` for client-side validation.'
+        );
+      }
     }
 
     this.checkMobileView();
@@ -248,33 +458,62 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
     if (this.cooldownInterval) {
       clearInterval(this.cooldownInterval);
     }
+    this.stopChallengeClock();
   }
 
   /**
    * Starts a new CAPTCHA challenge.
    *
    * Generates a new challenge based on the configured difficulty,
-   * resets all state including dice results and verification status,
-   * and emits the challenge through the challengeGenerated output.
+   * resets all state including dice results, attempts and verification status,
+   * clears the token of a verified challenge from the bound form control,
+   * starts the challenge clock and emits the challenge through the
+   * challengeGenerated output.
    *
    * @public
    */
   startNewChallenge(): void {
+    this.setCaptchaValue(null);
+    this.attemptsUsed.set(0);
+    this.isExpired.set(false);
+    this.currentRound.set(1);
+    this.roundResults.set([]);
+    this.passedChallengeId = undefined;
+    this.startRound();
+  }
+
+  /**
+   * Starts a fresh challenge and roll for the current round, keeping the
+   * attempts used so far.
+   *
+   * @private
+   */
+  private startRound(): void {
     const config = this.effectiveConfig();
-    const challenge = this.challengeGenerator.generateChallenge(config.difficulty);
+    const challenge = this.challengeGenerator.generateChallenge(
+      config.difficulty,
+      config.diceType
+    );
 
     this.currentChallenge.set(challenge);
     this.diceResults.set([]);
     this.storedDiceValues.set([]); // Reset stored dice values
-    this.attemptsUsed.set(0);
+    this.storedScreenOrder = [];
+    this.secureDiceValues = [];
+    this.hasRolled.set(false);
     this.isRolling.set(false);
 
+    if (this.backend) {
+      this.requestIssuedChallenge(this.backend);
+    }
+
     // Reset dice canvas and control overlay
     const canvas = this.diceCanvas();
     if (canvas) {
       canvas.resetForNewRoll();
     }
 
+    this.startChallengeClock();
     this.challengeGenerated.emit(challenge);
   }
 
@@ -282,19 +521,31 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
    * Handles the completion of a dice roll.
    *
    * Updates the component state with the rolled dice values and emits
-   * the results through the diceRolled output.
+   * the results through the diceRolled output. In secure mode the canvas
+   * emits no values, so they are read from it directly and not emitted.
    *
    * @param results - Array of face values from the rolled dice (1-based)
    * @internal
    */
   onDiceRollComplete(results: number[]): void {
-    this.diceResults.set(results);
-    this.storedDiceValues.set(results); // Store the actual dice values
+    const canvas = this.diceCanvas();
+    const screenOrder = canvas?.getScreenOrder() ?? [];
+
+    if (this.backend) {
+      // The backend replays the roll from its seed; keep the answer out of component state
+    } else if (this.secureMode()) {
+      this.secureDiceValues = canvas?.getSettledValues() ?? [];
+      this.storedScreenOrder = screenOrder;
+    } else {
+      this.diceResults.set(results);
+      this.storedDiceValues.set(results); // Store the actual dice values
+      this.storedScreenOrder = screenOrder;
+    }
+    this.hasRolled.set(true);
     this.isRolling.set(false);
-    this.diceRolled.emit(results);
+    this.diceRolled.emit(this.secureMode() ? [] : results);
 
     // Trigger autofocus on first dice input after roll completes
-    const canvas = this.diceCanvas();
     const overlay = canvas?.controlOverlay();
     if (overlay) {
       setTimeout(() => {
@@ -306,28 +557,132 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
   /**
    * Handles verification request from control overlay.
    *
-   * Validates the user's entered dice values against the actual rolled values,
-   * updates attempt counter, and emits appropriate success or failure events.
+   * Submits the answer to the {@link CaptchaBackend} when one is provided.
+   * In demo mode, validates the user's entered dice values against the actual
+   * rolled values locally. Without either, the answer is rejected.
    *
    * @param data - Object containing dice values and sum entered by the user
    * @internal
    */
-  onVerificationRequested(data: { diceValues: number[]; sum: number }): void {
-    const actualValues = this.storedDiceValues();
+  onVerificationRequested(data: { diceValues: number[]; sum: number; answer?: number }): void {
+    if (this.isExpired() || this.isDisabled()) {
+      return;
+    }
+
+    const mode = this.validationMode();
+
+    if (mode === 'backend') {
+      void this.verifyWithBackend(this.backend!, data);
+      return;
+    }
+
+    if (mode === 'unconfigured') {
+      this.failed.emit({
+        success: false,
+        message: 'CAPTCHA is not configured. Please contact the site owner.',
+        timestamp: Date.now(),
+      });
+      return;
+    }
+
+    const actualValues = this.secureMode() ? this.secureDiceValues : this.storedDiceValues();
 
     if (actualValues.length === 0) {
       return;
     }
 
-    // Validate dice values and sum
-    const result = this.validateDiceValuesAndSum(data.diceValues, data.sum, actualValues);
+    void this.verifyLocally(data, actualValues);
+  }
+
+  /**
+   * Validates the answer in the browser and signs a token on success (demo mode).
+   *
+   * @param data - Dice values and sum entered by the user
+   * @param actualValues - Actual dice values from the roll
+   * @private
+   */
+  private async verifyLocally(
+    data: { diceValues: number[]; sum: number; answer?: number },
+    actualValues: number[]
+  ): Promise<void> {
+    const challenge = this.posedChallenge();
+    let result = challenge
+      ? this.validateChallengeAnswer(
+          challenge.operation === OperationType.SORTED_ASCENDING
+            ? data.diceValues
+            : (data.answer ?? NaN),
+          challenge,
+          actualValues
+        )
+      : this.validateDiceValuesAndSum(data.diceValues, data.sum, actualValues);
+
+    if (!result.success && this.secureMode()) {
+      // Failed results are displayed; keep the rolled values and matched dice out of them
+      result = {
+        ...result,
+        message: challenge || result.partialMatch ? this.i18n.incorrectAnswer : result.message,
+        diceValues: undefined,
+        expectedSum: undefined,
+        partialMatch: result.partialMatch && { ...result.partialMatch, correctDice: undefined },
+      };
+    }
 
+    // Only the last round earns a token
+    if (!result.success || this.currentRound() < this.totalRounds()) {
+      this.handleVerificationResult(result);
+      return;
+    }
+
+    try {
+      const token = await this.tokens.issue({
+        challengeId: this.currentChallenge()?.id ?? this.sessionId(),
+        diceCount: actualValues.length,
+      });
+      this.handleVerificationResult({ ...result, token });
+    } catch {
+      this.failed.emit({
+        success: false,
+        message: 'Verification service unavailable. Please try again.',
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Records an attempt and emits the outcome of a verification.
+   *
+   * A success without a token before the last round passes the round; the
+   * success of the last round also carries the results of every round.
+   *
+   * @param result - Result produced locally or by the backend
+   * @private
+   */
+  private handleVerificationResult(result: VerificationResult): void {
     this.attemptsUsed.update((val) => val + 1);
 
+    if (this.totalRounds() > 1) {
+      result = { round: this.currentRound(), totalRounds: this.totalRounds(), ...result };
+    }
+
+    if (result.success && !result.token && this.currentRound() < this.totalRounds()) {
+      this.passRound(result);
+      return;
+    }
+
+    if (result.success && this.totalRounds() > 1) {
+      result = { ...result, roundResults: [...this.roundResults(), result] };
+    }
+
     // Only show verification popup for successful verifications
     // Failed verifications will be handled by the parent component (e.g., snackbar)
     if (result.success) {
+      this.stopChallengeClock();
       this.verificationResult.set(result);
+      this.setCaptchaValue(
+        createCaptchaValue(result, {
+          challengeId: this.issuedChallenge()?.challengeId ?? this.currentChallenge()?.id,
+        })
+      );
       this.verified.emit(result);
     } else {
       // Don't show popup for failures, just emit the failed event
@@ -350,6 +705,122 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Records a passed round and starts the next one with fresh attempts.
+   *
+   * @param result - Successful result of the round, without a token
+   * @private
+   */
+  private passRound(result: VerificationResult): void {
+    this.roundResults.update((results) => [...results, result]);
+    this.passedChallengeId = this.issuedChallenge()?.challengeId;
+    this.roundPassed.emit(result);
+
+    this.attemptsUsed.set(0);
+    this.currentRound.update((round) => round + 1);
+    this.diceCanvas()?.announce(this.i18n.roundLabel(this.currentRound(), this.totalRounds()));
+    this.startRound();
+  }
+
+  /**
+   * Requests a new challenge from the backend.
+   *
+   * Only the most recent request may update state, so a slow response for an
+   * abandoned challenge cannot overwrite the current one. The answer fields and
+   * any question are the backend's choice. After a passed round
+   * the request continues it; the issued challenge's round is authoritative.
+   * A refusal is reported through `failed` with its reason.
+   *
+   * @param backend - The provided backend
+   * @private
+   */
+  private requestIssuedChallenge(backend: CaptchaBackend): void {
+    const config = this.effectiveConfig();
+    const pending: Promise<IssuedChallenge | null> = backend
+      .issueChallenge({
+        sessionId: this.sessionId(),
+        diceCount: config.diceCount,
+        diceType: config.diceType,
+        ...(config.dice?.length ? { dice: config.dice } : {}),
+        rounds: this.configuredRounds(),
+        ...(this.passedChallengeId ? { previousChallengeId: this.passedChallengeId } : {}),
+      })
+      .then((issued) => {
+        if ('reason' in issued) {
+          if (this.pendingChallenge === pending) {
+            this.failed.emit({
+              success: false,
+              message: issued.message,
+              timestamp: Date.now(),
+              reason: issued.reason,
+            });
+          }
+          return null;
+        }
+        if (this.pendingChallenge === pending) {
+          this.issuedChallenge.set(issued);
+          if (issued.round !== undefined && issued.round !== this.currentRound()) {
+            // The backend started over, e.g. because the passed round expired
+            this.currentRound.set(issued.round);
+            this.roundResults.update((results) => results.slice(0, issued.round! - 1));
+          }
+        }
+        return issued;
+      })
+      .catch(() => {
+        if (this.pendingChallenge === pending) {
+          this.failed.emit({
+            success: false,
+            message: 'Could not load a challenge. Please try again.',
+            timestamp: Date.now(),
+          });
+        }
+        return null;
+      });
+
+    this.issuedChallenge.set(null);
+    this.pendingChallenge = pending;
+  }
+
+  /**
+   * Submits the user's answer to the backend and handles the result.
+   *
+   * Transport failures are reported through `failed` without using up an attempt.
+   *
+   * @param backend - The provided backend
+   * @param data - Dice values and sum entered by the user
+   * @private
+   */
+  private async verifyWithBackend(
+    backend: CaptchaBackend,
+    data: { diceValues: number[]; sum: number; answer?: number }
+  ): Promise<void> {
+    const issued = this.issuedChallenge();
+    if (!issued || !this.hasRolled() || this.isVerifying()) {
+      return;
+    }
+
+    this.isVerifying.set(true);
+    try {
+      const result = await backend.submitAnswer({
+        challengeId: issued.challengeId,
+        sessionId: this.sessionId(),
+        diceValues: data.diceValues,
+        sum: data.sum,
+        answer: data.answer,
+      });
+      this.handleVerificationResult(result);
+    } catch {
+      this.failed.emit({
+        success: false,
+        message: 'Verification service unavailable. Please try again.',
+        timestamp: Date.now(),
+      });
+    } finally {
+      this.isVerifying.set(false);
+    }
+  }
+
   /**
    * Validates user-entered dice values against actual rolled values.
    *
@@ -376,7 +847,6 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
         success: true,
         message: 'CAPTCHA verified successfully!',
         timestamp: Date.now(),
-        token: this.generateVerificationToken(),
         diceValues: actualValues,
         userDiceInputs: userInputs,
       };
@@ -399,7 +869,8 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
     };
   }
   /**
-   * Validates user-entered dice values and sum against actual rolled values.
+   * Validates user-entered dice values and sum against actual rolled values,
+   * checking only the fields of the active verification mode.
    *
    * @param userInputs - Array of dice values entered by the user
    * @param userSum - Sum entered by the user
@@ -412,63 +883,59 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
     userSum: number,
     actualValues: number[]
   ): VerificationResult {
-    if (userInputs.length !== actualValues.length) {
-      return {
-        success: false,
-        message: 'Invalid number of dice values',
-        timestamp: Date.now(),
-        attemptsRemaining: this.effectiveConfig().maxAttempts - this.attemptsUsed() - 1,
-      };
-    }
-
-    // Calculate actual sum
-    const actualSum = actualValues.reduce((sum, val) => sum + val, 0);
-
-    // Check if all dice values match
-    const allDiceMatch = userInputs.every((val, idx) => val === actualValues[idx]);
-
-    // Check if sum matches
-    const sumMatches = userSum === actualSum;
+    const check = checkDiceAnswer(userInputs, userSum, actualValues, this.activeVerificationMode());
+    const attemptsRemaining = this.effectiveConfig().maxAttempts - this.attemptsUsed() - 1;
 
-    if (allDiceMatch && sumMatches) {
+    if (!check.validLength) {
       return {
-        success: true,
-        message: 'CAPTCHA verified successfully!',
+        success: false,
+        message: check.message,
         timestamp: Date.now(),
-        token: this.generateVerificationToken(),
-        diceValues: actualValues,
-        userDiceInputs: userInputs,
-        expectedSum: actualSum,
-        userSumInput: userSum,
+        attemptsRemaining,
       };
     }
 
-    // Calculate partial match
-    const correctDiceCount = userInputs.filter((val, idx) => val === actualValues[idx]).length;
-
-    let message = '';
-    if (!allDiceMatch && !sumMatches) {
-      message = `Incorrect values. ${correctDiceCount}/${actualValues.length} dice correct. Sum is also incorrect.`;
-    } else if (!allDiceMatch) {
-      message = `Incorrect dice values. ${correctDiceCount}/${actualValues.length} correct. Sum is correct.`;
-    } else {
-      message = `Dice values are correct, but sum is incorrect.`;
-    }
-
     return {
-      success: false,
-      message,
+      success: check.success,
+      message: check.message,
       timestamp: Date.now(),
-      attemptsRemaining: this.effectiveConfig().maxAttempts - this.attemptsUsed() - 1,
+      attemptsRemaining: check.success ? undefined : attemptsRemaining,
       diceValues: actualValues,
       userDiceInputs: userInputs,
-      expectedSum: actualSum,
+      expectedSum: check.expectedSum,
       userSumInput: userSum,
-      partialMatch: {
-        correctDice: correctDiceCount,
-        totalDice: actualValues.length,
-        sumCorrect: sumMatches,
-      },
+      partialMatch: check.success ? undefined : check.partialMatch,
+    };
+  }
+
+  /**
+   * Validates the answer to a challenge question against actual rolled values.
+   *
+   * @param answer - Answer entered by the user, or the values entered for SORTED_ASCENDING
+   * @param challenge - Challenge that was posed
+   * @param actualValues - Actual dice values from the roll
+   * @returns Verification result; the caller signs the token
+   * @private
+   */
+  private validateChallengeAnswer(
+    answer: number | number[],
+    challenge: Challenge,
+    actualValues: number[]
+  ): VerificationResult {
+    const result = this.validator.validateSolution(
+      answer,
+      challenge,
+      actualValues,
+      this.sessionId(),
+      this.storedScreenOrder,
+      this.activeDiceTypes()
+    );
+
+    return {
+      ...result,
+      attemptsRemaining: result.success
+        ? undefined
+        : this.effectiveConfig().maxAttempts - this.attemptsUsed() - 1,
     };
   }
 
@@ -514,11 +981,12 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
    *
    * Validates the submitted answer against the current challenge and dice results,
    * updates attempt counter, and emits appropriate success or failure events.
+   * Successful results carry a token signed with {@link VerificationTokenService}.
    *
    * @param answer - The numeric answer submitted by the user
    * @internal
    */
-  onAnswerSubmitted(answer: number): void {
+  async onAnswerSubmitted(answer: number): Promise<void> {
     const challenge = this.currentChallenge();
     const results = this.diceResults();
 
@@ -527,40 +995,137 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
     }
 
     // Validate the answer
-    const result = this.validator.validateSolution(answer, challenge, results, this.sessionId());
+    const result = this.validator.validateSolution(
+      answer,
+      challenge,
+      results,
+      this.sessionId(),
+      undefined,
+      this.activeDiceTypes()
+    );
 
     this.attemptsUsed.update((val) => val + 1);
 
     // Emit appropriate event - let parent handle UI display
-    if (result.success) {
-      this.verified.emit(result);
-    } else {
+    if (!result.success) {
       this.failed.emit(result);
+      return;
+    }
+
+    try {
+      const token = await this.tokens.issue({
+        challengeId: challenge.id,
+        diceCount: results.length,
+      });
+      this.verified.emit({ ...result, token });
+    } catch {
+      this.failed.emit({
+        success: false,
+        message: 'Verification service unavailable. Please try again.',
+        timestamp: Date.now(),
+      });
     }
   }
 
   /**
    * Handles challenge timeout expiration.
    *
-   * Creates a failure result and emits it through the failed output.
+   * Applies the configured `timeoutBehavior` and emits the result through
+   * the expired output:
+   * - `'deduct-attempt'` uses up an attempt and starts a new round, or the
+   *   cooldown when no attempts are left
+   * - `'lock'` disables the controls until {@link reset} is called
+   * - `'soft-reset'` starts a new round without using up an attempt
    *
    * @internal
    */
   onTimeExpired(): void {
+    this.stopChallengeClock();
+    this.timeRemaining.set(0);
+
+    const { maxAttempts, timeoutBehavior: behavior = 'deduct-attempt' } = this.effectiveConfig();
     const result: VerificationResult = {
       success: false,
-      message: 'Time expired. Please try again.',
+      message: this.i18n.timeExpired,
       timestamp: Date.now(),
+      reason: VerificationFailureReason.CHALLENGE_EXPIRED,
     };
 
-    this.failed.emit(result);
+    this.diceCanvas()?.announce(this.i18n.timeExpired);
+
+    if (behavior === 'lock') {
+      this.isExpired.set(true);
+      this.expired.emit(result);
+      return;
+    }
+
+    if (behavior === 'deduct-attempt') {
+      this.attemptsUsed.update((val) => val + 1);
+      result.attemptsRemaining = Math.max(0, maxAttempts - this.attemptsUsed());
+    }
+
+    this.expired.emit(result);
+
+    if (this.attemptsUsed() >= maxAttempts) {
+      this.startCooldown();
+    } else {
+      this.startRound();
+    }
+  }
+
+  /**
+   * Starts the challenge clock from the configured `timeout`.
+   *
+   * Time left is derived from a deadline rather than counted down, so a
+   * throttled background tab cannot extend the challenge.
+   *
+   * @private
+   */
+  private startChallengeClock(): void {
+    this.stopChallengeClock();
+
+    const timeout = this.effectiveConfig().timeout ?? 0;
+    if (timeout <= 0) {
+      this.timeRemaining.set(null);
+      return;
+    }
+
+    this.challengeDeadline = Date.now() + timeout;
+    this.timeRemaining.set(Math.ceil(timeout / 1000));
+
+    this.challengeInterval = window.setInterval(() => {
+      const remaining = Math.max(0, Math.ceil((this.challengeDeadline - Date.now()) / 1000));
+      if (remaining === this.timeRemaining()) {
+        return;
+      }
+
+      this.timeRemaining.set(remaining);
+      if (remaining === 0) {
+        this.onTimeExpired();
+      } else if (this.TIME_WARNINGS.includes(remaining)) {
+        this.diceCanvas()?.announce(this.i18n.timeRemainingAnnouncement(remaining));
+      }
+    }, 250);
+  }
+
+  /**
+   * Stops the challenge clock.
+   *
+   * @private
+   */
+  private stopChallengeClock(): void {
+    if (this.challengeInterval) {
+      clearInterval(this.challengeInterval);
+      this.challengeInterval = undefined;
+    }
   }
 
   /**
    * Manually resets the CAPTCHA to start over.
    *
-   * Generates a new challenge and resets all state. This can be called
-   * programmatically from parent components.
+   * Generates a new challenge and resets all state, including the value of
+   * a bound form control. This can be called programmatically from parent
+   * components.
    *
    * @example
    * ```typescript
@@ -578,32 +1143,102 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Generates a unique session identifier.
+   * Writes the form control value. Clearing the value of a verified CAPTCHA,
+   * e.g. with `form.reset()`, resets it.
    *
-   * Combines current timestamp with a random string for uniqueness.
+   * @param value - Verified token, or null
+   * @public
+   * @since 2.4.0
+   */
+  writeValue(value: CaptchaValue | null): void {
+    const verified = this.captchaValue() !== null;
+    this.captchaValue.set(value || null);
+
+    if (verified && !value) {
+      this.startNewChallenge();
+    }
+  }
+
+  /**
+   * Registers the callback that reports a new value to the form control.
    *
-   * @returns A unique session ID string
+   * @public
+   * @since 2.4.0
+   */
+  registerOnChange(fn: (value: CaptchaValue | null) => void): void {
+    this.onChange = fn;
+  }
+
+  /**
+   * Registers the callback that marks the form control as touched.
+   *
+   * @public
+   * @since 2.4.0
+   */
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  /**
+   * Disables rolling and answering while the form control is disabled.
+   *
+   * @public
+   * @since 2.4.0
+   */
+  setDisabledState(isDisabled: boolean): void {
+    this.isDisabled.set(isDisabled);
+  }
+
+  /**
+   * Validates the form control with {@link captchaRequired} and
+   * {@link captchaNotExpired}, so a plain `FormControl` or `ngModel` gets the
+   * same errors as {@link captchaControl}.
+   *
+   * @param control - Bound form control
+   * @returns `captchaRequired` or `captchaExpired` error, otherwise null
+   * @public
+   * @since 2.4.0
+   */
+  validate(control: AbstractControl<CaptchaValue | null>): ValidationErrors | null {
+    return captchaRequired(control) ?? captchaNotExpired(control);
+  }
+
+  /**
+   * Marks the form control as touched when focus leaves the CAPTCHA.
+   *
+   * @internal
+   */
+  @HostListener('focusout', ['$event'])
+  onFocusOut(event: FocusEvent): void {
+    if (!this.host.nativeElement.contains(event.relatedTarget as Node | null)) {
+      this.onTouched();
+    }
+  }
+
+  /**
+   * Updates the value and reports a change to the form control.
+   *
+   * @param value - New value, or null to clear it
    * @private
    */
-  private generateSessionId(): string {
-    return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private setCaptchaValue(value: CaptchaValue | null): void {
+    if (value === this.captchaValue()) {
+      return;
+    }
+    this.captchaValue.set(value);
+    this.onChange(value);
   }
 
   /**
-   * Generates a verification token for successful CAPTCHA completion.
+   * Generates a unique session identifier.
    *
-   * Creates a JWT-like token with session info, timestamp, and random salt.
+   * Combines current timestamp with a random string for uniqueness.
    *
-   * @returns A verification token string
+   * @returns A unique session ID string
    * @private
    */
-  private generateVerificationToken(): string {
-    const payload = {
-      sessionId: this.sessionId(),
-      timestamp: Date.now(),
-      salt: Math.random().toString(36).substr(2, 16),
-    };
-    return `token-${btoa(JSON.stringify(payload))}`;
+  private generateSessionId(): string {
+    return `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
@@ -615,6 +1250,8 @@ export class NgxDiceCaptchaComponent implements OnInit, OnDestroy {
    * @private
    */
   private startCooldown(): void {
+    this.stopChallengeClock();
+    this.timeRemaining.set(null);
     this.isInCooldown.set(true);
     this.cooldownTimeRemaining.set(this.COOLDOWN_DURATION);
 
@@ -0,0 +1,125 @@
+import { Injector } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { AudioChallengeService } from './audio-challenge.service';
+
+/** Audio node that records what was scheduled on it */
+class FakeNode {
+  gain = { value: 1, setValueAtTime: () => {}, linearRampToValueAtTime: () => {} };
+  frequency = { value: 0 };
+  playbackRate = { value: 1 };
+  buffer: unknown = null;
+  loop = false;
+  onended: (() => void) | null = null;
+  started?: number;
+
+  connect<T>(node: T): T {
+    return node;
+  }
+
+  start(time: number): void {
+    this.started = time;
+  }
+
+  stop(time?: number): void {
+    if (time === undefined) {
+      this.onended?.();
+    }
+  }
+}
+
+class FakeAudioContext {
+  static instance: FakeAudioContext;
+  state = 'running';
+  currentTime = 0;
+  sampleRate = 100;
+  destination = new FakeNode();
+  oscillators: FakeNode[] = [];
+  samples: FakeNode[] = [];
+
+  constructor() {
+    FakeAudioContext.instance = this;
+  }
+
+  createGain(): FakeNode {
+    return new FakeNode();
+  }
+
+  createOscillator(): FakeNode {
+    const oscillator = new FakeNode();
+    this.oscillators.push(oscillator);
+    return oscillator;
+  }
+
+  createBufferSource(): FakeNode {
+    const source = new FakeNode();
+    this.samples.push(source);
+    return source;
+  }
+
+  createBuffer(_channels: number, length: number, rate: number) {
+    return { duration: length / rate, getChannelData: () => new Float32Array(length) };
+  }
+
+  decodeAudioData(): Promise<unknown> {
+    return Promise.resolve({ duration: 0.5 });
+  }
+
+  resume(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+describe('AudioChallengeService', () => {
+  const create = (defaultView: object) =>
+    Injector.create({
+      providers: [
+        { provide: AudioChallengeService },
+        { provide: DOCUMENT, useValue: { defaultView } },
+      ],
+    }).get(AudioChallengeService);
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  it('should play each value as that many tones over noise', async () => {
+    const service = create({ AudioContext: FakeAudioContext });
+
+    const playing = service.play([3, 2]);
+    await settle();
+    const context = FakeAudioContext.instance;
+
+    expect(context.oscillators.length).toBe(5);
+    expect(context.samples.filter((source) => source.loop).length).toBe(1);
+
+    service.stop();
+    await expectAsync(playing).toBeResolved();
+  });
+
+  it('should speak values with samples, and use tones for values without one', async () => {
+    const fetchSpy = spyOn(window, 'fetch').and.callFake(() =>
+      Promise.resolve(new Response(new ArrayBuffer(8)))
+    );
+    const service = create({ AudioContext: FakeAudioContext });
+
+    const playing = service.play([1, 2], { samples: { 1: '/one.mp3' } });
+    await settle();
+    const context = FakeAudioContext.instance;
+
+    expect(fetchSpy).toHaveBeenCalledOnceWith('/one.mp3');
+    expect(context.samples.filter((source) => !source.loop).length).toBe(1);
+    expect(context.oscillators.length).toBe(2);
+
+    service.stop();
+    await playing;
+  });
+
+  it('should do nothing without Web Audio', async () => {
+    const service = create({});
+
+    expect(service.isSupported()).toBeFalse();
+    await expectAsync(service.play([4])).toBeResolved();
+  });
+});
@@ -0,0 +1,275 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { AudioChallengeConfig, AudioSampleSet } from '../models/audio-challenge.model';
+
+/**
+ * Timing of the audio challenge, in seconds
+ */
+const AUDIO_TIMING = {
+  lead: 0.4, // Noise before the first value
+  tone: 0.12, // Length of one tone
+  toneGap: 0.14, // Silence between the tones of a value
+  valueGap: 0.9, // Silence between values
+  tail: 0.4, // Noise after the last value
+  jitter: 0.06, // Random spread added to every gap
+};
+
+/** Default volume of the background noise */
+const DEFAULT_NOISE = 0.15;
+
+/**
+ * Service that plays dice values as an audio challenge with the Web Audio API.
+ *
+ * Each value is played in turn, either as that many short tones or as recorded
+ * samples from an {@link AudioSampleSet}. Pitches, gaps and playback rates are
+ * randomized on every play and the values are mixed with white noise, so the
+ * audio is hard to match against a fixed recording. Nothing is written to the
+ * DOM.
+ *
+ * @example
+ * ```typescript
+ * const audio = inject(AudioChallengeService);
+ *
+ * onAudioButtonClick() {
+ *   void audio.play([3, 5, 1], { noise: 0.2 });
+ * }
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AudioChallengeService implements OnDestroy {
+  private readonly document = inject(DOCUMENT);
+  private context?: AudioContext;
+  private sources: AudioScheduledSourceNode[] = [];
+  private playId = 0; // Lets a newer play or stop cancel one still loading
+  private readonly samples = new Map<string, Promise<AudioBuffer | null>>();
+
+  /**
+   * Whether the browser supports the Web Audio API.
+   */
+  isSupported(): boolean {
+    return typeof this.document.defaultView?.AudioContext === 'function';
+  }
+
+  /**
+   * Creates or resumes the audio context.
+   *
+   * Browsers only start audio after a user gesture, so call this from a click
+   * or key handler when playback will follow later, e.g. once the dice settle.
+   *
+   * @returns The running context, or null without Web Audio support
+   */
+  async prepare(): Promise<AudioContext | null> {
+    if (!this.isSupported()) {
+      return null;
+    }
+
+    this.context ??= new (this.document.defaultView!.AudioContext)();
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+    return this.context;
+  }
+
+  /**
+   * Plays values in order, stopping any challenge still playing.
+   *
+   * @param values - Values to play, e.g. the dice results in dice order
+   * @param config - Samples and noise level
+   * @returns Resolves when playback ends or is stopped
+   */
+  async play(values: number[], config: AudioChallengeConfig = {}): Promise<void> {
+    this.stop();
+    const playId = this.playId;
+    const context = await this.prepare();
+    if (!context || values.length === 0) {
+      return;
+    }
+
+    const samples = config.samples;
+    const buffers = samples
+      ? await Promise.all(values.map((value) => this.loadSpokenValue(context, value, samples)))
+      : [];
+    if (playId !== this.playId) {
+      return;
+    }
+
+    const output = context.createGain();
+    output.connect(context.destination);
+
+    const start = context.currentTime;
+    let time = start + AUDIO_TIMING.lead;
+    values.forEach((value, index) => {
+      const spoken = buffers[index];
+      time = spoken
+        ? this.scheduleSamples(context, output, spoken, time)
+        : this.scheduleTones(context, output, value, time);
+      time += AUDIO_TIMING.valueGap + this.jitter();
+    });
+
+    const noise = this.scheduleNoise(context, output, start, time + AUDIO_TIMING.tail, config);
+    await new Promise<void>((resolve) => (noise.onended = () => resolve()));
+  }
+
+  /**
+   * Stops the challenge that is playing, if any.
+   */
+  stop(): void {
+    this.playId++;
+    this.sources.forEach((source) => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.sources = [];
+  }
+
+  ngOnDestroy(): void {
+    this.stop();
+    void this.context?.close();
+  }
+
+  /**
+   * Schedules `count` short tones at one random pitch.
+   *
+   * @returns Time the last tone ends
+   * @private
+   */
+  private scheduleTones(
+    context: AudioContext,
+    output: AudioNode,
+    count: number,
+    time: number
+  ): number {
+    const frequency = 520 + Math.random() * 360;
+
+    for (let i = 0; i < count; i++) {
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+      oscillator.frequency.value = frequency * (0.97 + Math.random() * 0.06);
+      oscillator.connect(envelope).connect(output);
+
+      // Short ramps avoid clicks at the start and end of each tone
+      envelope.gain.setValueAtTime(0, time);
+      envelope.gain.linearRampToValueAtTime(0.5, time + 0.01);
+      envelope.gain.setValueAtTime(0.5, time + AUDIO_TIMING.tone - 0.02);
+      envelope.gain.linearRampToValueAtTime(0, time + AUDIO_TIMING.tone);
+
+      oscillator.start(time);
+      oscillator.stop(time + AUDIO_TIMING.tone);
+      this.sources.push(oscillator);
+      time += AUDIO_TIMING.tone + AUDIO_TIMING.toneGap + this.jitter() / 2;
+    }
+
+    return time;
+  }
+
+  /**
+   * Schedules recorded samples one after another at a slightly random rate.
+   *
+   * @returns Time the last sample ends
+   * @private
+   */
+  private scheduleSamples(
+    context: AudioContext,
+    output: AudioNode,
+    buffers: AudioBuffer[],
+    time: number
+  ): number {
+    for (const buffer of buffers) {
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.playbackRate.value = 0.92 + Math.random() * 0.16;
+      source.connect(output);
+      source.start(time);
+      this.sources.push(source);
+      time += buffer.duration / source.playbackRate.value + this.jitter();
+    }
+    return time;
+  }
+
+  /**
+   * Schedules white noise under the whole challenge.
+   *
+   * @returns The noise source, which ends with the challenge
+   * @private
+   */
+  private scheduleNoise(
+    context: AudioContext,
+    output: AudioNode,
+    start: number,
+    end: number,
+    config: AudioChallengeConfig
+  ): AudioBufferSourceNode {
+    const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+
+    const source = context.createBufferSource();
+    const level = context.createGain();
+    source.buffer = buffer;
+    source.loop = true;
+    level.gain.value = Math.min(Math.max(config.noise ?? DEFAULT_NOISE, 0), 1);
+    source.connect(level).connect(output);
+    source.start(start);
+    source.stop(end);
+    this.sources.push(source);
+    return source;
+  }
+
+  /**
+   * Loads the samples that speak a value: its own sample, or one per digit.
+   *
+   * @returns Decoded samples, or null if one is missing so the value is played as tones
+   * @private
+   */
+  private async loadSpokenValue(
+    context: AudioContext,
+    value: number,
+    samples: AudioSampleSet
+  ): Promise<AudioBuffer[] | null> {
+    const urls = samples[value]
+      ? [samples[value]!]
+      : [...String(value)].map((digit) => samples[Number(digit)]);
+    if (urls.some((url) => !url)) {
+      return null;
+    }
+
+    const buffers = await Promise.all(urls.map((url) => this.loadSample(context, url!)));
+    return buffers.every((buffer) => buffer !== null) ? (buffers as AudioBuffer[]) : null;
+  }
+
+  /**
+   * Fetches and decodes a sample once per URL.
+   *
+   * @private
+   */
+  private loadSample(context: AudioContext, url: string): Promise<AudioBuffer | null> {
+    let sample = this.samples.get(url);
+    if (!sample) {
+      sample = fetch(url)
+        .then((response) => response.arrayBuffer())
+        .then((data) => context.decodeAudioData(data))
+        .catch(() => null);
+      this.samples.set(url, sample);
+    }
+    return sample;
+  }
+
+  /**
+   * Random spread added to gaps, so no two plays line up.
+   *
+   * @private
+   */
+  private jitter(): number {
+    return Math.random() * AUDIO_TIMING.jitter;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  AnswerSubmission,
+  ChallengeRefusal,
+  ChallengeRequest,
+  IssuedChallenge,
+} from '../models/captcha-backend.model';
+import { VerificationResult } from '../models/verification-result.model';
+
+// Re-export model types for convenience
+export type {
+  AnswerSubmission,
+  ChallengeRefusal,
+  ChallengeRequest,
+  IssuedChallenge,
+} from '../models/captcha-backend.model';
+
+/**
+ * Server-side authority for CAPTCHA challenges.
+ *
+ * When a `CaptchaBackend` is provided, `NgxDiceCaptchaComponent` stops comparing
+ * answers in the browser. Challenges are issued by the backend, the dice are
+ * rolled with the seed it issues, and answers are checked by it. The client
+ * never reports the faces it rolled; the backend replays the roll itself, e.g.
+ * with `simulateRoll`. Only the backend can issue a verification token.
+ *
+ * The class doubles as the dependency injection token. Implementations usually
+ * wrap HTTP calls to your own API; {@link InMemoryCaptchaBackend} is a reference
+ * implementation for tests and local development.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class HttpCaptchaBackend extends CaptchaBackend {
+ *   private readonly http = inject(HttpClient);
+ *
+ *   issueChallenge(request: ChallengeRequest): Promise<IssuedChallenge | ChallengeRefusal> {
+ *     return firstValueFrom(
+ *       this.http.post<IssuedChallenge | ChallengeRefusal>('/api/captcha/challenge', request)
+ *     );
+ *   }
+ *
+ *   submitAnswer(submission: AnswerSubmission): Promise<VerificationResult> {
+ *     return firstValueFrom(this.http.post<VerificationResult>('/api/captcha/verify', submission));
+ *   }
+ * }
+ *
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [{ provide: CaptchaBackend, useClass: HttpCaptchaBackend }],
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export abstract class CaptchaBackend {
+  /**
+   * Opens a new challenge for a session.
+   *
+   * @param request - Session and preferred dice setup
+   * @returns The issued challenge, whose dice setup overrides the request, or
+   * why none was issued (since 2.4.0)
+   */
+  abstract issueChallenge(
+    request: ChallengeRequest
+  ): Promise<IssuedChallenge | ChallengeRefusal>;
+
+  /**
+   * Checks the user's answer and issues a token on success.
+   *
+   * @param submission - The user's answer for an issued challenge
+   * @returns Verification result; `token` is set only on success
+   */
+  abstract submitAnswer(submission: AnswerSubmission): Promise<VerificationResult>;
+}
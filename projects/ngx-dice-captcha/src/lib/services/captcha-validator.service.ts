@@ -1,36 +1,22 @@
-import { Injectable, OnDestroy } from '@angular/core';
-import { Challenge, OperationType } from '../models/challenge.model';
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import {
+  RateLimitRecord,
+  RateLimiter,
+  areValidDiceValues,
+  calculateExpectedAnswer,
+  checkDiceAnswer,
+  compareAnswers,
+} from 'ngx-dice-captcha/server';
+import { Challenge } from '../models/challenge.model';
+import { DICE_FACE_COUNT, DiceType } from '../models/dice.model';
+import { getDieType } from '../models/dice-set.model';
 import { VerificationResult } from '../models/verification-result.model';
 import { VerificationMode } from '../models/verification-mode.model';
+import { CAPTCHA_SESSION_STORE } from '../tokens/captcha-session-store.token';
 
 // Re-export model types for backward compatibility
 export type { VerificationResult } from '../models/verification-result.model';
 
-/**
- * Session tracking for rate limiting
- */
-interface SessionData {
-  attempts: number;
-  lastAttempt: number;
-  lockoutUntil?: number;
-  successfulVerifications: number;
-}
-
-/**
- * Session key wrapper for WeakMap usage
- */
-class SessionKey {
-  constructor(public readonly sessionId: string) {}
-
-  toString(): string {
-    return this.sessionId;
-  }
-
-  equals(other: SessionKey): boolean {
-    return this.sessionId === other.sessionId;
-  }
-}
-
 /**
  * Configuration for the validator
  */
@@ -47,8 +33,12 @@ export interface ValidatorConfig {
  * Service responsible for validating CAPTCHA solutions and managing rate limiting.
  *
  * Validates user answers against challenges, implements rate limiting and session
- * tracking to prevent abuse, generates verification tokens, and manages lockouts
- * for excessive failed attempts. Provides configurable security parameters.
+ * tracking to prevent abuse, and manages lockouts for excessive failed attempts.
+ * Provides configurable security parameters. Results carry no token; sign one with
+ * {@link VerificationTokenService}.
+ *
+ * Session records live in the store provided for {@link CAPTCHA_SESSION_STORE}
+ * (in memory by default).
  *
  * @example
  * ```typescript
@@ -60,8 +50,7 @@ export interface ValidatorConfig {
  * );
  *
  * if (result.success) {
- *   console.log('Token:', result.token);
- *   // Send token to backend for verification
+ *   const token = await tokens.issue({ challengeId: challenge.id, diceCount: 3 });
  * }
  * ```
  *
@@ -72,8 +61,7 @@ export interface ValidatorConfig {
   providedIn: 'root',
 })
 export class CaptchaValidatorService implements OnDestroy {
-  private sessions: WeakMap<SessionKey, SessionData> = new WeakMap();
-  private sessionKeyMap: Map<string, SessionKey> = new Map();
+  private readonly rateLimiter = new RateLimiter({}, inject(CAPTCHA_SESSION_STORE));
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
   private readonly defaultConfig: Required<ValidatorConfig> = {
@@ -88,6 +76,7 @@ export class CaptchaValidatorService implements OnDestroy {
   private config: Required<ValidatorConfig> = { ...this.defaultConfig };
 
   constructor() {
+    this.configureRateLimiter();
     this.startAutomaticCleanup();
   }
 
@@ -101,6 +90,7 @@ export class CaptchaValidatorService implements OnDestroy {
    */
   configure(config: ValidatorConfig): void {
     this.config = { ...this.defaultConfig, ...config };
+    this.configureRateLimiter();
 
     // Restart cleanup timer with new interval if changed
     if (config.cleanupInterval) {
@@ -113,21 +103,28 @@ export class CaptchaValidatorService implements OnDestroy {
    * Validates a user's solution against the challenge.
    *
    * Checks rate limits, validates dice results, calculates expected answer,
-   * compares with user's answer, and generates verification tokens on success.
-   * Updates session tracking for rate limiting.
+   * and compares with user's answer. Updates session tracking for rate limiting.
+   * No token is attached; sign one with {@link VerificationTokenService}.
    *
-   * @param userAnswer - User's submitted answer
+   * @param userAnswer - User's submitted answer; the values entered, lowest first, for
+   * SORTED_ASCENDING challenges
    * @param challenge - Challenge to validate against
    * @param diceResults - Actual dice face values from the roll
    * @param sessionId - Session identifier for rate limiting and tracking
-   * @returns Verification result with success status, message, and optional token
+   * @param screenOrder - Dice indices from left to right on screen, for position
+   * challenges (since 2.4.0)
+   * @param diceType - Type of dice rolled, or the type of each die for a mixed set,
+   * which bounds the face values (since 2.4.0)
+   * @returns Verification result with success status and message
    * @public
    */
   validateSolution(
-    userAnswer: number,
+    userAnswer: number | number[],
     challenge: Challenge,
     diceResults: number[],
-    sessionId: string
+    sessionId: string,
+    screenOrder?: number[],
+    diceType: DiceType | readonly DiceType[] = DiceType.D6
   ): VerificationResult {
     // Check rate limit
     const rateLimitCheck = this.checkRateLimit(sessionId);
@@ -141,7 +138,7 @@ export class CaptchaValidatorService implements OnDestroy {
     }
 
     // Validate dice results
-    if (!this.validateDiceResults(diceResults, challenge.diceCount)) {
+    if (!areValidDiceValues(diceResults, challenge.diceCount, diceType)) {
       return {
         success: false,
         message: 'Invalid dice results',
@@ -150,27 +147,27 @@ export class CaptchaValidatorService implements OnDestroy {
     }
 
     // Calculate expected answer
-    const expectedAnswer = this.calculateExpectedAnswer(challenge, diceResults);
+    const expectedAnswer = calculateExpectedAnswer(challenge, diceResults, screenOrder);
 
     // Check if user's answer matches
-    const isCorrect = this.compareAnswers(userAnswer, expectedAnswer, challenge.operation);
+    const isCorrect = compareAnswers(
+      userAnswer,
+      expectedAnswer,
+      challenge.operation,
+      this.config.tolerancePercentage
+    );
 
     // Update session
     this.updateSession(sessionId, isCorrect);
 
     if (isCorrect) {
-      const token = this.generateVerificationToken(sessionId);
-
       return {
         success: true,
         message: 'CAPTCHA verification successful',
-        token,
         timestamp: Date.now(),
       };
     } else {
-      const sessionKey = this.getSessionKey(sessionId);
-      const session = sessionKey ? this.sessions.get(sessionKey) : undefined;
-      const attemptsRemaining = this.config.maxAttempts - (session?.attempts || 0);
+      const attemptsRemaining = this.rateLimiter.getAttemptsRemaining(sessionId);
 
       return {
         success: false,
@@ -184,20 +181,23 @@ export class CaptchaValidatorService implements OnDestroy {
   /**
    * Validates individual dice values against actual rolled values.
    *
-   * Checks rate limits, validates each dice value, calculates partial matches,
-   * and generates verification tokens on success. Designed for INDIVIDUAL_DICE
-   * verification mode.
+   * Checks rate limits, validates each dice value and calculates partial matches.
+   * Designed for INDIVIDUAL_DICE verification mode. No token is attached; sign one
+   * with {@link VerificationTokenService}.
    *
    * @param userDiceInputs - User's entered dice values
    * @param actualDiceValues - Actual dice face values from the roll
    * @param sessionId - Session identifier for rate limiting and tracking
-   * @returns Verification result with success status, partial match info, and optional token
+   * @param diceType - Type of dice rolled, or the type of each die for a mixed set,
+   * which bounds the face values (since 2.4.0)
+   * @returns Verification result with success status and partial match info
    * @public
    */
   validateIndividualDice(
     userDiceInputs: number[],
     actualDiceValues: number[],
-    sessionId: string
+    sessionId: string,
+    diceType: DiceType | readonly DiceType[] = DiceType.D6
   ): VerificationResult {
     // Check rate limit
     const rateLimitCheck = this.checkRateLimit(sessionId);
@@ -220,14 +220,11 @@ export class CaptchaValidatorService implements OnDestroy {
       };
     }
 
-    // Validate all inputs are valid dice values (1-6)
-    const validInputs = userDiceInputs.every(
-      (val) => Number.isInteger(val) && val >= 1 && val <= 6
-    );
-    if (!validInputs) {
+    // Validate all inputs are faces of the rolled dice
+    if (!areValidDiceValues(userDiceInputs, undefined, diceType)) {
       return {
         success: false,
-        message: 'Invalid dice values. Each value must be between 1 and 6',
+        message: this.getInvalidDiceMessage(userDiceInputs, diceType),
         timestamp: Date.now(),
         attemptsRemaining: rateLimitCheck.attemptsRemaining,
       };
@@ -242,12 +239,9 @@ export class CaptchaValidatorService implements OnDestroy {
     this.updateSession(sessionId, allCorrect);
 
     if (allCorrect) {
-      const token = this.generateVerificationToken(sessionId);
-
       return {
         success: true,
         message: 'All dice values correctly identified!',
-        token,
         timestamp: Date.now(),
         diceValues: actualDiceValues,
         userDiceInputs,
@@ -255,9 +249,7 @@ export class CaptchaValidatorService implements OnDestroy {
         userSumInput: userDiceInputs.reduce((sum, val) => sum + val, 0),
       };
     } else {
-      const sessionKey = this.getSessionKey(sessionId);
-      const session = sessionKey ? this.sessions.get(sessionKey) : undefined;
-      const attemptsRemaining = this.config.maxAttempts - (session?.attempts || 0);
+      const attemptsRemaining = this.rateLimiter.getAttemptsRemaining(sessionId);
 
       return {
         success: false,
@@ -275,65 +267,95 @@ export class CaptchaValidatorService implements OnDestroy {
   }
 
   /**
-   * Checks if a session is within rate limits.
+   * Validates individual dice values and their sum against the actual roll.
    *
-   * Validates attempt counts, lockout status, and attempt windows.
-   * Automatically resets attempts after the window expires.
+   * Same checks as {@link validateIndividualDice}, but the attempt only succeeds
+   * when the entered sum matches as well. This is the check the control overlay
+   * needs, since it collects both. Pass `mode` to check only the fields the
+   * overlay showed; `partialMatch` then covers just those fields.
    *
-   * @param sessionId - Session identifier
-   * @returns Object with allowed status, message, and attempts remaining
+   * @param userDiceInputs - User's entered dice values
+   * @param userSum - User's entered sum
+   * @param actualDiceValues - Actual dice face values from the roll
+   * @param sessionId - Session identifier for rate limiting and tracking
+   * @param mode - Which fields to check (default: BOTH)
+   * @returns Verification result with success status and partial match info.
+   * No token is attached; sign one with {@link VerificationTokenService}.
    * @public
+   * @since 2.4.0
    */
-  checkRateLimit(sessionId: string): {
-    allowed: boolean;
-    message: string;
-    attemptsRemaining?: number;
-  } {
-    const sessionKey = this.getSessionKey(sessionId);
-    const session = sessionKey ? this.sessions.get(sessionKey) : undefined;
-    const now = Date.now();
-
-    // Check if session is locked out
-    if (session?.lockoutUntil && now < session.lockoutUntil) {
-      const remainingTime = Math.ceil((session.lockoutUntil - now) / 1000);
+  validateDiceAndSum(
+    userDiceInputs: number[],
+    userSum: number,
+    actualDiceValues: number[],
+    sessionId: string,
+    mode: VerificationMode = VerificationMode.BOTH
+  ): VerificationResult {
+    // Check rate limit
+    const rateLimitCheck = this.checkRateLimit(sessionId);
+    if (!rateLimitCheck.allowed) {
       return {
-        allowed: false,
-        message: `Too many attempts. Please try again in ${remainingTime} seconds.`,
+        success: false,
+        message: rateLimitCheck.message,
+        attemptsRemaining: rateLimitCheck.attemptsRemaining,
+        timestamp: Date.now(),
       };
     }
 
-    // Clean expired lockout
-    if (session?.lockoutUntil && now >= session.lockoutUntil) {
-      session.lockoutUntil = undefined;
-      session.attempts = 0;
-    }
-
-    // Check attempt window
-    if (session && now - session.lastAttempt > this.config.attemptWindowDuration) {
-      // Reset attempts if outside window
-      session.attempts = 0;
+    const check = checkDiceAnswer(userDiceInputs, userSum, actualDiceValues, mode);
+    if (!check.validLength) {
+      return {
+        success: false,
+        message: check.message,
+        timestamp: Date.now(),
+        attemptsRemaining: rateLimitCheck.attemptsRemaining,
+      };
     }
 
-    // Check max attempts
-    if (session && session.attempts >= this.config.maxAttempts) {
-      // Lock out the session
-      session.lockoutUntil = now + this.config.lockoutDuration;
+    // Update session
+    this.updateSession(sessionId, check.success);
 
+    if (check.success) {
       return {
-        allowed: false,
-        message: 'Maximum attempts exceeded. Please try again later.',
+        success: true,
+        message: check.message,
+        timestamp: Date.now(),
+        diceValues: actualDiceValues,
+        userDiceInputs,
+        expectedSum: check.expectedSum,
+        userSumInput: userSum,
       };
     }
 
-    const attemptsRemaining = this.config.maxAttempts - (session?.attempts || 0);
-
     return {
-      allowed: true,
-      message: 'Rate limit check passed',
-      attemptsRemaining,
+      success: false,
+      message: check.message,
+      attemptsRemaining: this.rateLimiter.getAttemptsRemaining(sessionId),
+      timestamp: Date.now(),
+      userDiceInputs,
+      userSumInput: userSum,
+      partialMatch: check.partialMatch,
     };
   }
 
+  /**
+   * Checks if a session is within rate limits.
+   *
+   * Validates attempt counts, lockout status, and attempt windows.
+   * Automatically resets attempts after the window expires.
+   *
+   * @param sessionId - Session identifier
+   * @returns Object with allowed status, message, and attempts remaining
+   * @public
+   */
+  checkRateLimit(sessionId: string): {
+    allowed: boolean;
+    message: string;
+    attemptsRemaining?: number;
+  } {
+    return this.rateLimiter.check(sessionId);
+  }
+
   /**
    * Resets attempt counter for a session.
    *
@@ -344,14 +366,7 @@ export class CaptchaValidatorService implements OnDestroy {
    * @public
    */
   resetAttempts(sessionId: string): void {
-    const sessionKey = this.getSessionKey(sessionId);
-    if (sessionKey) {
-      const session = this.sessions.get(sessionKey);
-      if (session) {
-        session.attempts = 0;
-        session.lockoutUntil = undefined;
-      }
-    }
+    this.rateLimiter.reset(sessionId);
   }
 
   /**
@@ -363,164 +378,35 @@ export class CaptchaValidatorService implements OnDestroy {
    * @public
    */
   clearSession(sessionId: string): void {
-    const sessionKey = this.getSessionKey(sessionId);
-    if (sessionKey) {
-      this.sessions.delete(sessionKey);
-      this.sessionKeyMap.delete(sessionId);
-    }
-  }
-
-  /**
-   * Validate dice results are valid
-   */
-  private validateDiceResults(diceResults: number[], expectedCount: number): boolean {
-    if (!Array.isArray(diceResults)) {
-      return false;
-    }
-
-    if (diceResults.length !== expectedCount) {
-      return false;
-    }
-
-    // Check all values are valid dice values (1-6)
-    return diceResults.every((val) => Number.isInteger(val) && val >= 1 && val <= 6);
-  }
-
-  /**
-   * Calculate the expected answer based on challenge and dice results
-   */
-  private calculateExpectedAnswer(challenge: Challenge, diceResults: number[]): number {
-    switch (challenge.operation) {
-      case OperationType.SUM:
-        return diceResults.reduce((sum, val) => sum + val, 0);
-
-      case OperationType.PRODUCT:
-        return diceResults.reduce((product, val) => product * val, 1);
-
-      case OperationType.DIFFERENCE:
-        const max = Math.max(...diceResults);
-        const min = Math.min(...diceResults);
-        return max - min;
-
-      case OperationType.SPECIFIC_NUMBER:
-        // Check if any dice shows the target value
-        return diceResults.includes(challenge.targetValue!) ? 1 : 0;
-
-      default:
-        return -1;
-    }
-  }
-
-  /**
-   * Compare user answer with expected answer
-   */
-  private compareAnswers(
-    userAnswer: number,
-    expectedAnswer: number,
-    operation: OperationType
-  ): boolean {
-    // For specific number, user answer should be 1 (yes) or 0 (no)
-    if (operation === OperationType.SPECIFIC_NUMBER) {
-      return (
-        (userAnswer === 1 && expectedAnswer === 1) || (userAnswer === 0 && expectedAnswer === 0)
-      );
-    }
-
-    // For other operations, check numerical equality with tolerance
-    if (this.config.tolerancePercentage > 0) {
-      const tolerance = Math.abs((expectedAnswer * this.config.tolerancePercentage) / 100);
-      return Math.abs(userAnswer - expectedAnswer) <= tolerance;
-    }
-
-    return userAnswer === expectedAnswer;
+    this.rateLimiter.delete(sessionId);
   }
 
   /**
    * Update session data after an attempt
    */
   private updateSession(sessionId: string, success: boolean): void {
-    let sessionKey = this.getSessionKey(sessionId);
-    let session = sessionKey ? this.sessions.get(sessionKey) : undefined;
-
-    if (!session) {
-      session = {
-        attempts: 0,
-        lastAttempt: Date.now(),
-        successfulVerifications: 0,
-      };
-      sessionKey = new SessionKey(sessionId);
-      this.sessions.set(sessionKey, session);
-      this.sessionKeyMap.set(sessionId, sessionKey);
-    }
-
-    session.attempts += 1;
-    session.lastAttempt = Date.now();
-
-    if (success) {
-      session.successfulVerifications += 1;
-      // Reset attempts on success
-      session.attempts = 0;
-      session.lockoutUntil = undefined;
-    }
+    this.rateLimiter.record(sessionId, success);
   }
 
   /**
-   * Gets or creates a session key for the given session ID.
-   *
-   * @param sessionId - Session identifier
-   * @returns Session key instance or undefined if not found
-   * @private
+   * Explain which range the entered dice values must be in. A mixed set names
+   * the first die whose value is out of its range.
    */
-  private getSessionKey(sessionId: string): SessionKey | undefined {
-    return this.sessionKeyMap.get(sessionId);
-  }
-
-  /**
-   * Generate a verification token
-   */
-  private generateVerificationToken(sessionId: string): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 15);
-    const payload = `${sessionId}:${timestamp}:${random}`;
-
-    // In a real implementation, this should be a proper JWT or signed token
-    return btoa(payload);
-  }
-
-  /**
-   * Verifies if a token is valid and not expired.
-   *
-   * Decodes the token and checks age (max 10 minutes). In production,
-   * this should use proper JWT verification with signatures.
-   *
-   * @param token - Token to verify
-   * @returns Object with validity status and decoded data
-   * @public
-   */
-  verifyToken(token: string): { valid: boolean; sessionId?: string; timestamp?: number } {
-    try {
-      const decoded = atob(token);
-      const [sessionId, timestamp, random] = decoded.split(':');
-
-      if (!sessionId || !timestamp || !random) {
-        return { valid: false };
-      }
-
-      const tokenAge = Date.now() - parseInt(timestamp, 10);
-      const maxAge = 10 * 60 * 1000; // 10 minutes
-
-      if (tokenAge > maxAge) {
-        return { valid: false };
-      }
-
-      return {
-        valid: true,
-        sessionId,
-        timestamp: parseInt(timestamp, 10),
-      };
-    } catch {
-      return { valid: false };
+  private getInvalidDiceMessage(
+    userDiceInputs: number[],
+    diceType: DiceType | readonly DiceType[]
+  ): string {
+    if (typeof diceType === 'string') {
+      return `Invalid dice values. Each value must be between 1 and ${DICE_FACE_COUNT[diceType]}`;
     }
+
+    const index = userDiceInputs.findIndex(
+      (value, i) => !areValidDiceValues([value], 1, diceType.slice(i, i + 1))
+    );
+    const type = getDieType(diceType, index);
+    return type
+      ? `Invalid dice values. Die ${index + 1} must be between 1 and ${DICE_FACE_COUNT[type]}`
+      : 'Invalid number of dice values provided';
   }
 
   /**
@@ -530,9 +416,8 @@ export class CaptchaValidatorService implements OnDestroy {
    * @returns Session data including attempts, lockout status, and success count
    * @public
    */
-  getSessionStats(sessionId: string): SessionData | null {
-    const sessionKey = this.getSessionKey(sessionId);
-    return sessionKey ? this.sessions.get(sessionKey) || null : null;
+  getSessionStats(sessionId: string): RateLimitRecord | null {
+    return this.rateLimiter.get(sessionId);
   }
 
   /**
@@ -545,21 +430,21 @@ export class CaptchaValidatorService implements OnDestroy {
    * @public
    */
   cleanupOldSessions(maxAge: number = this.config.sessionMaxAge): number {
-    const now = Date.now();
-    let cleaned = 0;
-
-    // Convert to array to avoid MapIterator issues with older TypeScript targets
-    const entries = Array.from(this.sessionKeyMap.entries());
-    for (const [sessionId, sessionKey] of entries) {
-      const session = this.sessions.get(sessionKey);
-      if (session && now - session.lastAttempt > maxAge) {
-        this.sessions.delete(sessionKey);
-        this.sessionKeyMap.delete(sessionId);
-        cleaned++;
-      }
-    }
+    return this.rateLimiter.prune(maxAge);
+  }
 
-    return cleaned;
+  /**
+   * Applies the rate limit settings to the rate limiter.
+   *
+   * @private
+   */
+  private configureRateLimiter(): void {
+    this.rateLimiter.configure({
+      maxAttempts: this.config.maxAttempts,
+      lockoutDuration: this.config.lockoutDuration,
+      attemptWindowDuration: this.config.attemptWindowDuration,
+      sessionTtl: this.config.sessionMaxAge,
+    });
   }
 
   /**
@@ -617,6 +502,7 @@ export class CaptchaValidatorService implements OnDestroy {
    */
   resetConfig(): void {
     this.config = { ...this.defaultConfig };
+    this.configureRateLimiter();
   }
 
   /**
@@ -627,7 +513,6 @@ export class CaptchaValidatorService implements OnDestroy {
    * @public
    */
   clearAllSessions(): void {
-    this.sessions = new WeakMap();
-    this.sessionKeyMap.clear();
+    this.rateLimiter.clear();
   }
 }
@@ -1,8 +1,12 @@
 import { Injectable } from '@angular/core';
 import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
-import { Dice, DiceType } from '../models/dice.model';
-import { createRoundedBoxGeometry } from '../utils/dice-geometry.util';
+import { DICE_FACE_COUNT, Dice, DiceType } from '../models/dice.model';
+import { FaceRenderer, FaceSymbol } from '../models/face-renderer.model';
+import { createPolyhedronGeometry, createRoundedBoxGeometry } from '../utils/dice-geometry.util';
+import { darkenColor, lightenColor } from '../utils/color.util';
+import { drawFaceSymbol } from '../utils/face-renderer.util';
+import { ROLL_MATERIALS, createDiceShape, getDicePolyhedron } from 'ngx-dice-captcha/server';
 
 // Re-export model types for backward compatibility
 export type { Dice } from '../models/dice.model';
@@ -25,16 +29,42 @@ export interface MaterialConfig {
 }
 
 /**
- * Configuration for dice creation
+ * Colors painted into the dice face textures
+ * @since 2.4.0
+ */
+export interface DiceColors {
+  /** Face color, any CSS color */
+  face: string;
+
+  /** Dot color, any CSS color */
+  dot: string;
+}
+
+/**
+ * Configuration for dice creation.
+ * Each call gets its own materials, so `material` and `colors` can differ per die.
  */
 export interface DiceConfig {
   type: DiceType;
   size?: number;
   material?: MaterialConfig;
+  colors?: DiceColors;
   position?: THREE.Vector3;
   castShadow?: boolean;
   receiveShadow?: boolean;
   envMap?: THREE.Texture;
+
+  /**
+   * Name challenges use for this die, e.g. its color. Also set as the mesh name.
+   * @since 2.4.0
+   */
+  label?: string;
+
+  /**
+   * Draws symbols on the faces instead of pips or numbers
+   * @since 2.4.0
+   */
+  faceRenderer?: FaceRenderer;
 }
 
 /**
@@ -77,6 +107,16 @@ export class DiceFactoryService {
     emissiveIntensity: 0.05, // Very low emissive intensity
   };
 
+  private readonly defaultDiceColors: DiceColors = {
+    face: '#f8f8f8',
+    dot: '#000000',
+  };
+
+  // Three.js BoxGeometry applies materials in order: [right, left, top, bottom, front, back]
+  // We'll map standard D6 faces (opposite sides sum to 7) to these positions:
+  // Right: 4, Left: 3, Top: 6, Bottom: 1, Front: 5, Back: 2
+  private readonly faceOrder = [4, 3, 6, 1, 5, 2];
+
   // Texture atlas for dice faces
   private textureAtlas?: THREE.Texture;
   private readonly atlasSize = 512; // 512x512 texture atlas
@@ -86,8 +126,8 @@ export class DiceFactoryService {
   /**
    * Creates a complete dice object with Three.js mesh and Cannon-es physics body.
    *
-   * @param config - Configuration for dice creation (type, size, material, position, shadows)
-   * @returns Dice object containing mesh, body, type, and face count
+   * @param config - Configuration for dice creation (type, size, material, position, label)
+   * @returns Dice object containing mesh, body, type, face count and label
    * @public
    */
   createDice(config: DiceConfig): Dice {
@@ -95,11 +135,15 @@ export class DiceFactoryService {
     const geometry = this.createDiceGeometry(config.type, size);
     const material = this.createDiceMaterial(
       config.material || this.defaultMaterialConfig,
-      config.envMap
+      config.envMap,
+      config.colors,
+      config.type,
+      config.faceRenderer
     );
 
     // Create Three.js mesh
     const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = config.label ?? '';
     mesh.castShadow = config.castShadow !== false;
     mesh.receiveShadow = config.receiveShadow !== false;
 
@@ -138,6 +182,8 @@ export class DiceFactoryService {
       type: config.type,
       faceCount,
       textures: textures.length > 0 ? textures : undefined,
+      label: config.label,
+      faceRenderer: config.faceRenderer,
     };
   }
 
@@ -154,12 +200,13 @@ export class DiceFactoryService {
     switch (type) {
       case DiceType.D6:
         return this.createD6Geometry(size);
+      case DiceType.D4:
       case DiceType.D8:
-        return this.createD8Geometry(size);
+      case DiceType.D10:
       case DiceType.D12:
-        return this.createD12Geometry(size);
       case DiceType.D20:
-        return this.createD20Geometry(size);
+        // Same polyhedron as the physics hull, with one material group per face
+        return createPolyhedronGeometry(type, size);
       default:
         throw new Error(`Unsupported dice type: ${type}`);
     }
@@ -181,78 +228,29 @@ export class DiceFactoryService {
   }
 
   /**
-   * Creates geometry for an 8-sided dice (octahedron) with rounded edges.
-   *
-   * @param size - Size of the octahedron
-   * @returns Octahedron geometry with rounded edges
-   * @private
-   */
-  private createD8Geometry(size: number): THREE.BufferGeometry {
-    const geometry = new THREE.OctahedronGeometry(size * 0.5, 1); // Add detail level
-    return this.roundGeometryEdges(geometry, size * 0.05);
-  }
-
-  /**
-   * Creates geometry for a 12-sided dice (dodecahedron) with rounded edges.
-   *
-   * @param size - Size of the dodecahedron
-   * @returns Dodecahedron geometry with rounded edges
-   * @private
-   */
-  private createD12Geometry(size: number): THREE.BufferGeometry {
-    const geometry = new THREE.DodecahedronGeometry(size * 0.5, 0); // Add detail level
-    return this.roundGeometryEdges(geometry, size * 0.05);
-  }
-
-  /**
-   * Creates geometry for a 20-sided dice (icosahedron) with rounded edges.
-   *
-   * @param size - Size of the icosahedron
-   * @returns Icosahedron geometry with rounded edges
-   * @private
-   */
-  private createD20Geometry(size: number): THREE.BufferGeometry {
-    const geometry = new THREE.IcosahedronGeometry(size * 0.5, 1); // Add detail level
-    return this.roundGeometryEdges(geometry, size * 0.05);
-  }
-
-  /**
-   * Rounds the edges of a geometry for a more realistic appearance.
-   *
-   * @param geometry - The geometry to round
-   * @param radius - The radius of the rounding
-   * @returns Geometry with rounded edges
-   * @private
-   */
-  private roundGeometryEdges(geometry: THREE.BufferGeometry, radius: number): THREE.BufferGeometry {
-    // This is a simplified approach - in a real implementation you might want
-    // to use a more sophisticated edge rounding algorithm
-    // For now, we'll just return the original geometry
-    // In a production app, you might use a library like three-subdivide or three-bvh
-    return geometry;
-  }
-
-  /**
-   * Creates a Three.js material for dice rendering with dot textures for D6.
+   * Creates a Three.js material for dice rendering, with dot textures for D6
+   * and numbered textures for other dice, or symbol textures from a face renderer.
    *
    * @param config - Material configuration (color, opacity, metalness, roughness)
    * @param envMap - Environment map for reflections
+   * @param colors - Face and dot colors (default: off-white faces, black dots)
+   * @param type - Type of dice the materials are for (default: D6, since 2.4.0)
+   * @param faceRenderer - Draws symbols instead of pips or numbers (since 2.4.0)
    * @returns MeshPhysicalMaterial or array of materials configured for PBR rendering
    * @public
    */
   createDiceMaterial(
     config: MaterialConfig,
-    envMap?: THREE.Texture
+    envMap?: THREE.Texture,
+    colors: DiceColors = this.defaultDiceColors,
+    type: DiceType = DiceType.D6,
+    faceRenderer?: FaceRenderer
   ): THREE.Material | THREE.Material[] {
-    // Three.js BoxGeometry applies materials in order: [right, left, top, bottom, front, back]
-    // We'll map standard D6 faces (opposite sides sum to 7) to these positions:
-    // Right: 4, Left: 3, Top: 6, Bottom: 1, Front: 5, Back: 2
-    const faceOrder = [4, 3, 6, 1, 5, 2];
     const materials: THREE.Material[] = [];
 
-    faceOrder.forEach((faceNumber) => {
-      // Generate texture with dots for this face
-      const texture = this.generateDiceDotsTexture(faceNumber);
+    this.getMaterialFaceNumbers(type).forEach((faceNumber) => {
+      // Generate texture with dots, a number or a symbol for this face
+      const texture = this.generateFaceTextureForType(type, faceNumber, colors, faceRenderer);
 
       const material = new THREE.MeshPhysicalMaterial({
         map: texture,
@@ -277,15 +275,103 @@ export class DiceFactoryService {
     return materials;
   }
 
+  /**
+   * Renders a thumbnail of each face value of a dice type, painted like the dice
+   * faces, for the image-choice answer grid. A D4 thumbnail shows only the value
+   * read at its top corner.
+   *
+   * @param type - Type of dice
+   * @param colors - Face and dot colors (default: off-white faces, black dots)
+   * @param faceRenderer - Draws symbols instead of pips or numbers
+   * @param size - Thumbnail size in pixels (default: 64)
+   * @returns PNG data URLs in face value order, once image symbols have loaded
+   * @public
+   * @since 2.4.0
+   */
+  async createFaceThumbnails(
+    type: DiceType,
+    colors: DiceColors = this.defaultDiceColors,
+    faceRenderer?: FaceRenderer,
+    size: number = 64
+  ): Promise<string[]> {
+    const values = Array.from({ length: this.getFaceCount(type) }, (_, i) => i + 1);
+
+    const canvases = values.map(async (value) => {
+      if (faceRenderer) {
+        const { canvas, loaded } = this.drawSymbolFace(
+          [faceRenderer.getSymbol(value, type)],
+          colors,
+          size
+        );
+        await loaded;
+        return canvas;
+      }
+
+      const texture =
+        type === DiceType.D6
+          ? this.generateDiceDotsTexture(value, colors, size)
+          : this.generateNumberTexture([value], colors, size);
+      texture.dispose();
+      return texture.image as HTMLCanvasElement;
+    });
+
+    return (await Promise.all(canvases)).map((canvas) => canvas.toDataURL());
+  }
+
+  /**
+   * Gets the face number shown by each material of a dice, in material order.
+   * D6 materials follow the BoxGeometry sides; polyhedron groups are in value order.
+   */
+  private getMaterialFaceNumbers(type: DiceType): number[] {
+    if (type === DiceType.D6) {
+      return this.faceOrder;
+    }
+
+    return Array.from({ length: this.getFaceCount(type) }, (_, i) => i + 1);
+  }
+
+  /**
+   * Generates the texture of one face: dots for D6, the numbers of its corners for
+   * D4 and a number for other dice. A face renderer replaces the dots and numbers
+   * with its symbols.
+   */
+  private generateFaceTextureForType(
+    type: DiceType,
+    faceNumber: number,
+    colors: DiceColors,
+    faceRenderer?: FaceRenderer
+  ): THREE.Texture {
+    if (type === DiceType.D6 && !faceRenderer) {
+      return this.generateDiceDotsTexture(faceNumber, colors);
+    }
+
+    const { faces, vertexValues } = getDicePolyhedron(type);
+    const values = vertexValues
+      ? faces[faceNumber - 1].map((vertex) => vertexValues[vertex])
+      : [faceNumber];
+
+    if (faceRenderer) {
+      const symbols = values.map((value) => faceRenderer.getSymbol(value, type));
+      return this.generateSymbolTexture(symbols, colors);
+    }
+
+    return this.generateNumberTexture(values, colors);
+  }
+
   /**
    * Generates a canvas-based texture for a D6 face with dots.
    * Enhanced with more realistic appearance including subtle gradients and shadows.
    *
    * @param faceNumber - Number to display (1-6)
+   * @param colors - Face and dot colors
    * @param size - Texture resolution in pixels (default: 128)
    * @returns CanvasTexture with dice dots pattern, optimized for scaling
    */
-  private generateDiceDotsTexture(faceNumber: number, size: number = 128): THREE.Texture {
+  private generateDiceDotsTexture(
+    faceNumber: number,
+    colors: DiceColors,
+    size: number = 128
+  ): THREE.Texture {
     const canvas = document.createElement('canvas');
     canvas.width = size;
     canvas.height = size;
@@ -295,8 +381,11 @@ export class DiceFactoryService {
       throw new Error('Failed to get canvas 2D context');
     }
 
+    // Shades are derived from hex, so normalize CSS color names and rgb() first
+    const face = '#' + new THREE.Color(colors.face).getHexString();
+    const dot = '#' + new THREE.Color(colors.dot).getHexString();
+
     // Create a subtle gradient background for more realistic appearance
-    // Using a slightly off-white color instead of pure white
     const gradient = context.createRadialGradient(
       size / 2,
       size / 2,
@@ -305,19 +394,19 @@ export class DiceFactoryService {
       size / 2,
       size / 2
     );
-    gradient.addColorStop(0, '#f8f8f8');
-    gradient.addColorStop(0.7, '#f2f2f2');
-    gradient.addColorStop(1, '#e8e8e8');
+    gradient.addColorStop(0, face);
+    gradient.addColorStop(0.7, darkenColor(face, 2.5));
+    gradient.addColorStop(1, darkenColor(face, 6));
     context.fillStyle = gradient;
     context.fillRect(0, 0, size, size);
 
     // Add subtle inner border for depth
-    context.strokeStyle = '#d0d0d0';
+    context.strokeStyle = darkenColor(face, 16);
     context.lineWidth = 2;
     context.strokeRect(4, 4, size - 8, size - 8);
 
     // Add outer border for definition
-    context.strokeStyle = '#b8b8b8';
+    context.strokeStyle = darkenColor(face, 25);
     context.lineWidth = 3;
     context.strokeRect(2, 2, size - 4, size - 4);
 
@@ -341,9 +430,9 @@ export class DiceFactoryService {
         pos.y,
         dotRadius
       );
-      dotGradient.addColorStop(0, '#333333');
-      dotGradient.addColorStop(0.7, '#000000');
-      dotGradient.addColorStop(1, '#111111');
+      dotGradient.addColorStop(0, lightenColor(dot, 20));
+      dotGradient.addColorStop(0.7, dot);
+      dotGradient.addColorStop(1, lightenColor(dot, 7));
 
       context.fillStyle = dotGradient;
       context.beginPath();
@@ -373,6 +462,192 @@ export class DiceFactoryService {
     return texture;
   }
 
+  /**
+   * Generates a canvas-based texture for a polyhedron face with numbers.
+   *
+   * A single number is centered; several are placed as described in
+   * {@link drawFaceItem}. 6 and 9 are underlined so they can be told apart.
+   *
+   * @param numbers - Numbers to display (1 to the dice's face count)
+   * @param colors - Face and number colors
+   * @param size - Texture resolution in pixels (default: 128)
+   * @returns CanvasTexture with the numbers drawn
+   */
+  private generateNumberTexture(
+    numbers: number[],
+    colors: DiceColors,
+    size: number = 128
+  ): THREE.Texture {
+    const { canvas, context, ink } = this.createFlatFaceCanvas(colors, size);
+
+    context.fillStyle = ink;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+
+    numbers.forEach((faceNumber, index) => {
+      const label = faceNumber.toString();
+      const spread = numbers.length > 1;
+      const fontSize = size * (spread ? 0.24 : label.length > 1 ? 0.45 : 0.55);
+
+      this.drawFaceItem(context, size, index, numbers.length, () => {
+        context.font = `bold ${fontSize}px Arial`;
+        context.fillText(label, 0, 0);
+
+        if (faceNumber === 6 || faceNumber === 9) {
+          const width = context.measureText(label).width;
+          context.fillRect(-width / 2, fontSize * 0.45, width, fontSize * 0.07);
+        }
+      });
+    });
+
+    return this.createFlatFaceTexture(canvas);
+  }
+
+  /**
+   * Generates a canvas-based texture for a face with face renderer symbols, placed
+   * like numbers. Image symbols are drawn once they load.
+   *
+   * @param symbols - Symbols to display
+   * @param colors - Face color, and the color glyphs and drawings are painted in
+   * @param size - Texture resolution in pixels (default: 128)
+   * @returns CanvasTexture with the symbols drawn
+   */
+  private generateSymbolTexture(
+    symbols: FaceSymbol[],
+    colors: DiceColors,
+    size: number = 128
+  ): THREE.Texture {
+    const { canvas, loaded } = this.drawSymbolFace(symbols, colors, size);
+    const texture = this.createFlatFaceTexture(canvas);
+    loaded.then(() => (texture.needsUpdate = true));
+    return texture;
+  }
+
+  /**
+   * Draws face renderer symbols on a face canvas, placed like numbers.
+   *
+   * @returns The canvas, and a promise that resolves once every image symbol has
+   * been drawn or failed to load
+   */
+  private drawSymbolFace(
+    symbols: FaceSymbol[],
+    colors: DiceColors,
+    size: number
+  ): { canvas: HTMLCanvasElement; loaded: Promise<void> } {
+    const { canvas, context, ink } = this.createFlatFaceCanvas(colors, size);
+    const cell = size * (symbols.length > 1 ? 0.3 : 0.6);
+
+    const images = symbols.map((symbol, index) => {
+      const draw = (image?: HTMLImageElement) =>
+        this.drawFaceItem(context, size, index, symbols.length, () => {
+          context.fillStyle = ink;
+          context.strokeStyle = ink;
+          context.translate(-cell / 2, -cell / 2);
+          drawFaceSymbol(context, symbol, cell, image);
+        });
+
+      if (!symbol.imageUrl) {
+        draw();
+        return Promise.resolve();
+      }
+
+      return new Promise<void>((resolve) => {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.onload = () => {
+          draw(image);
+          resolve();
+        };
+        image.onerror = () => resolve();
+        image.src = symbol.imageUrl!;
+      });
+    });
+
+    return { canvas, loaded: Promise.all(images).then(() => undefined) };
+  }
+
+  /**
+   * Creates a face canvas for numbers or symbols, filled edge to edge with a subtle
+   * gradient of the face color, since polyhedron face UVs reach past the texture
+   * at the corners. Items drawn on it cast a soft shadow.
+   *
+   * @returns The canvas, its context and the dot color as hex
+   */
+  private createFlatFaceCanvas(
+    colors: DiceColors,
+    size: number
+  ): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D; ink: string } {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+
+    if (!context) {
+      throw new Error('Failed to get canvas 2D context');
+    }
+
+    // Shades are derived from hex, so normalize CSS color names and rgb() first
+    const face = '#' + new THREE.Color(colors.face).getHexString();
+    const ink = '#' + new THREE.Color(colors.dot).getHexString();
+
+    const gradient = context.createRadialGradient(
+      size / 2,
+      size / 2,
+      0,
+      size / 2,
+      size / 2,
+      size / 2
+    );
+    gradient.addColorStop(0, face);
+    gradient.addColorStop(1, darkenColor(face, 4));
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, size, size);
+
+    context.shadowColor = 'rgba(0, 0, 0, 0.4)';
+    context.shadowBlur = 3;
+    context.shadowOffsetX = 1;
+    context.shadowOffsetY = 1;
+
+    return { canvas, context, ink };
+  }
+
+  /**
+   * Draws one item of a face with the origin at its center. A single item is
+   * centered. Several items are spread around the center toward the corners of
+   * a triangular face, starting at the top and going counter-clockwise, each
+   * with its top toward its corner, as on a D4.
+   */
+  private drawFaceItem(
+    context: CanvasRenderingContext2D,
+    size: number,
+    index: number,
+    count: number,
+    draw: () => void
+  ): void {
+    // Corners sit at 90, 210 and 330 degrees, counter-clockwise from the top
+    const angle = Math.PI / 2 + (index * 2 * Math.PI) / count;
+    const distance = count > 1 ? size * 0.28 : 0;
+
+    context.save();
+    context.translate(size / 2 + Math.cos(angle) * distance, size / 2 - Math.sin(angle) * distance);
+    context.rotate(Math.PI / 2 - angle);
+    draw();
+    context.restore();
+  }
+
+  /**
+   * Wraps a number or symbol face canvas in a mipmapped texture
+   */
+  private createFlatFaceTexture(canvas: HTMLCanvasElement): THREE.Texture {
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.generateMipmaps = true;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.anisotropy = 16;
+    texture.needsUpdate = true;
+    return texture;
+  }
+
   /**
    * Get dot positions for a dice face number
    */
@@ -426,8 +701,10 @@ export class DiceFactoryService {
   /**
    * Creates a Cannon-es physics body for the specified dice type.
    *
-   * Uses box shape for D6 and sphere approximation for other types.
-   * Configured with appropriate mass and damping for realistic rolling.
+   * Uses a box shape for D6 and, for other types, a convex hull of the same
+   * polyhedron the dice geometry is built from, so dice settle on a face.
+   * Configured with appropriate mass and damping for realistic rolling, and the
+   * shared dice material so contacts use the configured friction and restitution.
    *
    * @param type - Type of dice
    * @param size - Size of the physics body
@@ -436,30 +713,13 @@ export class DiceFactoryService {
    * @public
    */
   createPhysicsBody(type: DiceType, size: number = 1): CANNON.Body {
-    let shape: CANNON.Shape;
+    const shape = createDiceShape(type, size);
     const mass = 1;
 
-    switch (type) {
-      case DiceType.D6:
-        // Box shape for D6
-        shape = new CANNON.Box(new CANNON.Vec3(size / 2, size / 2, size / 2));
-        break;
-
-      case DiceType.D8:
-      case DiceType.D12:
-      case DiceType.D20:
-        // Use sphere approximation for other dice types
-        // More accurate convex hull can be added later
-        shape = new CANNON.Sphere(size * 0.5);
-        break;
-
-      default:
-        throw new Error(`Unsupported dice type: ${type}`);
-    }
-
     const body = new CANNON.Body({
       mass,
       shape,
+      material: ROLL_MATERIALS.dice,
       linearDamping: 0.7, // Higher damping for faster settling
       angularDamping: 0.7, // Higher damping for faster settling
     });
@@ -553,18 +813,7 @@ export class DiceFactoryService {
    * Get the number of faces for a dice type
    */
   private getFaceCount(type: DiceType): number {
-    switch (type) {
-      case DiceType.D6:
-        return 6;
-      case DiceType.D8:
-        return 8;
-      case DiceType.D12:
-        return 12;
-      case DiceType.D20:
-        return 20;
-      default:
-        return 6;
-    }
+    return DICE_FACE_COUNT[type] ?? 6;
   }
 
   /**
@@ -622,6 +871,55 @@ export class DiceFactoryService {
     }
   }
 
+  /**
+   * Repaints an existing dice's face textures with new colors.
+   *
+   * Replaces and disposes the old face textures in place, so the dice keeps
+   * its mesh, body and position.
+   *
+   * @param dice - Dice created by {@link createDice}
+   * @param colors - New face and dot colors
+   * @public
+   * @since 2.4.0
+   */
+  applyDiceColors(dice: Dice, colors: DiceColors): void {
+    const materials = Array.isArray(dice.mesh.material) ? dice.mesh.material : [dice.mesh.material];
+
+    materials.forEach((material, index) => {
+      if (!(material instanceof THREE.MeshPhysicalMaterial) || !material.map) {
+        return;
+      }
+
+      const oldMap = material.map;
+      const faceNumbers = this.getMaterialFaceNumbers(dice.type);
+      const faceNumber = faceNumbers[index % faceNumbers.length];
+      const newMap = this.generateFaceTextureForType(
+        dice.type,
+        faceNumber,
+        colors,
+        dice.faceRenderer
+      );
+      material.map = newMap;
+      material.needsUpdate = true;
+
+      dice.textures = dice.textures?.map((texture) => (texture === oldMap ? newMap : texture));
+      oldMap.dispose();
+    });
+  }
+
+  /**
+   * Renames an existing dice.
+   *
+   * @param dice - Dice created by {@link createDice}
+   * @param label - New label, or undefined to clear it
+   * @public
+   * @since 2.4.0
+   */
+  applyDiceLabel(dice: Dice, label: string | undefined): void {
+    dice.label = label;
+    dice.mesh.name = label ?? '';
+  }
+
   /**
    * Disposes of all resources used by the factory.
    *
@@ -0,0 +1,117 @@
+import { TestBed } from '@angular/core/testing';
+import { simulateRoll } from 'ngx-dice-captcha/server';
+import { InMemoryCaptchaBackend } from './in-memory-captcha-backend.service';
+import { CaptchaValidatorService } from './captcha-validator.service';
+import { VerificationTokenService } from './verification-token.service';
+import { DiceType } from '../models/dice.model';
+import { IssuedChallenge } from '../models/captcha-backend.model';
+
+describe('InMemoryCaptchaBackend', () => {
+  let backend: InMemoryCaptchaBackend;
+  let validator: CaptchaValidatorService;
+
+  const sessionId = 'test-session';
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [InMemoryCaptchaBackend, CaptchaValidatorService],
+    });
+    backend = TestBed.inject(InMemoryCaptchaBackend);
+    validator = TestBed.inject(CaptchaValidatorService);
+  });
+
+  afterEach(() => {
+    validator.clearAllSessions();
+  });
+
+  // Replays the issued roll as the client would, to know the faces to answer with
+  async function issueAndRoll(diceCount: number) {
+    const issued = (await backend.issueChallenge({
+      sessionId,
+      diceCount,
+      diceType: DiceType.D6,
+    })) as IssuedChallenge;
+    const { faces } = simulateRoll({ seed: issued.seed!, diceCount, diceType: DiceType.D6 });
+    const sum = faces.reduce((total, face) => total + face, 0);
+    return { issued, faces, sum };
+  }
+
+  it('should issue a challenge with the requested dice setup', async () => {
+    const issued = (await backend.issueChallenge({
+      sessionId,
+      diceCount: 3,
+      diceType: DiceType.D6,
+    })) as IssuedChallenge;
+
+    expect(issued.challengeId).toBeTruthy();
+    expect(issued.diceCount).toBe(3);
+    expect(issued.diceType).toBe(DiceType.D6);
+    expect(issued.seed).toBeDefined();
+    expect(issued.expiresAt).toBeGreaterThan(issued.issuedAt);
+    expect(backend.getChallengeCount()).toBe(1);
+  });
+
+  it('should accept a correct answer and discard the challenge', async () => {
+    const { issued, faces, sum } = await issueAndRoll(3);
+
+    const result = await backend.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum,
+    });
+
+    expect(result.success).toBe(true);
+    expect(backend.getChallengeCount()).toBe(0);
+
+    const verification = await TestBed.inject(VerificationTokenService).verify(result.token!);
+    expect(verification.valid).toBe(true);
+    expect(verification.claims?.cid).toBe(issued.challengeId);
+  });
+
+  it('should reject a wrong answer without revealing the faces', async () => {
+    const { issued, faces } = await issueAndRoll(3);
+    const wrong = [faces[0], faces[1], (faces[2] % 6) + 1];
+
+    const result = await backend.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: wrong,
+      sum: wrong.reduce((total, face) => total + face, 0),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.token).toBeUndefined();
+    expect(result.diceValues).toBeUndefined();
+    expect(result.partialMatch?.correctDice).toBe(2);
+  });
+
+  it('should reject answers from another session', async () => {
+    const { issued, faces, sum } = await issueAndRoll(2);
+
+    const result = await backend.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId: 'other-session',
+      diceValues: faces,
+      sum,
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject expired challenges', async () => {
+    backend.configure({ challengeTtl: -1 });
+    const { issued, faces, sum } = await issueAndRoll(2);
+
+    const result = await backend.submitAnswer({
+      challengeId: issued.challengeId,
+      sessionId,
+      diceValues: faces,
+      sum,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('expired');
+    expect(backend.getChallengeCount()).toBe(0);
+  });
+});
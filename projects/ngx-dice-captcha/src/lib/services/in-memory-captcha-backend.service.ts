@@ -0,0 +1,128 @@
+import { Injectable, inject } from '@angular/core';
+import { DiceCaptchaServer } from 'ngx-dice-captcha/server';
+import { CaptchaBackend } from './captcha-backend.service';
+import { CaptchaValidatorService } from './captcha-validator.service';
+import { VerificationTokenService } from './verification-token.service';
+import { CAPTCHA_SESSION_STORE } from '../tokens/captcha-session-store.token';
+import {
+  AnswerSubmission,
+  ChallengeRefusal,
+  ChallengeRequest,
+  IssuedChallenge,
+} from '../models/captcha-backend.model';
+import { VerificationResult } from '../models/verification-result.model';
+import { VerificationMode } from '../models/verification-mode.model';
+import { Difficulty } from '../models/challenge.model';
+
+/**
+ * Configuration for the in-memory backend
+ */
+export interface InMemoryCaptchaBackendConfig {
+  challengeTtl?: number; // in milliseconds (default: 2 minutes)
+  verificationMode?: VerificationMode; // Answer fields of every challenge (default: BOTH)
+  difficulty?: Difficulty; // Difficulty of CHALLENGE mode questions (default: MEDIUM)
+}
+
+/**
+ * Reference {@link CaptchaBackend} that keeps challenges in memory.
+ *
+ * Runs {@link DiceCaptchaServer} from `ngx-dice-captcha/server` in the browser,
+ * so it offers no protection against bots. Use it in tests and local development.
+ * Rate limits follow {@link CaptchaValidatorService} settings and records live
+ * in {@link CAPTCHA_SESSION_STORE}. Tokens are signed with the
+ * {@link VerificationTokenService} key. Like any backend it picks the answer
+ * fields and questions itself; set them with {@link configure}.
+ *
+ * @example
+ * ```typescript
+ * export const appConfig: ApplicationConfig = {
+ *   providers: [{ provide: CaptchaBackend, useClass: InMemoryCaptchaBackend }],
+ * };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+@Injectable()
+export class InMemoryCaptchaBackend extends CaptchaBackend {
+  private readonly validator = inject(CaptchaValidatorService);
+  private readonly tokens = inject(VerificationTokenService);
+  private readonly sessionStore = inject(CAPTCHA_SESSION_STORE);
+
+  private readonly defaultConfig: Required<InMemoryCaptchaBackendConfig> = {
+    challengeTtl: 2 * 60 * 1000, // 2 minutes
+    verificationMode: VerificationMode.BOTH,
+    difficulty: Difficulty.MEDIUM,
+  };
+
+  private config: Required<InMemoryCaptchaBackendConfig> = { ...this.defaultConfig };
+  private server = this.createServer();
+
+  /**
+   * Configures the backend with custom settings.
+   *
+   * Discards challenges issued so far.
+   *
+   * @param config - Configuration options
+   * @public
+   */
+  configure(config: InMemoryCaptchaBackendConfig): void {
+    this.config = { ...this.defaultConfig, ...config };
+    this.server = this.createServer();
+  }
+
+  /**
+   * Issues a challenge using the requested dice setup.
+   *
+   * @param request - Session and preferred dice setup
+   * @returns The issued challenge, or why none was issued
+   * @public
+   */
+  issueChallenge(request: ChallengeRequest): Promise<IssuedChallenge | ChallengeRefusal> {
+    return this.server.issueChallenge(request);
+  }
+
+  /**
+   * Checks an answer against the faces simulated from the issued seed.
+   *
+   * @param submission - The user's answer for an issued challenge
+   * @returns Verification result; `token` is set only on success
+   * @public
+   */
+  submitAnswer(submission: AnswerSubmission): Promise<VerificationResult> {
+    return this.server.submitAnswer(submission);
+  }
+
+  /**
+   * Gets the number of challenges that can still be answered.
+   *
+   * @returns Number of unexpired, unsolved challenges
+   * @public
+   */
+  getChallengeCount(): number {
+    return this.server.getChallengeCount();
+  }
+
+  /**
+   * Creates the framework-free server from the current settings
+   */
+  private createServer(): DiceCaptchaServer {
+    const tokenConfig = this.tokens.getConfig();
+    const validatorConfig = this.validator.getConfig();
+    return new DiceCaptchaServer({
+      tokenKey: tokenConfig.key,
+      audience: tokenConfig.audience,
+      tokenTtl: tokenConfig.ttl,
+      challengeTtl: this.config.challengeTtl,
+      verificationMode: this.config.verificationMode,
+      difficulty: this.config.difficulty,
+      rateLimit: {
+        maxAttempts: validatorConfig.maxAttempts,
+        lockoutDuration: validatorConfig.lockoutDuration,
+        attemptWindowDuration: validatorConfig.attemptWindowDuration,
+        sessionTtl: validatorConfig.sessionMaxAge,
+      },
+      sessionStore: this.sessionStore,
+    });
+  }
+}
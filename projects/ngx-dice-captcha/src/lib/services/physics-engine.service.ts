@@ -3,6 +3,12 @@ import * as CANNON from 'cannon-es';
 import * as THREE from 'three';
 import { TypeAdapters } from '../utils/type-adapters.util';
 import { ComponentError } from '../utils/error.util';
+import {
+  PhysicsConfig,
+  ROLL_TIMESTEP,
+  applyRollPhysics,
+  createDiceWorld,
+} from 'ngx-dice-captcha/server';
 
 /**
  * Service responsible for managing the Cannon-es physics world and simulating physics.
@@ -39,8 +45,9 @@ export class PhysicsEngineService {
   private isInitialized = false;
 
   // Simulation settings
-  private readonly timeStep = 1 / 60; // 60 FPS
+  private readonly timeStep = ROLL_TIMESTEP; // 60 FPS
   private maxSubSteps = 3;
+  private fixedStepAccumulator = 0;
 
   /**
    * Initializes the Cannon-es physics world.
@@ -58,24 +65,8 @@ export class PhysicsEngineService {
       return;
     }
 
-    this.world = new CANNON.World({
-      gravity,
-    });
-
-    // Broadphase is used for collision detection optimization
-    this.world.broadphase = new CANNON.SAPBroadphase(this.world);
-
-    // Allow sleep for better performance and faster settling
-    this.world.allowSleep = true;
-
-    // Set default contact material properties for faster settling
-    const defaultMaterial = new CANNON.Material('default');
-    const defaultContactMaterial = new CANNON.ContactMaterial(defaultMaterial, defaultMaterial, {
-      friction: 0.7, // Increased friction for faster stopping (from 0.6)
-      restitution: 0.15, // Further reduced bounciness for quicker settling (from 0.2)
-    });
-    this.world.addContactMaterial(defaultContactMaterial);
-    this.world.defaultContactMaterial = defaultContactMaterial;
+    this.world = createDiceWorld();
+    this.world.gravity.copy(gravity);
 
     this.isInitialized = true;
   }
@@ -162,6 +153,39 @@ export class PhysicsEngineService {
     this.world.step(this.timeStep, clampedDelta, this.maxSubSteps);
   }
 
+  /**
+   * Steps the physics simulation in whole fixed steps.
+   *
+   * Unlike {@link stepSimulation}, world time advances by exactly one
+   * timestep per step and nothing is interpolated, so the simulation only
+   * depends on the number of steps taken, not on the frame rate. Leftover
+   * time is carried to the next call. Used for seeded rolls.
+   *
+   * @param deltaTime - Time elapsed since last step in seconds (will be clamped to 0.1s max)
+   * @returns Number of steps taken
+   * @throws Will throw error if world is not initialized
+   * @public
+   * @since 2.4.0
+   */
+  stepFixed(deltaTime: number): number {
+    if (!this.world) {
+      throw new Error('PhysicsEngineService: World not initialized');
+    }
+
+    this.fixedStepAccumulator += Math.min(deltaTime, 0.1);
+
+    let steps = 0;
+    while (this.fixedStepAccumulator >= this.timeStep && steps < this.maxSubSteps) {
+      this.world.step(this.timeStep);
+      this.fixedStepAccumulator -= this.timeStep;
+      steps++;
+    }
+
+    // Drop any backlog beyond one step rather than spiralling
+    this.fixedStepAccumulator = Math.min(this.fixedStepAccumulator, this.timeStep);
+    return steps;
+  }
+
   /**
    * Synchronizes Three.js object transform with physics body state.
    *
@@ -400,6 +424,26 @@ export class PhysicsEngineService {
     this.world.gravity.copy(gravity);
   }
 
+  /**
+   * Applies a physics configuration to the world.
+   *
+   * Sets gravity, solver iterations, friction and restitution between dice,
+   * ground and walls, and the damping of every dice body. Wakes all bodies
+   * so the change takes effect immediately.
+   *
+   * @param config - Physics parameters
+   * @throws Will throw error if world is not initialized
+   * @public
+   * @since 2.4.0
+   */
+  applyPhysicsConfig(config: PhysicsConfig): void {
+    if (!this.world) {
+      throw new Error('PhysicsEngineService: World not initialized');
+    }
+    applyRollPhysics(this.world, config);
+    this.wakeAllBodies();
+  }
+
   /**
    * Wakes up all bodies in the physics world.
    *
@@ -842,6 +842,33 @@ export class ThreeRendererService {
     return this.camera;
   }
 
+  /**
+   * Orders objects from left to right as the camera sees them.
+   *
+   * Projects each object's world position into normalized device coordinates
+   * and sorts by the horizontal coordinate. Position challenges such as "the two
+   * leftmost dice" are answered in this order.
+   *
+   * @param objects - Objects to order, usually the settled dice meshes
+   * @returns Indices into `objects`, leftmost first; input order without a camera
+   * @public
+   * @since 2.4.0
+   */
+  getScreenOrder(objects: THREE.Object3D[]): number[] {
+    const indices = objects.map((_, index) => index);
+    if (!this.camera) {
+      return indices;
+    }
+
+    const camera = this.camera;
+    camera.updateMatrixWorld();
+    const screenX = objects.map(
+      (object) => object.getWorldPosition(new THREE.Vector3()).project(camera).x
+    );
+
+    return indices.sort((a, b) => screenX[a] - screenX[b] || a - b);
+  }
+
   /**
    * Gets the current WebGL renderer.
    *
@@ -862,6 +889,48 @@ export class ThreeRendererService {
     return this.isInitialized;
   }
 
+  /**
+   * Turns shadow mapping on or off.
+   *
+   * Toggles the renderer's shadow map and the main light's shadow casting, and
+   * recompiles scene materials so the change shows on the next frame.
+   *
+   * @param enabled - Whether shadows are rendered
+   * @public
+   * @since 2.4.0
+   */
+  setShadowsEnabled(enabled: boolean): void {
+    if (!this.renderer || !this.scene) {
+      return;
+    }
+
+    this.renderer.shadowMap.enabled = enabled;
+    if (this.directionalLight) {
+      this.directionalLight.castShadow = enabled;
+    }
+
+    // Shadow support is compiled into shaders, so materials must be rebuilt
+    this.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        materials.forEach((material) => (material.needsUpdate = true));
+      }
+    });
+  }
+
+  /**
+   * Turns the ambient light on or off.
+   *
+   * @param enabled - Whether the ambient light is visible
+   * @public
+   * @since 2.4.0
+   */
+  setAmbientLightEnabled(enabled: boolean): void {
+    if (this.ambientLight) {
+      this.ambientLight.visible = enabled;
+    }
+  }
+
   /**
    * Register a callback to be notified when canvas resizes
    * @param callback Function to call with resize event data
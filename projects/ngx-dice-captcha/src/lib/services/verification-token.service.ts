@@ -0,0 +1,109 @@
+import { Injectable } from '@angular/core';
+import {
+  InMemoryNonceStore,
+  NonceStore,
+  TokenVerificationResult,
+  VerificationTokenKey,
+  createVerificationTokenClaims,
+  generateTokenSecret,
+  signVerificationToken,
+  verifyVerificationToken,
+} from 'ngx-dice-captcha/server';
+
+/**
+ * Configuration for verification token issuance
+ */
+export interface VerificationTokenConfig {
+  key?: VerificationTokenKey; // default: random HS256 secret per service instance
+  audience?: string; // expected `aud` claim (default: 'ngx-dice-captcha')
+  ttl?: number; // in milliseconds (default: 5 minutes)
+  nonceStore?: NonceStore; // consumed token nonces (default: in memory)
+}
+
+/**
+ * Service for issuing and verifying signed verification tokens.
+ *
+ * Wraps the framework-free helpers from `ngx-dice-captcha/server` with
+ * configuration. Tokens are compact JWS strings carrying the challenge id,
+ * dice count, issued-at, expiry, audience and a nonce. Each token verifies
+ * once; its nonce is consumed and replays fail with `already-used`.
+ *
+ * Without a configured key, a random HMAC secret is generated per instance.
+ * Such tokens can only be verified by the same instance, which suits demos
+ * and tests. Real deployments sign on the server with a shared secret or an
+ * Ed25519 private key.
+ *
+ * @example
+ * ```typescript
+ * tokenService.configure({ audience: 'https://example.com' });
+ * const token = await tokenService.issue({ challengeId: 'abc', diceCount: 3 });
+ * const result = await tokenService.verify(token);
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VerificationTokenService {
+  private readonly defaultConfig: Required<VerificationTokenConfig> = {
+    key: { alg: 'HS256', secret: generateTokenSecret() },
+    audience: 'ngx-dice-captcha',
+    ttl: 5 * 60 * 1000, // 5 minutes
+    nonceStore: new InMemoryNonceStore(),
+  };
+
+  private config: Required<VerificationTokenConfig> = { ...this.defaultConfig };
+
+  /**
+   * Configures the service with custom settings.
+   *
+   * @param config - Configuration options
+   * @public
+   */
+  configure(config: VerificationTokenConfig): void {
+    this.config = { ...this.defaultConfig, ...config };
+  }
+
+  /**
+   * Gets the current token configuration.
+   *
+   * @returns Copy of current configuration
+   * @public
+   */
+  getConfig(): Required<VerificationTokenConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Issues a signed token for a solved challenge.
+   *
+   * @param params - Identifier and dice count of the solved challenge
+   * @returns Signed token
+   * @public
+   */
+  issue(params: { challengeId: string; diceCount: number }): Promise<string> {
+    const claims = createVerificationTokenClaims({
+      ...params,
+      audience: this.config.audience,
+      ttl: this.config.ttl,
+    });
+    return signVerificationToken(claims, this.config.key);
+  }
+
+  /**
+   * Verifies a token issued with the configured key and audience,
+   * consuming its nonce.
+   *
+   * @param token - Token to verify
+   * @returns Verification result with claims when valid
+   * @public
+   */
+  verify(token: string): Promise<TokenVerificationResult> {
+    return verifyVerificationToken(token, this.config.key, {
+      audience: this.config.audience,
+      nonceStore: this.config.nonceStore,
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { InjectionToken } from '@angular/core';
+import { InMemorySessionStore, SyncCaptchaSessionStore } from 'ngx-dice-captcha/server';
+
+/**
+ * Injection token for the store that holds rate limit records.
+ *
+ * Used by `CaptchaValidatorService` and `InMemoryCaptchaBackend`. Defaults to
+ * an in-memory store, so lockouts reset on reload. Provide a
+ * `WebStorageSessionStore` to keep them across reloads and tabs.
+ *
+ * The validator runs synchronously, so the store must be a
+ * `SyncCaptchaSessionStore`. Shared stores such as Redis belong on the
+ * server, behind `DiceCaptchaServer`.
+ *
+ * @example
+ * ```typescript
+ * providers: [
+ *   {
+ *     provide: CAPTCHA_SESSION_STORE,
+ *     useFactory: () => new WebStorageSessionStore(sessionStorage),
+ *   },
+ * ]
+ * ```
+ *
+ * @since 2.4.0
+ */
+export const CAPTCHA_SESSION_STORE = new InjectionToken<SyncCaptchaSessionStore>(
+  'CAPTCHA_SESSION_STORE',
+  {
+    providedIn: 'root',
+    factory: () => new InMemorySessionStore(),
+  }
+);
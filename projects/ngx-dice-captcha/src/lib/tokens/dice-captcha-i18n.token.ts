@@ -18,6 +18,7 @@ export interface DiceCaptchaI18n {
   answerPlaceholder: string;
   attemptsLabel: string;
   timeLabel: string;
+  roundLabel: (round: number, totalRounds: number) => string;
 
   // Button labels
   rollDiceButton: string;
@@ -49,6 +50,24 @@ export interface DiceCaptchaI18n {
   answerInstruction: string;
   keyboardInstructions: string;
 
+  // Audio challenge
+  audioChallengeLabel: string;
+  playAudioButton: string;
+  audioAnswerLabel: string;
+  audioInstructions: string;
+  audioReadyAnnouncement: string;
+
+  // Secure mode
+  secureRollAnnouncement: (revealEnabled: boolean) => string;
+  revealValuesButton: string;
+  revealInstructions: string;
+  revealPendingAnnouncement: (seconds: number) => string;
+
+  // Keyboard play
+  dieTargetAnnouncement: (die: number, total: number) => string;
+  sumTargetAnnouncement: string;
+  highContrastAnnouncement: (enabled: boolean) => string;
+
   // Accessibility announcements
   diceRolledAnnouncement: (results: number[]) => string;
   attemptsRemainingAnnouncement: (remaining: number) => string;
@@ -83,6 +102,7 @@ export const DEFAULT_DICE_CAPTCHA_I18N: DiceCaptchaI18n = {
   answerPlaceholder: 'Enter your answer',
   attemptsLabel: 'Attempts',
   timeLabel: 'Time',
+  roundLabel: (round: number, totalRounds: number) => `Round ${round} of ${totalRounds}`,
 
   // Button labels
   rollDiceButton: 'Roll Dice',
@@ -112,7 +132,33 @@ export const DEFAULT_DICE_CAPTCHA_I18N: DiceCaptchaI18n = {
   // Instructions
   rollInstruction: 'Click "Roll Dice" or press Space to begin',
   answerInstruction: 'Enter the sum of the dice values and submit',
-  keyboardInstructions: 'Use Space to roll, Enter to submit, Escape to cancel',
+  keyboardInstructions:
+    'Use Space or Enter to roll and to submit, digits to fill the dice in order, ' +
+    'arrows to move between dice, Backspace to clear, R to re-roll, H for a hint, ' +
+    'T for high contrast, Alt+A for the audio challenge, Alt+V to read the dice',
+
+  // Audio challenge
+  audioChallengeLabel: 'Audio challenge',
+  playAudioButton: 'Play audio',
+  audioAnswerLabel: 'Numbers you heard, in order',
+  audioInstructions: 'Each die is played in turn. Enter the numbers you hear, in order.',
+  audioReadyAnnouncement: 'Dice rolled. Playing the audio challenge.',
+
+  // Secure mode
+  secureRollAnnouncement: (revealEnabled: boolean) =>
+    revealEnabled
+      ? 'Dice rolled. Use the audio challenge, or Read the dice to hear the values once.'
+      : 'Dice rolled. Use the audio challenge to hear the values.',
+  revealValuesButton: 'Read the dice',
+  revealInstructions:
+    'The dice values are not shown. They are read once for this roll, after a short wait.',
+  revealPendingAnnouncement: (seconds: number) => `The dice will be read in ${seconds} seconds.`,
+
+  // Keyboard play
+  dieTargetAnnouncement: (die: number, total: number) => `Die ${die} of ${total}`,
+  sumTargetAnnouncement: 'Sum of all dice',
+  highContrastAnnouncement: (enabled: boolean) =>
+    enabled ? 'High contrast view on' : 'High contrast view off',
 
   // Accessibility announcements
   diceRolledAnnouncement: (results: number[]) =>
@@ -0,0 +1,93 @@
+import { fakeAsync, tick } from '@angular/core/testing';
+import {
+  createVerificationTokenClaims,
+  generateTokenSecret,
+  signVerificationToken,
+} from 'ngx-dice-captcha/server';
+import { CaptchaValue } from '../models/captcha-value.model';
+import {
+  DEFAULT_CAPTCHA_TOKEN_TTL,
+  captchaControl,
+  captchaNotExpired,
+  captchaRequired,
+  createCaptchaValue,
+} from './captcha-control.util';
+
+describe('captcha-control', () => {
+  const value = (expiresIn: number): CaptchaValue => ({
+    token: 'token',
+    expiresAt: Date.now() + expiresIn,
+    challengeId: 'challenge-1',
+  });
+
+  describe('createCaptchaValue', () => {
+    it('should read the expiry and challenge id from the token', async () => {
+      const claims = createVerificationTokenClaims({
+        challengeId: 'challenge-7',
+        diceCount: 3,
+        audience: 'test',
+        ttl: 60_000,
+      });
+      const token = await signVerificationToken(claims, {
+        alg: 'HS256',
+        secret: generateTokenSecret(),
+      });
+
+      expect(createCaptchaValue({ success: true, message: '', timestamp: 0, token })).toEqual({
+        token,
+        expiresAt: claims.exp * 1000,
+        challengeId: 'challenge-7',
+      });
+    });
+
+    it('should expire an opaque token a default lifetime after the result', () => {
+      const result = { success: true, message: '', timestamp: 1000, token: 'opaque' };
+
+      expect(createCaptchaValue(result, { challengeId: 'abc' })).toEqual({
+        token: 'opaque',
+        expiresAt: 1000 + DEFAULT_CAPTCHA_TOKEN_TTL,
+        challengeId: 'abc',
+      });
+      expect(createCaptchaValue({ ...result, token: undefined })).toBeNull();
+    });
+  });
+
+  describe('validators', () => {
+    it('should require a token', () => {
+      const control = captchaControl();
+
+      expect(control.errors).toEqual({ captchaRequired: true });
+      expect(captchaRequired(captchaControl(value(60_000)))).toBeNull();
+    });
+
+    it('should reject an expired token and leave an empty value to captchaRequired', () => {
+      const expired = value(-1);
+
+      expect(captchaNotExpired(captchaControl(expired))).toEqual({
+        captchaExpired: { expiresAt: expired.expiresAt },
+      });
+      expect(captchaNotExpired(captchaControl())).toBeNull();
+    });
+
+    it('should turn invalid when the token expires without user input', fakeAsync(() => {
+      const control = captchaControl(value(60_000));
+      expect(control.valid).toBeTrue();
+
+      tick(60_000);
+
+      expect(control.hasError('captchaExpired')).toBeTrue();
+    }));
+
+    it('should wait for a distant expiry in delays the timer can hold', fakeAsync(() => {
+      const timeout = spyOn(window, 'setTimeout').and.callThrough();
+      const control = captchaControl(value(30 * 24 * 60 * 60 * 1000)); // 30 days
+
+      expect(timeout.calls.mostRecent().args[1]).toBe(2 ** 31 - 1);
+
+      tick(2 ** 31 - 1);
+
+      expect(control.valid).toBeTrue();
+      control.setValue(null); // Clears the next timer
+    }));
+  });
+});
@@ -0,0 +1,125 @@
+import { AbstractControl, FormControl, ValidationErrors } from '@angular/forms';
+import { decodeVerificationToken } from 'ngx-dice-captcha/server';
+import { CaptchaValue } from '../models/captcha-value.model';
+import { VerificationResult } from '../models/verification-result.model';
+
+/**
+ * Lifetime assumed for tokens whose expiry cannot be read, in milliseconds.
+ * Matches the default `ttl` of `VerificationTokenService` and `DiceCaptchaServer`.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const DEFAULT_CAPTCHA_TOKEN_TTL = 5 * 60 * 1000;
+
+/**
+ * Pending re-validations of controls holding an unexpired value
+ */
+const expiryTimers = new WeakMap<AbstractControl, ReturnType<typeof setTimeout>>();
+
+/**
+ * Builds the form control value of a successful verification.
+ *
+ * The expiry and challenge id are read from the token's claims. Tokens that
+ * cannot be decoded, e.g. from a custom backend, expire `ttl` after
+ * `result.timestamp`.
+ *
+ * @param result - Verification result carrying the token
+ * @param options - Challenge id and lifetime used when the token has no claims
+ * @returns Control value, or null if the result has no token
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function createCaptchaValue(
+  result: VerificationResult,
+  options: { challengeId?: string; ttl?: number } = {}
+): CaptchaValue | null {
+  if (!result.success || !result.token) {
+    return null;
+  }
+
+  const claims = decodeVerificationToken(result.token);
+  return {
+    token: result.token,
+    expiresAt: claims
+      ? claims.exp * 1000
+      : result.timestamp + (options.ttl ?? DEFAULT_CAPTCHA_TOKEN_TTL),
+    challengeId: claims?.cid ?? options.challengeId ?? '',
+  };
+}
+
+/**
+ * Validator that requires a verified CAPTCHA.
+ *
+ * @returns `{ captchaRequired: true }` without a token, otherwise null
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function captchaRequired(
+  control: AbstractControl<CaptchaValue | null>
+): ValidationErrors | null {
+  return control.value?.token ? null : { captchaRequired: true };
+}
+
+/**
+ * Validator that rejects an expired CAPTCHA token.
+ *
+ * While the token is valid, the control is re-validated when it expires, so a
+ * form left open past the expiry turns invalid without user input. An empty
+ * value is left to {@link captchaRequired}.
+ *
+ * @returns `{ captchaExpired: { expiresAt } }` once expired, otherwise null
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function captchaNotExpired(
+  control: AbstractControl<CaptchaValue | null>
+): ValidationErrors | null {
+  clearTimeout(expiryTimers.get(control));
+  expiryTimers.delete(control);
+
+  const value = control.value;
+  if (!value) {
+    return null;
+  }
+
+  const remaining = value.expiresAt - Date.now();
+  if (remaining <= 0) {
+    return { captchaExpired: { expiresAt: value.expiresAt } };
+  }
+
+  // Timers overflow past 2^31 - 1 ms; a distant expiry is re-checked on the way
+  const delay = Math.min(remaining, 2 ** 31 - 1);
+  expiryTimers.set(control, setTimeout(() => control.updateValueAndValidity(), delay));
+  return null;
+}
+
+/**
+ * Creates a typed form control for the CAPTCHA, validated with
+ * {@link captchaRequired} and {@link captchaNotExpired}.
+ *
+ * @param value - Initial value (default: null)
+ * @returns Form control to bind to `<ngx-dice-captcha>`
+ *
+ * @example
+ * ```typescript
+ * form = new FormGroup({
+ *   email: new FormControl(''),
+ *   captcha: captchaControl(),
+ * });
+ * ```
+ * ```html
+ * <ngx-dice-captcha formControlName="captcha" />
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function captchaControl(
+  value: CaptchaValue | null = null
+): FormControl<CaptchaValue | null> {
+  return new FormControl<CaptchaValue | null>(value, [captchaRequired, captchaNotExpired]);
+}
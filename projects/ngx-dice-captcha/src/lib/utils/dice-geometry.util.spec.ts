@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import { DICE_FACE_COUNT, DiceType } from '../models/dice.model';
+import { calculateFacePositions, createPolyhedronGeometry } from './dice-geometry.util';
+import { getUpwardFace } from './physics-helpers.util';
+
+describe('dice-geometry', () => {
+  const polyhedralTypes = [DiceType.D4, DiceType.D8, DiceType.D10, DiceType.D12, DiceType.D20];
+
+  describe('createPolyhedronGeometry', () => {
+    it('should create one material group per face, in value order', () => {
+      polyhedralTypes.forEach((type) => {
+        const geometry = createPolyhedronGeometry(type, 1);
+
+        expect(geometry.groups.length).toBe(DICE_FACE_COUNT[type]);
+        geometry.groups.forEach((group, index) => expect(group.materialIndex).toBe(index));
+      });
+    });
+
+    it('should center each face on its texture', () => {
+      const geometry = createPolyhedronGeometry(DiceType.D20, 1);
+      const uv = geometry.getAttribute('uv');
+      const { start, count } = geometry.groups[0];
+
+      let u = 0;
+      let v = 0;
+      for (let i = start; i < start + count; i++) {
+        u += uv.getX(i) / count;
+        v += uv.getY(i) / count;
+      }
+
+      expect(u).toBeCloseTo(0.5, 5);
+      expect(v).toBeCloseTo(0.5, 5);
+    });
+  });
+
+  describe('calculateFacePositions', () => {
+    it('should place each value on the face that is read when it points up', () => {
+      [DiceType.D6, ...polyhedralTypes].forEach((type) => {
+        calculateFacePositions(type, 1).forEach(({ value, normal }) => {
+          const rotation = new THREE.Quaternion().setFromUnitVectors(
+            normal,
+            new THREE.Vector3(0, 1, 0)
+          );
+          expect(getUpwardFace(rotation, type)).toBe(value);
+        });
+      });
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { getDicePolyhedron } from 'ngx-dice-captcha/server';
 import { DiceType } from '../models/dice.model';
 
 /**
@@ -108,9 +109,12 @@ export function createRoundedBoxGeometry(
 
 /**
  * Calculates the 3D positions of face centers for a given dice type.
- * These positions represent where each numbered face is located on the dice.
+ * These positions represent where each numbered face is located on the dice,
+ * matching the rendered faces and the faces read after a roll. D4 values are
+ * shown at the vertices, so D4 positions are the vertices, with the normal that
+ * points up when that value is rolled.
  *
- * @param diceType - The type of dice (D6, D8, D12, D20)
+ * @param diceType - The type of dice (D4, D6, D8, D10, D12, D20)
  * @param size - The size of the dice
  * @returns Array of face positions with their values, positions, and normals
  *
@@ -121,201 +125,101 @@ export function createRoundedBoxGeometry(
  * ```
  */
 export function calculateFacePositions(diceType: DiceType, size: number = 50): FacePosition[] {
-  const halfSize = size / 2;
-
-  switch (diceType) {
-    case DiceType.D6:
-      return [
-        {
-          value: 1,
-          position: new THREE.Vector3(0, -halfSize, 0),
-          normal: new THREE.Vector3(0, -1, 0),
-        },
-        {
-          value: 2,
-          position: new THREE.Vector3(halfSize, 0, 0),
-          normal: new THREE.Vector3(1, 0, 0),
-        },
-        {
-          value: 3,
-          position: new THREE.Vector3(0, 0, halfSize),
-          normal: new THREE.Vector3(0, 0, 1),
-        },
-        {
-          value: 4,
-          position: new THREE.Vector3(0, 0, -halfSize),
-          normal: new THREE.Vector3(0, 0, -1),
-        },
-        {
-          value: 5,
-          position: new THREE.Vector3(-halfSize, 0, 0),
-          normal: new THREE.Vector3(-1, 0, 0),
-        },
-        {
-          value: 6,
-          position: new THREE.Vector3(0, halfSize, 0),
-          normal: new THREE.Vector3(0, 1, 0),
-        },
-      ];
-
-    case DiceType.D8:
-      // Octahedron - 8 triangular faces
-      return calculateOctahedronFaces(size);
-
-    case DiceType.D12:
-      // Dodecahedron - 12 pentagonal faces
-      return calculateDodecahedronFaces(size);
-
-    case DiceType.D20:
-      // Icosahedron - 20 triangular faces
-      return calculateIcosahedronFaces(size);
-
-    default:
-      throw new Error(`Unsupported dice type: ${diceType}`);
+  const { vertices, faces, normals, vertexValues } = getDicePolyhedron(diceType, size);
+
+  if (vertexValues) {
+    return vertexValues
+      .map((value, index) => {
+        const position = new THREE.Vector3().copy(vertices[index]);
+        return { value, position, normal: position.clone().normalize() };
+      })
+      .sort((a, b) => a.value - b.value);
   }
-}
-
-/**
- * Calculates face positions for an octahedron (D8)
- */
-function calculateOctahedronFaces(size: number): FacePosition[] {
-  const positions: FacePosition[] = [];
-  const distance = size / 2;
-
-  // 8 triangular faces of octahedron
-  const faceNormals = [
-    new THREE.Vector3(1, 1, 1).normalize(),
-    new THREE.Vector3(-1, 1, 1).normalize(),
-    new THREE.Vector3(-1, 1, -1).normalize(),
-    new THREE.Vector3(1, 1, -1).normalize(),
-    new THREE.Vector3(1, -1, 1).normalize(),
-    new THREE.Vector3(-1, -1, 1).normalize(),
-    new THREE.Vector3(-1, -1, -1).normalize(),
-    new THREE.Vector3(1, -1, -1).normalize(),
-  ];
-
-  faceNormals.forEach((normal, index) => {
-    positions.push({
-      value: index + 1,
-      position: normal.clone().multiplyScalar(distance),
-      normal: normal.clone(),
-    });
-  });
 
-  return positions;
-}
+  return faces.map((face, index) => {
+    const normal = new THREE.Vector3(normals[index].x, normals[index].y, normals[index].z);
+    const distance = normal.dot(new THREE.Vector3().copy(vertices[face[0]]));
 
-/**
- * Calculates face positions for a dodecahedron (D12)
- */
-function calculateDodecahedronFaces(size: number): FacePosition[] {
-  const positions: FacePosition[] = [];
-  const phi = (1 + Math.sqrt(5)) / 2; // Golden ratio
-  const distance = size / 2;
-
-  // 12 pentagonal faces - approximate positions
-  const a = 1 / Math.sqrt(3);
-  const b = a / phi;
-  const c = a * phi;
-
-  const faceNormals = [
-    new THREE.Vector3(0, b, c),
-    new THREE.Vector3(0, -b, c),
-    new THREE.Vector3(0, b, -c),
-    new THREE.Vector3(0, -b, -c),
-    new THREE.Vector3(c, 0, b),
-    new THREE.Vector3(-c, 0, b),
-    new THREE.Vector3(c, 0, -b),
-    new THREE.Vector3(-c, 0, -b),
-    new THREE.Vector3(b, c, 0),
-    new THREE.Vector3(-b, c, 0),
-    new THREE.Vector3(b, -c, 0),
-    new THREE.Vector3(-b, -c, 0),
-  ].map((v) => v.normalize());
-
-  faceNormals.forEach((normal, index) => {
-    positions.push({
+    return {
       value: index + 1,
       position: normal.clone().multiplyScalar(distance),
-      normal: normal.clone(),
-    });
+      normal,
+    };
   });
-
-  return positions;
 }
 
 /**
- * Calculates face positions for an icosahedron (D20)
+ * Creates flat-faced geometry for a D4, D8, D10, D12 or D20 dice with one material
+ * group per face. Group `i` belongs to the face numbered `i + 1`, and each face gets
+ * UVs that fit the largest circle around its center into the texture, so a number
+ * drawn in the middle of a square texture sits inside the face. The top of the
+ * texture points at the face corner farthest from the center, or at the first
+ * corner of `DicePolyhedron.faces` when they are equally far.
+ *
+ * @param diceType - The type of dice
+ * @param size - The size of the dice
+ * @returns Non-indexed geometry with positions, normals, UVs and face groups
+ *
+ * @example
+ * ```typescript
+ * const geometry = createPolyhedronGeometry(DiceType.D20, 1);
+ * const mesh = new THREE.Mesh(geometry, numberedMaterials); // 20 materials
+ * ```
  */
-function calculateIcosahedronFaces(size: number): FacePosition[] {
-  const positions: FacePosition[] = [];
-  const phi = (1 + Math.sqrt(5)) / 2; // Golden ratio
-  const distance = size / 2;
-
-  // Vertices of icosahedron
-  const t = phi;
-  const vertices = [
-    [-1, t, 0],
-    [1, t, 0],
-    [-1, -t, 0],
-    [1, -t, 0],
-    [0, -1, t],
-    [0, 1, t],
-    [0, -1, -t],
-    [0, 1, -t],
-    [t, 0, -1],
-    [t, 0, 1],
-    [-t, 0, -1],
-    [-t, 0, 1],
-  ].map((v) => new THREE.Vector3(v[0], v[1], v[2]).normalize());
-
-  // 20 triangular faces - calculated from vertex positions
-  const faces = [
-    [0, 11, 5],
-    [0, 5, 1],
-    [0, 1, 7],
-    [0, 7, 10],
-    [0, 10, 11],
-    [1, 5, 9],
-    [5, 11, 4],
-    [11, 10, 2],
-    [10, 7, 6],
-    [7, 1, 8],
-    [3, 9, 4],
-    [3, 4, 2],
-    [3, 2, 6],
-    [3, 6, 8],
-    [3, 8, 9],
-    [4, 9, 5],
-    [2, 4, 11],
-    [6, 2, 10],
-    [8, 6, 7],
-    [9, 8, 1],
-  ];
+export function createPolyhedronGeometry(diceType: DiceType, size: number): THREE.BufferGeometry {
+  const { vertices, faces, normals } = getDicePolyhedron(diceType, size);
+  const positions: number[] = [];
+  const faceNormals: number[] = [];
+  const uvs: number[] = [];
+  const geometry = new THREE.BufferGeometry();
 
   faces.forEach((face, index) => {
-    const v1 = vertices[face[0]];
-    const v2 = vertices[face[1]];
-    const v3 = vertices[face[2]];
-
-    // Calculate face center
-    const center = new THREE.Vector3().add(v1).add(v2).add(v3).divideScalar(3);
-
-    const normal = center.clone().normalize();
-
-    positions.push({
-      value: index + 1,
-      position: normal.clone().multiplyScalar(distance),
-      normal: normal,
-    });
+    const corners = face.map((i) => new THREE.Vector3().copy(vertices[i]));
+    const normal = new THREE.Vector3(normals[index].x, normals[index].y, normals[index].z);
+    const center = corners
+      .reduce((sum, corner) => sum.add(corner), new THREE.Vector3())
+      .divideScalar(corners.length);
+
+    // Point the top of the texture at the farthest corner, e.g. a D10 apex
+    const distances = corners.map((corner) => corner.distanceTo(center));
+    const top = distances.findIndex((d) => d > Math.max(...distances) - 1e-6);
+    const up = corners[top].clone().sub(center).normalize();
+    const right = up.clone().cross(normal);
+    const inradius = Math.min(
+      ...corners.map((corner, i) =>
+        new THREE.Line3(corner, corners[(i + 1) % corners.length])
+          .closestPointToPoint(center, false, new THREE.Vector3())
+          .distanceTo(center)
+      )
+    );
+    const toUV = (corner: THREE.Vector3): number[] => {
+      const offset = corner.clone().sub(center);
+      return [0.5 + offset.dot(right) / (2 * inradius), 0.5 + offset.dot(up) / (2 * inradius)];
+    };
+
+    const start = positions.length / 3;
+    for (let i = 1; i < corners.length - 1; i++) {
+      [corners[0], corners[i], corners[i + 1]].forEach((corner) => {
+        positions.push(corner.x, corner.y, corner.z);
+        faceNormals.push(normal.x, normal.y, normal.z);
+        uvs.push(...toUV(corner));
+      });
+    }
+    geometry.addGroup(start, positions.length / 3 - start, index);
   });
 
-  return positions;
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(faceNormals, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.computeBoundingSphere();
+
+  return geometry;
 }
 
 /**
  * Applies UV mapping to a dice geometry for texture placement.
- * Maps textures correctly to each face of the dice.
+ * Projects each vertex onto the faces of a box, which suits D6 geometry;
+ * {@link createPolyhedronGeometry} maps the faces of other dice itself.
  *
  * @param geometry - The geometry to apply UV mapping to
  * @param diceType - The type of dice
@@ -417,10 +321,14 @@ export function calculateFaceNormals(
  */
 export function getDiceSizeForType(diceType: DiceType): number {
   switch (diceType) {
+    case DiceType.D4:
+      return 44;
     case DiceType.D6:
       return 50;
     case DiceType.D8:
       return 45;
+    case DiceType.D10:
+      return 46;
     case DiceType.D12:
       return 48;
     case DiceType.D20:
@@ -0,0 +1,66 @@
+import { DiceType } from '../models/dice.model';
+import { FaceSymbol } from '../models/face-renderer.model';
+import {
+  ANIMAL_FACE_SYMBOLS,
+  LETTER_FACE_SYMBOLS,
+  createSymbolFaceRenderer,
+  drawFaceSymbol,
+  renderFaceSymbolImage,
+} from './face-renderer.util';
+
+describe('face-renderer', () => {
+  it('should have a distinct symbol for every D20 face', () => {
+    [LETTER_FACE_SYMBOLS, ANIMAL_FACE_SYMBOLS].forEach((symbols) => {
+      expect(symbols.length).toBe(20);
+      expect(new Set(symbols.map((symbol) => symbol.name)).size).toBe(20);
+    });
+  });
+
+  describe('createSymbolFaceRenderer', () => {
+    it('should show symbol n - 1 on face n, and the number past the last symbol', () => {
+      const renderer = createSymbolFaceRenderer(LETTER_FACE_SYMBOLS.slice(0, 6));
+
+      expect(renderer.getSymbol(1, DiceType.D6).glyph).toBe('A');
+      expect(renderer.getSymbol(6, DiceType.D8).glyph).toBe('F');
+      expect(renderer.getSymbol(7, DiceType.D8)).toEqual({ name: '7', glyph: '7' });
+    });
+  });
+
+  describe('drawFaceSymbol', () => {
+    let context: CanvasRenderingContext2D;
+
+    beforeEach(() => {
+      context = document.createElement('canvas').getContext('2d')!;
+    });
+
+    it('should call custom drawings with the square size', () => {
+      const draw = jasmine.createSpy('draw');
+
+      drawFaceSymbol(context, { name: 'ring', draw }, 40);
+
+      expect(draw).toHaveBeenCalledWith(context, 40);
+    });
+
+    it('should wait for images to be loaded', () => {
+      const symbol: FaceSymbol = { name: 'logo', imageUrl: '/logo.png' };
+      const drawImage: jasmine.Spy = spyOn(context, 'drawImage');
+
+      drawFaceSymbol(context, symbol, 40);
+      expect(drawImage).not.toHaveBeenCalled();
+
+      const image = document.createElement('canvas');
+      drawFaceSymbol(context, symbol, 40, image);
+      expect(drawImage).toHaveBeenCalledWith(image, 0, 0, 40, 40);
+    });
+  });
+
+  describe('renderFaceSymbolImage', () => {
+    it('should render glyphs to a data URL', () => {
+      expect(renderFaceSymbolImage({ name: 'A', glyph: 'A' })).toMatch(/^data:image\/png/);
+    });
+
+    it('should use image URLs as they are', () => {
+      expect(renderFaceSymbolImage({ name: 'logo', imageUrl: '/logo.png' })).toBe('/logo.png');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { FaceRenderer, FaceSymbol } from '../models/face-renderer.model';
+
+/**
+ * Twenty capital letters, enough for a D20. Letters that turn into another
+ * letter when a face is rotated, such as M and W or N and Z, are left out.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const LETTER_FACE_SYMBOLS: readonly FaceSymbol[] = [
+  ...'ABCDEFGHJKLPQRSTUVXY',
+].map((letter) => ({ name: letter, glyph: letter }));
+
+/**
+ * Twenty animal emoji, enough for a D20.
+ *
+ * @public
+ * @since 2.4.0
+ */
+export const ANIMAL_FACE_SYMBOLS: readonly FaceSymbol[] = [
+  { name: 'cat', glyph: '🐱' },
+  { name: 'dog', glyph: '🐶' },
+  { name: 'mouse', glyph: '🐭' },
+  { name: 'rabbit', glyph: '🐰' },
+  { name: 'fox', glyph: '🦊' },
+  { name: 'bear', glyph: '🐻' },
+  { name: 'panda', glyph: '🐼' },
+  { name: 'koala', glyph: '🐨' },
+  { name: 'tiger', glyph: '🐯' },
+  { name: 'lion', glyph: '🦁' },
+  { name: 'cow', glyph: '🐮' },
+  { name: 'pig', glyph: '🐷' },
+  { name: 'frog', glyph: '🐸' },
+  { name: 'monkey', glyph: '🐵' },
+  { name: 'chicken', glyph: '🐔' },
+  { name: 'penguin', glyph: '🐧' },
+  { name: 'bird', glyph: '🐦' },
+  { name: 'owl', glyph: '🦉' },
+  { name: 'horse', glyph: '🐴' },
+  { name: 'unicorn', glyph: '🦄' },
+];
+
+/**
+ * Creates a face renderer that shows `symbols[n - 1]` on face `n` of every
+ * dice type. Faces without a symbol show their number.
+ *
+ * @param symbols - Symbols in face value order
+ * @returns Face renderer for `CaptchaConfig.faceRenderer`
+ *
+ * @example
+ * ```typescript
+ * config = { faceRenderer: createSymbolFaceRenderer(ANIMAL_FACE_SYMBOLS) };
+ * ```
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function createSymbolFaceRenderer(symbols: readonly FaceSymbol[]): FaceRenderer {
+  return {
+    getSymbol: (faceValue) =>
+      symbols[faceValue - 1] ?? { name: String(faceValue), glyph: String(faceValue) },
+  };
+}
+
+/**
+ * Draws a symbol into a `size` × `size` square at the origin, in the context's
+ * current fill and stroke styles.
+ *
+ * Images are drawn from `image`, which the caller loads from `imageUrl`; without
+ * it, an image symbol draws nothing.
+ *
+ * @param context - Canvas context to draw into
+ * @param symbol - Symbol to draw
+ * @param size - Size of the square in pixels
+ * @param image - Loaded image of an `imageUrl` symbol
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function drawFaceSymbol(
+  context: CanvasRenderingContext2D,
+  symbol: FaceSymbol,
+  size: number,
+  image?: CanvasImageSource
+): void {
+  if (symbol.imageUrl) {
+    if (image) {
+      context.drawImage(image, 0, 0, size, size);
+    }
+    return;
+  }
+
+  if (symbol.draw) {
+    symbol.draw(context, size);
+    return;
+  }
+
+  const glyph = symbol.glyph ?? symbol.name;
+  const characters = [...glyph].length;
+  context.font = `bold ${size * (characters > 1 ? 0.55 : 0.8)}px Arial`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(glyph, size / 2, size / 2, size);
+}
+
+/**
+ * Renders a glyph or drawn symbol to a PNG data URL, e.g. for a palette button.
+ *
+ * @param symbol - Symbol to render
+ * @param size - Image size in pixels (default: 64)
+ * @param ink - Fill and stroke color (default: black)
+ * @returns Data URL of the image, or the symbol's `imageUrl`
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function renderFaceSymbolImage(
+  symbol: FaceSymbol,
+  size: number = 64,
+  ink: string = '#000000'
+): string {
+  if (symbol.imageUrl) {
+    return symbol.imageUrl;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+
+  if (!context) {
+    throw new Error('Failed to get canvas 2D context');
+  }
+
+  context.fillStyle = ink;
+  context.strokeStyle = ink;
+  drawFaceSymbol(context, symbol, size);
+  return canvas.toDataURL();
+}
@@ -0,0 +1,43 @@
+import { matchesKeyBinding, resolveKeyAction } from './keymap.util';
+
+describe('keymap', () => {
+  const key = (init: KeyboardEventInit) => new KeyboardEvent('keydown', init);
+
+  describe('matchesKeyBinding', () => {
+    it('should match keys case-insensitively, or by code', () => {
+      expect(matchesKeyBinding(key({ key: 'R' }), 'r')).toBeTrue();
+      expect(matchesKeyBinding(key({ key: ' ', code: 'Space' }), 'Space')).toBeTrue();
+      expect(
+        matchesKeyBinding(key({ key: 'å', code: 'KeyA', altKey: true }), 'Alt+KeyA')
+      ).toBeTrue();
+    });
+
+    it('should require exactly the listed Alt, Ctrl and Meta modifiers', () => {
+      expect(matchesKeyBinding(key({ key: 'r', ctrlKey: true }), 'r')).toBeFalse();
+      expect(matchesKeyBinding(key({ key: 'a', code: 'KeyA' }), 'Alt+KeyA')).toBeFalse();
+      expect(matchesKeyBinding(key({ key: '+', ctrlKey: true }), 'Ctrl++')).toBeTrue();
+    });
+
+    it('should only check Shift when it is listed', () => {
+      expect(matchesKeyBinding(key({ key: '?', shiftKey: true }), '?')).toBeTrue();
+      expect(matchesKeyBinding(key({ key: 'H' }), 'Shift+H')).toBeFalse();
+    });
+  });
+
+  describe('resolveKeyAction', () => {
+    it('should resolve the default scheme', () => {
+      expect(resolveKeyAction(key({ key: 'Enter', code: 'Enter' }))).toBe('roll');
+      expect(resolveKeyAction(key({ key: 'Backspace' }))).toBe('clear');
+      expect(resolveKeyAction(key({ key: 't' }))).toBe('contrast');
+      expect(resolveKeyAction(key({ key: '5' }))).toBeNull();
+    });
+
+    it('should replace the bindings of the actions a keymap lists', () => {
+      const keymap = { reroll: ['n'] };
+
+      expect(resolveKeyAction(key({ key: 'n' }), keymap)).toBe('reroll');
+      expect(resolveKeyAction(key({ key: 'r' }), keymap)).toBeNull();
+      expect(resolveKeyAction(key({ key: 'h' }), keymap)).toBe('hint');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { CaptchaKeyAction, CaptchaKeymap, DEFAULT_CAPTCHA_KEYMAP } from '../models/keymap.model';
+
+/**
+ * Keyboard event properties read when matching key bindings
+ */
+type KeyEventLike = Pick<
+  KeyboardEvent,
+  'key' | 'code' | 'altKey' | 'ctrlKey' | 'metaKey' | 'shiftKey'
+>;
+
+/**
+ * Checks whether a keyboard event matches a key binding such as `'r'`,
+ * `'Space'` or `'Alt+KeyA'`.
+ *
+ * Alt, Ctrl and Meta must be pressed exactly as listed; Shift only when listed,
+ * so `'?'` matches whatever layout needs Shift for it.
+ *
+ * @param event - Keyboard event
+ * @param binding - Key binding of a {@link CaptchaKeymap}
+ * @returns Whether the event matches
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function matchesKeyBinding(event: KeyEventLike, binding: string): boolean {
+  const parts = binding.split('+');
+  const key = parts.pop() || '+'; // 'Ctrl++' binds the plus key
+  const modifiers = new Set(parts.filter(Boolean).map((part) => part.toLowerCase()));
+
+  if (
+    event.altKey !== modifiers.has('alt') ||
+    event.ctrlKey !== modifiers.has('ctrl') ||
+    event.metaKey !== modifiers.has('meta') ||
+    (modifiers.has('shift') && !event.shiftKey)
+  ) {
+    return false;
+  }
+
+  return event.key.toLowerCase() === key.toLowerCase() || event.code === key;
+}
+
+/**
+ * Finds the action a keyboard event is bound to.
+ *
+ * @param event - Keyboard event
+ * @param keymap - Bindings replacing those of {@link DEFAULT_CAPTCHA_KEYMAP}
+ * @returns Bound action, or null
+ *
+ * @public
+ * @since 2.4.0
+ */
+export function resolveKeyAction(
+  event: KeyEventLike,
+  keymap: CaptchaKeymap | null = null
+): CaptchaKeyAction | null {
+  const bindings = { ...DEFAULT_CAPTCHA_KEYMAP, ...keymap };
+  const actions = Object.keys(bindings) as CaptchaKeyAction[];
+
+  return (
+    actions.find((action) =>
+      (bindings[action] ?? []).some((binding) => matchesKeyBinding(event, binding))
+    ) ?? null
+  );
+}
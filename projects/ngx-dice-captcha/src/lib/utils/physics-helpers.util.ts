@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import * as CANNON from 'cannon-es';
 import { DiceType } from '../models/dice.model';
 import { PhysicsConfig } from '../models/captcha-config.model';
+import { SETTLEMENT_THRESHOLD, getUpwardFaceValue } from 'ngx-dice-captcha/server';
 
 /**
  * Default physics configuration for dice
@@ -15,18 +16,8 @@ export const DEFAULT_PHYSICS_CONFIG: PhysicsConfig = {
   collisionIterations: 10,
 };
 
-/**
- * Threshold for determining if a dice has settled (stopped moving)
- * Lower thresholds ensure dice are truly settled before reading values
- * Optimized for fast settling with high damping values
- */
-export const SETTLEMENT_THRESHOLD = {
-  velocity: 0.05, // Initial detection threshold
-  angularVelocity: 0.05, // Initial detection threshold
-  confirmationVelocity: 0.02, // Final confirmation threshold
-  confirmationAngularVelocity: 0.02, // Final confirmation threshold
-  checkDuration: 250, // milliseconds - reduced for faster response
-};
+// Shared with the dice canvas and the headless roll simulator
+export { SETTLEMENT_THRESHOLD };
 
 /**
  * Converts a Three.js Vector3 to a Cannon-es Vec3.
@@ -198,7 +189,7 @@ export function calculateDiceFaceValue(mesh: THREE.Mesh, diceType: DiceType): nu
 
 /**
  * Determines which face is pointing upward based on rotation.
- * Uses face normals to find the face closest to the up vector.
+ * Uses the same face normals as the rendered dice and the physics hull.
  *
  * @param rotation - World quaternion rotation of the dice
  * @param diceType - Type of dice
@@ -211,176 +202,7 @@ export function calculateDiceFaceValue(mesh: THREE.Mesh, diceType: DiceType): nu
  * ```
  */
 export function getUpwardFace(rotation: THREE.Quaternion, diceType: DiceType): number {
-  const upVector = new THREE.Vector3(0, 1, 0);
-
-  switch (diceType) {
-    case DiceType.D6:
-      return getD6UpwardFace(rotation, upVector);
-    case DiceType.D8:
-      return getD8UpwardFace(rotation, upVector);
-    case DiceType.D12:
-      return getD12UpwardFace(rotation, upVector);
-    case DiceType.D20:
-      return getD20UpwardFace(rotation, upVector);
-    default:
-      return 1;
-  }
-}
-
-/**
- * Gets the upward face for a D6 (cube)
- */
-function getD6UpwardFace(rotation: THREE.Quaternion, upVector: THREE.Vector3): number {
-  const faceNormals = [
-    new THREE.Vector3(0, -1, 0), // Face 1 (bottom)
-    new THREE.Vector3(1, 0, 0), // Face 2 (right)
-    new THREE.Vector3(0, 0, 1), // Face 3 (front)
-    new THREE.Vector3(0, 0, -1), // Face 4 (back)
-    new THREE.Vector3(-1, 0, 0), // Face 5 (left)
-    new THREE.Vector3(0, 1, 0), // Face 6 (top)
-  ];
-
-  let maxDot = -Infinity;
-  let faceValue = 1;
-
-  faceNormals.forEach((normal, index) => {
-    const rotatedNormal = normal.clone().applyQuaternion(rotation);
-    const dot = rotatedNormal.dot(upVector);
-
-    if (dot > maxDot) {
-      maxDot = dot;
-      faceValue = index + 1;
-    }
-  });
-
-  return faceValue;
-}
-
-/**
- * Gets the upward face for a D8 (octahedron)
- */
-function getD8UpwardFace(rotation: THREE.Quaternion, upVector: THREE.Vector3): number {
-  const faceNormals = [
-    new THREE.Vector3(1, 1, 1).normalize(),
-    new THREE.Vector3(-1, 1, 1).normalize(),
-    new THREE.Vector3(-1, 1, -1).normalize(),
-    new THREE.Vector3(1, 1, -1).normalize(),
-    new THREE.Vector3(1, -1, 1).normalize(),
-    new THREE.Vector3(-1, -1, 1).normalize(),
-    new THREE.Vector3(-1, -1, -1).normalize(),
-    new THREE.Vector3(1, -1, -1).normalize(),
-  ];
-
-  return findClosestFace(faceNormals, rotation, upVector);
-}
-
-/**
- * Gets the upward face for a D12 (dodecahedron)
- */
-function getD12UpwardFace(rotation: THREE.Quaternion, upVector: THREE.Vector3): number {
-  const phi = (1 + Math.sqrt(5)) / 2;
-  const a = 1 / Math.sqrt(3);
-  const b = a / phi;
-  const c = a * phi;
-
-  const faceNormals = [
-    new THREE.Vector3(0, b, c),
-    new THREE.Vector3(0, -b, c),
-    new THREE.Vector3(0, b, -c),
-    new THREE.Vector3(0, -b, -c),
-    new THREE.Vector3(c, 0, b),
-    new THREE.Vector3(-c, 0, b),
-    new THREE.Vector3(c, 0, -b),
-    new THREE.Vector3(-c, 0, -b),
-    new THREE.Vector3(b, c, 0),
-    new THREE.Vector3(-b, c, 0),
-    new THREE.Vector3(b, -c, 0),
-    new THREE.Vector3(-b, -c, 0),
-  ].map((v) => v.normalize());
-
-  return findClosestFace(faceNormals, rotation, upVector);
-}
-
-/**
- * Gets the upward face for a D20 (icosahedron)
- */
-function getD20UpwardFace(rotation: THREE.Quaternion, upVector: THREE.Vector3): number {
-  const phi = (1 + Math.sqrt(5)) / 2;
-  const t = phi;
-
-  const vertices = [
-    [-1, t, 0],
-    [1, t, 0],
-    [-1, -t, 0],
-    [1, -t, 0],
-    [0, -1, t],
-    [0, 1, t],
-    [0, -1, -t],
-    [0, 1, -t],
-    [t, 0, -1],
-    [t, 0, 1],
-    [-t, 0, -1],
-    [-t, 0, 1],
-  ].map((v) => new THREE.Vector3(v[0], v[1], v[2]).normalize());
-
-  const faces = [
-    [0, 11, 5],
-    [0, 5, 1],
-    [0, 1, 7],
-    [0, 7, 10],
-    [0, 10, 11],
-    [1, 5, 9],
-    [5, 11, 4],
-    [11, 10, 2],
-    [10, 7, 6],
-    [7, 1, 8],
-    [3, 9, 4],
-    [3, 4, 2],
-    [3, 2, 6],
-    [3, 6, 8],
-    [3, 8, 9],
-    [4, 9, 5],
-    [2, 4, 11],
-    [6, 2, 10],
-    [8, 6, 7],
-    [9, 8, 1],
-  ];
-
-  const faceNormals = faces.map((face) => {
-    const v1 = vertices[face[0]];
-    const v2 = vertices[face[1]];
-    const v3 = vertices[face[2]];
-
-    const center = new THREE.Vector3().add(v1).add(v2).add(v3).divideScalar(3);
-
-    return center.normalize();
-  });
-
-  return findClosestFace(faceNormals, rotation, upVector);
-}
-
-/**
- * Helper function to find which face is closest to the up vector
- */
-function findClosestFace(
-  faceNormals: THREE.Vector3[],
-  rotation: THREE.Quaternion,
-  upVector: THREE.Vector3
-): number {
-  let maxDot = -Infinity;
-  let faceValue = 1;
-
-  faceNormals.forEach((normal, index) => {
-    const rotatedNormal = normal.clone().applyQuaternion(rotation);
-    const dot = rotatedNormal.dot(upVector);
-
-    if (dot > maxDot) {
-      maxDot = dot;
-      faceValue = index + 1;
-    }
-  });
-
-  return faceValue;
+  return getUpwardFaceValue(rotation, diceType);
 }
 
 /**
@@ -0,0 +1,32 @@
+// Implemented in the framework-free core so rolls can be replayed on a server without Angular
+export {
+  DEFAULT_ROLL_PHYSICS,
+  ROLL_FORCE_FACTOR,
+  ROLL_GROUND_Y,
+  ROLL_MATERIALS,
+  ROLL_TIMESTEP,
+  applyRollPhysics,
+  areBodiesAtRest,
+  createArenaWalls,
+  createDiceLaunches,
+  createDiceShape,
+  createDiceWorld,
+  createGroundBody,
+  createRollDiceBody,
+  createSeededLaunches,
+  getDiceFaceNormals,
+  getUpwardFaceValue,
+  launchDice,
+  resolveRollSpec,
+  simulateRoll,
+} from 'ngx-dice-captcha/server';
+export type {
+  DiceLaunch,
+  DiceTransform,
+  QuaternionLike,
+  RollArena,
+  RollSimulationOptions,
+  RollSimulationResult,
+  RollSpec,
+  Vector3Like,
+} from 'ngx-dice-captcha/server';
@@ -0,0 +1,16 @@
+// Implemented in the framework-free core so servers can verify tokens without Angular
+export {
+  createVerificationTokenClaims,
+  decodeVerificationToken,
+  generateTokenSecret,
+  signVerificationToken,
+  verifyVerificationToken,
+} from 'ngx-dice-captcha/server';
+export type {
+  TokenVerificationFailure,
+  TokenVerificationOptions,
+  TokenVerificationResult,
+  VerificationTokenAlgorithm,
+  VerificationTokenClaims,
+  VerificationTokenKey,
+} from 'ngx-dice-captcha/server';
@@ -17,14 +17,26 @@ export * from './lib/services/physics-engine.service';
 export * from './lib/services/dice-factory.service';
 export * from './lib/services/challenge-generator.service';
 export * from './lib/services/captcha-validator.service';
+export * from './lib/services/captcha-backend.service';
+export * from './lib/services/in-memory-captcha-backend.service';
+export * from './lib/services/verification-token.service';
 export * from './lib/services/animation.service';
+export * from './lib/services/audio-challenge.service';
 
 // Models
 export * from './lib/models/dice.model';
+export * from './lib/models/dice-set.model';
+export * from './lib/models/face-renderer.model';
+export * from './lib/models/audio-challenge.model';
+export * from './lib/models/value-reveal.model';
+export * from './lib/models/keymap.model';
 export * from './lib/models/captcha-config.model';
+export * from './lib/models/captcha-value.model';
 export * from './lib/models/challenge.model';
+export * from './lib/models/dice-color.model';
 export * from './lib/models/verification-result.model';
 export * from './lib/models/verification-mode.model';
+export * from './lib/models/captcha-backend.model';
 export * from './lib/models/dice-material.model';
 export * from './lib/models/resize-event.model';
 export * from './lib/models/responsive-config.model';
@@ -35,7 +47,12 @@ export * from './lib/models/dice-scale-info.model';
 export * from './lib/utils/dice-geometry.util';
 export * from './lib/utils/physics-helpers.util';
 export * from './lib/utils/random.util';
+export * from './lib/utils/seeded-roll.util';
 export * from './lib/utils/color.util';
+export * from './lib/utils/face-renderer.util';
+export * from './lib/utils/verification-token.util';
+export * from './lib/utils/captcha-control.util';
+export * from './lib/utils/keymap.util';
 
 // Directives
 export * from './lib/directives/accessibility.directive';
@@ -43,3 +60,4 @@ export * from './lib/directives/form-focus-flow.directive';
 
 // Tokens
 export * from './lib/tokens/dice-captcha-i18n.token';
+export * from './lib/tokens/captcha-session-store.token';